@@ -1,8 +1,33 @@
 
-import React, { useState } from 'react';
-import { getAI, fileToBase64, improvePrompt } from '../../services/gemini';
+import React, { useState, useMemo, useRef } from 'react';
+import { improvePrompt, resolveModel, ModelPreferences, ModelSlot } from '../../services/gemini';
+import MarkdownView from '../MarkdownView';
+import { classifyError, GeminiError } from '../../services/errors';
+import ModelPicker from '../ModelPicker';
+import ErrorBanner from '../ErrorBanner';
+import StructuredResultView from '../StructuredResultView';
+import BatchAnalysisPanel from '../BatchAnalysisPanel';
+import DetectionOverlay, { detectionColor } from '../DetectionOverlay';
+import DocumentQAPanel from '../DocumentQAPanel';
+import VideoTimelineView from '../VideoTimelineView';
+import { SCHEMA_PRESETS, formatSchema, parseSchema, toGeminiSchema, toTable, tableToCSV, SchemaIssue } from '../../services/structuredOutput';
+import { analyzeMedia, AnalysisOptions } from '../../services/analysis';
+import { detectObjects, rasterizeMask, toCOCO, Detection } from '../../services/objectDetection';
+import { downloadText } from '../../services/download';
+import { DOCUMENT_ACCEPT, documentKind } from '../../services/documents';
+import { analyzeVideoTimeline, timelineToMarkdown, timelineToChapters, VideoTimeline } from '../../services/videoAnalysis';
+import { UploadStatus } from '../../services/fileUpload';
 
-const AnalysisLab: React.FC = () => {
+type OutputMode = AnalysisOptions['outputMode'] | 'detect' | 'timeline';
+type InputMode = 'single' | 'batch' | 'documents';
+
+interface AnalysisLabProps {
+  onSelectKey: () => void;
+  models: ModelPreferences;
+  onModelChange: (slot: ModelSlot, model: string) => void;
+}
+
+const AnalysisLab: React.FC<AnalysisLabProps> = ({ onSelectKey, models, onModelChange }) => {
   const [file, setFile] = useState<File | null>(null);
   const [preview, setPreview] = useState<string | null>(null);
   const [analysis, setAnalysis] = useState<string | null>(null);
@@ -10,6 +35,22 @@ const AnalysisLab: React.FC = () => {
   const [mode, setMode] = useState<'standard' | 'fast'>('standard');
   const [customPrompt, setCustomPrompt] = useState('');
   const [isImproving, setIsImproving] = useState(false);
+  const [error, setError] = useState<GeminiError | null>(null);
+  const [inputMode, setInputMode] = useState<InputMode>('single');
+  const [outputMode, setOutputMode] = useState<OutputMode>('text');
+  const [presetId, setPresetId] = useState(SCHEMA_PRESETS[0].id);
+  const [schemaText, setSchemaText] = useState(() => formatSchema(SCHEMA_PRESETS[0].schema));
+  const [structured, setStructured] = useState<unknown>(undefined);
+  const [issues, setIssues] = useState<SchemaIssue[]>([]);
+  const [includeMasks, setIncludeMasks] = useState(false);
+  const [detections, setDetections] = useState<Detection[] | null>(null);
+  const [hoveredDetection, setHoveredDetection] = useState<number | null>(null);
+  const [imageSize, setImageSize] = useState<{ width: number; height: number } | null>(null);
+  const [timeline, setTimeline] = useState<VideoTimeline | null>(null);
+  const [uploadStatus, setUploadStatus] = useState<UploadStatus | null>(null);
+  const [currentTime, setCurrentTime] = useState(0);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const modelSlot: ModelSlot = mode === 'fast' ? 'analysisFast' : 'analysis';
 
   const handleImprove = async () => {
     if (!customPrompt.trim() || isImproving) return;
@@ -19,71 +60,157 @@ const AnalysisLab: React.FC = () => {
     setIsImproving(false);
   };
 
+  const schemaState = useMemo(() => {
+    try {
+      const schema = parseSchema(schemaText);
+      // Converting up front surfaces unsupported types while the schema is being edited
+      toGeminiSchema(schema);
+      return { schema, error: null };
+    } catch (err) {
+      return { schema: null, error: (err as Error).message };
+    }
+  }, [schemaText]);
+
+  const analysisOptions: AnalysisOptions = {
+    model: resolveModel(modelSlot, models),
+    depth: mode,
+    outputMode: outputMode === 'json' ? 'json' : 'text',
+    customPrompt,
+    presetId,
+    schema: schemaState.schema ?? undefined,
+  };
+
+  const selectPreset = (id: string) => {
+    const preset = SCHEMA_PRESETS.find(p => p.id === id);
+    setPresetId(id);
+    if (preset) setSchemaText(formatSchema(preset.schema));
+  };
+
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const f = e.target.files?.[0];
     if (f) {
       setFile(f);
       setPreview(URL.createObjectURL(f));
       setAnalysis(null);
+      setStructured(undefined);
+      setIssues([]);
+      setDetections(null);
+      setHoveredDetection(null);
+      setImageSize(null);
+      setTimeline(null);
+      setCurrentTime(0);
+      // Detection needs an image and the timeline a video
+      if (outputMode === 'detect' && !f.type.startsWith('image/')) setOutputMode('text');
+      if (outputMode === 'timeline' && !f.type.startsWith('video/')) setOutputMode('text');
     }
   };
 
+  const selectInputMode = (m: InputMode) => {
+    setInputMode(m);
+    // Detection and timeline results live next to the single file, so batches fall back to text
+    if (m !== 'single' && (outputMode === 'detect' || outputMode === 'timeline')) setOutputMode('text');
+  };
+
   const runAnalysis = async () => {
     if (!file) return;
+    if (outputMode === 'json' && !schemaState.schema) return;
     setIsLoading(true);
+    setError(null);
     
     try {
-      const ai = getAI();
-      const base64 = await fileToBase64(file);
-      const isVideo = file.type.startsWith('video');
-      
-      const model = mode === 'fast' ? 'gemini-flash-lite-latest' : 'gemini-3-pro-preview';
-      
-      const defaultPrompt = `Please analyze this ${isVideo ? 'video' : 'image'} in detail. ${isVideo ? 'Describe the key actions and themes.' : 'Describe the contents, text, and overall sentiment.'}`;
-      const finalPrompt = customPrompt.trim() ? `${customPrompt}\n\n(Context: This is a ${isVideo ? 'video' : 'image'} analysis request)` : defaultPrompt;
-
-      const response = await ai.models.generateContent({
-        model: model,
-        contents: {
-          parts: [
-            { inlineData: { data: base64, mimeType: file.type } },
-            { text: finalPrompt }
-          ]
-        },
-        config: mode === 'standard' ? { thinkingConfig: { thinkingBudget: 4000 } } : undefined
-      });
-
-      setAnalysis(response.text || "No insights found.");
+      if (outputMode === 'detect') {
+        setDetections(await detectObjects(file, { model: analysisOptions.model, masks: includeMasks, prompt: customPrompt }));
+        setHoveredDetection(null);
+        setAnalysis(null);
+        setStructured(undefined);
+        setIssues([]);
+        setTimeline(null);
+      } else if (outputMode === 'timeline') {
+        setTimeline(await analyzeVideoTimeline(file, { model: analysisOptions.model, prompt: customPrompt, onStatus: setUploadStatus }));
+        setCurrentTime(0);
+        setAnalysis(null);
+        setStructured(undefined);
+        setIssues([]);
+        setDetections(null);
+      } else {
+        const result = await analyzeMedia(file, analysisOptions, undefined, setUploadStatus);
+        setAnalysis(result.text ?? null);
+        setStructured(result.data);
+        setIssues(result.issues ?? []);
+        setDetections(null);
+        setTimeline(null);
+      }
     } catch (err) {
       console.error(err);
-      setAnalysis("Error analyzing file.");
+      setError(classifyError(err));
     } finally {
       setIsLoading(false);
+      setUploadStatus(null);
     }
   };
 
+  const exportName = file ? file.name.replace(/\.[^.]+$/, '') : 'analysis';
+
+  const exportCOCO = async () => {
+    if (!file || !detections || !imageSize) return;
+    try {
+      const masks = await Promise.all(detections.map(d => rasterizeMask(d, imageSize.width, imageSize.height)));
+      downloadText(toCOCO(detections, { fileName: file.name, ...imageSize }, masks), `${exportName}-coco.json`, 'application/json');
+    } catch (err) {
+      console.error("COCO export failed:", err);
+    }
+  };
+
+  const seekTo = (seconds: number) => {
+    const video = videoRef.current;
+    if (!video) return;
+    video.currentTime = seconds;
+    video.play().catch(() => {});
+  };
+
   return (
     <div className="p-8 max-w-5xl mx-auto space-y-8">
+      <ErrorBanner error={error} onDismiss={() => setError(null)} onSelectKey={onSelectKey} onRetry={runAnalysis} />
       <div className="bg-slate-800/50 rounded-3xl p-8 border border-slate-700 shadow-xl">
         <div className="flex flex-col md:flex-row gap-8">
           <div className="md:w-1/3 space-y-6">
             <div className="space-y-4">
-               <h3 className="text-lg font-bold">Content Input</h3>
-               <div className="relative aspect-video md:aspect-square bg-slate-900 rounded-2xl border-2 border-dashed border-slate-700 flex items-center justify-center overflow-hidden group">
-                {preview ? (
-                  file?.type.startsWith('video') ? (
-                    <video src={preview} className="w-full h-full object-cover" />
-                  ) : (
-                    <img src={preview} className="w-full h-full object-cover" alt="Preview" />
-                  )
-                ) : (
-                  <div className="text-center p-4">
-                    <span className="text-4xl block mb-2">📁</span>
-                    <p className="text-xs text-slate-500">Image or Video</p>
-                  </div>
-                )}
-                <input type="file" accept="image/*,video/*" onChange={handleFileChange} className="absolute inset-0 opacity-0 cursor-pointer" />
+               <div className="flex items-center justify-between">
+                 <h3 className="text-lg font-bold">Content Input</h3>
+                 <div className="flex bg-slate-900 rounded-lg p-0.5 border border-slate-700">
+                   {(['single', 'batch', 'documents'] as const).map(m => (
+                     <button
+                       key={m}
+                       onClick={() => selectInputMode(m)}
+                       className={`px-2.5 py-1 rounded-md text-[10px] font-bold uppercase tracking-widest transition-all ${inputMode === m ? 'bg-slate-700 text-white' : 'text-slate-500 hover:text-slate-300'}`}
+                     >
+                       {m}
+                     </button>
+                   ))}
+                 </div>
                </div>
+               {inputMode === 'single' && (
+                 <div className="relative aspect-video md:aspect-square bg-slate-900 rounded-2xl border-2 border-dashed border-slate-700 flex items-center justify-center overflow-hidden group">
+                  {preview ? (
+                    file && documentKind(file) ? (
+                      <div className="text-center p-4">
+                        <span className="text-4xl block mb-2">{documentKind(file) === 'pdf' ? '📕' : '📄'}</span>
+                        <p className="text-xs text-slate-300 font-bold break-all">{file.name}</p>
+                      </div>
+                    ) : file?.type.startsWith('video') ? (
+                      <video src={preview} controls className="w-full h-full object-cover" />
+                    ) : (
+                      <img src={preview} className="w-full h-full object-cover" alt="Preview" />
+                    )
+                  ) : (
+                    <div className="text-center p-4">
+                      <span className="text-4xl block mb-2">📁</span>
+                      <p className="text-xs text-slate-500">Image, Video or Document</p>
+                    </div>
+                  )}
+                  <input type="file" accept={`image/*,video/*,${DOCUMENT_ACCEPT}`} onChange={handleFileChange} className="absolute inset-0 opacity-0 cursor-pointer" />
+                 </div>
+               )}
             </div>
 
             <div className="space-y-2">
@@ -122,30 +249,201 @@ const AnalysisLab: React.FC = () => {
                   Lite (Fast)
                 </button>
               </div>
+              <ModelPicker slot={modelSlot} value={resolveModel(modelSlot, models)} onChange={m => onModelChange(modelSlot, m)} className="w-full py-2" />
             </div>
 
-            <button
-              onClick={runAnalysis}
-              disabled={!file || isLoading}
-              className="w-full bg-slate-100 hover:bg-white text-slate-950 py-4 rounded-2xl font-bold disabled:opacity-50 transition-all shadow-lg"
-            >
-              {isLoading ? "Analyzing..." : "Analyze Content"}
-            </button>
+            {inputMode !== 'documents' && (
+              <div className="space-y-2">
+                <label className="text-sm font-semibold text-slate-400 uppercase">Output Format</label>
+                <div className="grid grid-cols-2 gap-2">
+                  <button
+                    onClick={() => setOutputMode('text')}
+                    className={`p-3 rounded-xl border text-sm font-bold transition-all ${outputMode === 'text' ? 'bg-indigo-600 border-indigo-400 text-white' : 'bg-slate-900 border-slate-700 text-slate-400'}`}
+                  >
+                    Text
+                  </button>
+                  <button
+                    onClick={() => setOutputMode('json')}
+                    className={`p-3 rounded-xl border text-sm font-bold transition-all ${outputMode === 'json' ? 'bg-indigo-600 border-indigo-400 text-white' : 'bg-slate-900 border-slate-700 text-slate-400'}`}
+                  >
+                    JSON Schema
+                  </button>
+                  <button
+                    onClick={() => setOutputMode('detect')}
+                    disabled={inputMode !== 'single' || (!!file && !file.type.startsWith('image/'))}
+                    title="Bounding boxes and masks on a single image"
+                    className={`p-3 rounded-xl border text-sm font-bold transition-all disabled:opacity-40 ${outputMode === 'detect' ? 'bg-indigo-600 border-indigo-400 text-white' : 'bg-slate-900 border-slate-700 text-slate-400'}`}
+                  >
+                    Detect
+                  </button>
+                  <button
+                    onClick={() => setOutputMode('timeline')}
+                    disabled={inputMode !== 'single' || (!!file && !file.type.startsWith('video/'))}
+                    title="Scene-by-scene breakdown of a single video"
+                    className={`p-3 rounded-xl border text-sm font-bold transition-all disabled:opacity-40 ${outputMode === 'timeline' ? 'bg-indigo-600 border-indigo-400 text-white' : 'bg-slate-900 border-slate-700 text-slate-400'}`}
+                  >
+                    Timeline
+                  </button>
+                </div>
+                {outputMode === 'detect' && (
+                  <label className="flex items-center gap-2 text-xs text-slate-400 cursor-pointer">
+                    <input type="checkbox" checked={includeMasks} onChange={(e) => setIncludeMasks(e.target.checked)} className="accent-indigo-500" />
+                    Include segmentation masks
+                  </label>
+                )}
+                {outputMode === 'json' && (
+                  <div className="space-y-2">
+                    <select
+                      value={presetId}
+                      onChange={(e) => selectPreset(e.target.value)}
+                      className="w-full bg-slate-900 border border-slate-700 rounded-lg px-2 py-1.5 text-xs font-bold text-slate-300 outline-none"
+                    >
+                      {SCHEMA_PRESETS.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+                      <option value="custom">Custom</option>
+                    </select>
+                    <textarea
+                      value={schemaText}
+                      onChange={(e) => { setSchemaText(e.target.value); setPresetId('custom'); }}
+                      spellCheck={false}
+                      className={`w-full bg-slate-900 border rounded-xl p-3 font-mono text-[11px] leading-relaxed outline-none resize-y h-56 ${schemaState.error ? 'border-red-500/60' : 'border-slate-700 focus:ring-2 focus:ring-indigo-500'}`}
+                    />
+                    {schemaState.error && <p className="text-[11px] text-red-400">{schemaState.error}</p>}
+                  </div>
+                )}
+              </div>
+            )}
+
+            {inputMode === 'single' && (
+              <button
+                onClick={runAnalysis}
+                disabled={!file || isLoading || (outputMode === 'json' && !!schemaState.error)}
+                className="w-full bg-slate-100 hover:bg-white text-slate-950 py-4 rounded-2xl font-bold disabled:opacity-50 transition-all shadow-lg"
+              >
+                {isLoading
+                  ? uploadStatus === 'uploading' ? "Uploading..." : uploadStatus === 'processing' ? "Processing video..." : "Analyzing..."
+                  : "Analyze Content"}
+              </button>
+            )}
           </div>
 
-          <div className="flex-1 flex flex-col">
-            <h3 className="text-sm font-semibold text-slate-400 uppercase tracking-wider mb-4">Intelligence Output</h3>
-            <div className="flex-1 bg-slate-900 rounded-3xl p-6 border border-slate-800 min-h-[300px] overflow-y-auto font-mono text-sm leading-relaxed text-indigo-100/80">
-              {isLoading ? (
-                <div className="space-y-4">
-                  <div className="h-4 bg-slate-800 rounded w-3/4 animate-pulse"></div>
-                  <div className="h-4 bg-slate-800 rounded w-full animate-pulse"></div>
-                  <div className="h-4 bg-slate-800 rounded w-5/6 animate-pulse"></div>
-                  <div className="h-4 bg-slate-800 rounded w-2/3 animate-pulse"></div>
-                </div>
-              ) : analysis || "Upload a file and click analyze to see Gemini's thoughts."}
+          {inputMode === 'batch' ? (
+            <BatchAnalysisPanel options={analysisOptions} canStart={outputMode === 'text' || !schemaState.error} className="flex-1 min-w-0" />
+          ) : inputMode === 'documents' ? (
+            <DocumentQAPanel model={analysisOptions.model} instructions={customPrompt} onSelectKey={onSelectKey} className="flex-1 min-w-0" />
+          ) : (
+            <div className="flex-1 flex flex-col">
+              <div className="flex items-center justify-between mb-4">
+                <h3 className="text-sm font-semibold text-slate-400 uppercase tracking-wider">Intelligence Output</h3>
+                {structured !== undefined && !isLoading && (
+                  <div className="flex gap-1">
+                    <button
+                      onClick={() => downloadText(JSON.stringify(structured, null, 2), `${exportName}.json`, 'application/json')}
+                      className="px-2 py-1 rounded-lg border border-slate-700 text-[10px] font-bold text-slate-400 hover:text-white transition-all"
+                    >
+                      ⬇ JSON
+                    </button>
+                    <button
+                      onClick={() => downloadText(tableToCSV(toTable(structured)), `${exportName}.csv`, 'text/csv')}
+                      className="px-2 py-1 rounded-lg border border-slate-700 text-[10px] font-bold text-slate-400 hover:text-white transition-all"
+                    >
+                      ⬇ CSV
+                    </button>
+                  </div>
+                )}
+                {detections && detections.length > 0 && !isLoading && (
+                  <button
+                    onClick={exportCOCO}
+                    disabled={!imageSize}
+                    className="px-2 py-1 rounded-lg border border-slate-700 text-[10px] font-bold text-slate-400 hover:text-white disabled:opacity-40 transition-all"
+                  >
+                    ⬇ COCO
+                  </button>
+                )}
+                {timeline && !isLoading && (
+                  <div className="flex gap-1">
+                    <button
+                      onClick={() => downloadText(timelineToMarkdown(timeline, file?.name), `${exportName}-timeline.md`, 'text/markdown')}
+                      className="px-2 py-1 rounded-lg border border-slate-700 text-[10px] font-bold text-slate-400 hover:text-white transition-all"
+                    >
+                      ⬇ MD
+                    </button>
+                    <button
+                      onClick={() => downloadText(timelineToChapters(timeline), `${exportName}-chapters.vtt`, 'text/vtt')}
+                      className="px-2 py-1 rounded-lg border border-slate-700 text-[10px] font-bold text-slate-400 hover:text-white transition-all"
+                    >
+                      ⬇ VTT
+                    </button>
+                  </div>
+                )}
+              </div>
+              <div className="flex-1 bg-slate-900 rounded-3xl p-6 border border-slate-800 min-h-[300px] overflow-y-auto text-sm leading-relaxed text-indigo-100/80">
+                {isLoading ? (
+                  <div className="space-y-4">
+                    <div className="h-4 bg-slate-800 rounded w-3/4 animate-pulse"></div>
+                    <div className="h-4 bg-slate-800 rounded w-full animate-pulse"></div>
+                    <div className="h-4 bg-slate-800 rounded w-5/6 animate-pulse"></div>
+                    <div className="h-4 bg-slate-800 rounded w-2/3 animate-pulse"></div>
+                  </div>
+                ) : detections && preview ? (
+                  <div className="space-y-4">
+                    <DetectionOverlay
+                      src={preview}
+                      detections={detections}
+                      hovered={hoveredDetection}
+                      onHover={setHoveredDetection}
+                      onImageLoad={(width, height) => setImageSize({ width, height })}
+                    />
+                    {detections.length === 0 ? (
+                      <p className="text-slate-500">No objects found.</p>
+                    ) : (
+                      <div className="space-y-1" onMouseLeave={() => setHoveredDetection(null)}>
+                        {detections.map((d, i) => (
+                          <div
+                            key={i}
+                            onMouseEnter={() => setHoveredDetection(i)}
+                            className={`flex items-center gap-3 px-3 py-1.5 rounded-lg text-xs transition-all ${hoveredDetection === i ? 'bg-white/10' : 'hover:bg-white/5'}`}
+                          >
+                            <span className="w-3 h-3 rounded-sm shrink-0" style={{ backgroundColor: detectionColor(i) }} />
+                            <span className="flex-1 font-bold text-slate-200">{d.label}</span>
+                            {d.mask && <span className="text-[10px] text-slate-500">mask</span>}
+                            <span className="font-mono text-[10px] text-slate-500">
+                              {[d.box.x, d.box.y, d.box.width, d.box.height].map(n => n.toFixed(3)).join(', ')}
+                            </span>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                ) : timeline && preview ? (
+                  <div className="space-y-4">
+                    <video
+                      ref={videoRef}
+                      src={preview}
+                      controls
+                      onTimeUpdate={(e) => setCurrentTime(e.currentTarget.currentTime)}
+                      className="w-full rounded-2xl bg-black"
+                    />
+                    {timeline.summary && <p className="text-sm text-slate-300">{timeline.summary}</p>}
+                    <VideoTimelineView entries={timeline.entries} currentTime={currentTime} onSeek={seekTo} />
+                  </div>
+                ) : structured !== undefined ? (
+                  <div className="space-y-4">
+                    {issues.length > 0 ? (
+                      <div className="p-3 rounded-xl bg-red-500/10 border border-red-500/30 text-xs text-red-300 space-y-1">
+                        <p className="font-bold">Result does not match the schema ({issues.length} {issues.length === 1 ? 'issue' : 'issues'})</p>
+                        {issues.map((issue, i) => <p key={i}><span className="font-mono">{issue.path}</span> — {issue.message}</p>)}
+                      </div>
+                    ) : (
+                      <p className="text-[11px] font-bold text-emerald-400">✓ Matches the schema</p>
+                    )}
+                    <StructuredResultView value={structured} issuePaths={new Set(issues.map(i => i.path))} />
+                  </div>
+                ) : analysis ? (
+                  <MarkdownView content={analysis} />
+                ) : "Upload a file and click analyze to see Gemini's thoughts."}
+              </div>
             </div>
-          </div>
+          )}
         </div>
       </div>
     </div>
@@ -9,8 +9,13 @@ import MapsLab from './components/Labs/MapsLab';
 import ImageLab from './components/Labs/ImageLab';
 import VideoLab from './components/Labs/VideoLab';
 import AnalysisLab from './components/Labs/AnalysisLab';
+import ArenaLab from './components/Labs/ArenaLab';
 import TranscriptionLab from './components/Labs/TranscriptionLab';
 import SettingsLab from './components/Labs/SettingsLab';
+import UsageLab from './components/Labs/UsageLab';
+import BudgetIndicator from './components/BudgetIndicator';
+import { ModelPreferences, ModelSlot, setModelPreferences } from './services/gemini';
+import { setUsageLab, DEFAULT_PRICES, PriceTable, UsageBudget } from './services/usage';
 
 export const THEME_COLORS = [
   { name: 'Indigo', value: '#6366f1', glow: 'rgba(99, 102, 241, 0.1)' },
@@ -27,8 +32,23 @@ export interface UserSettings {
   preferredVoice: string;
   defaultToFlash: boolean;
   darkMode: boolean;
+  models: ModelPreferences;
+  // Overrides of the default price table, keyed by model id
+  prices: PriceTable;
+  budget: UsageBudget;
 }
 
+const DEFAULT_SETTINGS: UserSettings = {
+  userName: 'Explorer',
+  accentColor: THEME_COLORS[0].value,
+  preferredVoice: 'Zephyr',
+  defaultToFlash: false,
+  darkMode: true,
+  models: {},
+  prices: {},
+  budget: { daily: 0, monthly: 0 },
+};
+
 const hexToRgba = (hex: string, alpha: number) => {
   const r = parseInt(hex.slice(1, 3), 16);
   const g = parseInt(hex.slice(3, 5), 16);
@@ -42,13 +62,8 @@ const App: React.FC = () => {
   
   const [settings, setSettings] = useState<UserSettings>(() => {
     const saved = localStorage.getItem('lab-settings');
-    return saved ? JSON.parse(saved) : {
-      userName: 'Explorer',
-      accentColor: THEME_COLORS[0].value,
-      preferredVoice: 'Zephyr',
-      defaultToFlash: false,
-      darkMode: true,
-    };
+    // Merge so settings saved before a field existed still get its default
+    return saved ? { ...DEFAULT_SETTINGS, ...JSON.parse(saved) } : DEFAULT_SETTINGS;
   });
 
   useEffect(() => {
@@ -77,9 +92,18 @@ const App: React.FC = () => {
       document.documentElement.classList.remove('dark');
     }
     
+    setModelPreferences(settings.models);
     localStorage.setItem('lab-settings', JSON.stringify(settings));
   }, [settings]);
 
+  useEffect(() => {
+    setUsageLab(activeLab);
+  }, [activeLab]);
+
+  const handleModelChange = (slot: ModelSlot, model: string) => {
+    setSettings(prev => ({ ...prev, models: { ...prev.models, [slot]: model } }));
+  };
+
   const handleOpenKeySelector = async () => {
     const aistudio = (window as any).aistudio;
     if (aistudio && typeof aistudio.openSelectKey === 'function') {
@@ -93,17 +117,20 @@ const App: React.FC = () => {
   };
 
   const renderLab = () => {
+    const modelProps = { models: settings.models, onModelChange: handleModelChange };
     switch (activeLab) {
-      case LabType.LIVE: return <LiveLab voice={settings.preferredVoice} userName={settings.userName} onSelectKey={handleOpenKeySelector} />;
-      case LabType.CHAT: return <ChatLab userName={settings.userName} useFlash={settings.defaultToFlash} onSelectKey={handleOpenKeySelector} />;
-      case LabType.SEARCH: return <SearchLab />;
-      case LabType.MAPS: return <MapsLab />;
-      case LabType.IMAGE: return <ImageLab onSelectKey={handleOpenKeySelector} hasKey={hasApiKey} />;
-      case LabType.VIDEO: return <VideoLab onSelectKey={handleOpenKeySelector} hasKey={hasApiKey} />;
-      case LabType.ANALYSIS: return <AnalysisLab />;
-      case LabType.TRANSCRIPTION: return <TranscriptionLab />;
+      case LabType.LIVE: return <LiveLab voice={settings.preferredVoice} userName={settings.userName} onSelectKey={handleOpenKeySelector} {...modelProps} />;
+      case LabType.CHAT: return <ChatLab userName={settings.userName} useFlash={settings.defaultToFlash} onSelectKey={handleOpenKeySelector} {...modelProps} />;
+      case LabType.SEARCH: return <SearchLab onSelectKey={handleOpenKeySelector} {...modelProps} />;
+      case LabType.MAPS: return <MapsLab onSelectKey={handleOpenKeySelector} {...modelProps} />;
+      case LabType.IMAGE: return <ImageLab onSelectKey={handleOpenKeySelector} hasKey={hasApiKey} {...modelProps} />;
+      case LabType.VIDEO: return <VideoLab onSelectKey={handleOpenKeySelector} hasKey={hasApiKey} {...modelProps} />;
+      case LabType.ANALYSIS: return <AnalysisLab onSelectKey={handleOpenKeySelector} {...modelProps} />;
+      case LabType.ARENA: return <ArenaLab onSelectKey={handleOpenKeySelector} models={settings.models} />;
+      case LabType.TRANSCRIPTION: return <TranscriptionLab onSelectKey={handleOpenKeySelector} {...modelProps} />;
+      case LabType.USAGE: return <UsageLab settings={settings} setSettings={setSettings} />;
       case LabType.SETTINGS: return <SettingsLab settings={settings} setSettings={setSettings} onSelectKey={handleOpenKeySelector} />;
-      default: return <LiveLab voice={settings.preferredVoice} userName={settings.userName} onSelectKey={handleOpenKeySelector} />;
+      default: return <LiveLab voice={settings.preferredVoice} userName={settings.userName} onSelectKey={handleOpenKeySelector} {...modelProps} />;
     }
   };
 
@@ -119,6 +146,7 @@ const App: React.FC = () => {
             {activeLab}
           </h1>
           <div className="flex items-center gap-4">
+            <BudgetIndicator prices={{ ...DEFAULT_PRICES, ...settings.prices }} budget={settings.budget} onOpen={() => setActiveLab(LabType.USAGE)} />
             <div className={`flex items-center gap-2 px-3 py-1 rounded-full text-[10px] font-bold uppercase tracking-wider border transition-colors ${hasApiKey ? 'bg-emerald-500/10 border-emerald-500/50 text-emerald-600 dark:text-emerald-400' : 'bg-amber-500/10 border-amber-500/50 text-amber-600 dark:text-amber-400'}`}>
               <div className={`w-1.5 h-1.5 rounded-full ${hasApiKey ? 'bg-emerald-500' : 'bg-amber-500 animate-pulse'}`} />
               {hasApiKey ? 'Premium Key Active' : 'Default Key'}
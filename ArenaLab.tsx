@@ -0,0 +1,366 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { getModelInfo, modelsWithCapability, resolveModel, ModelPreferences } from '../../services/gemini';
+import { classifyError, GeminiError } from '../../services/errors';
+import {
+  attachmentParts, streamContender, contenderLabel, listBattles, saveBattle, clearBattles,
+  ARENA_CATEGORIES, ArenaContender, ArenaResponse, ArenaBattle, ArenaVote,
+} from '../../services/arena';
+import MarkdownView from '../MarkdownView';
+import ErrorBanner from '../ErrorBanner';
+import ArenaLeaderboard from '../ArenaLeaderboard';
+
+const MIN_CONTENDERS = 2;
+const MAX_CONTENDERS = 4;
+
+const THINKING_OPTIONS = [
+  { label: 'Thinking: Default', value: undefined },
+  { label: 'Thinking: Off', value: 0 },
+  { label: 'Thinking: Low', value: 1024 },
+  { label: 'Thinking: High', value: 8192 },
+];
+
+const GRID_COLUMNS: Record<number, string> = {
+  2: 'md:grid-cols-2',
+  3: 'md:grid-cols-3',
+  4: 'md:grid-cols-2 xl:grid-cols-4',
+};
+
+const MODEL_OPTIONS = modelsWithCapability('text');
+
+interface ArenaRun {
+  prompt: string;
+  category: string;
+  attachmentNames: string[];
+  contenders: (ArenaContender & { label: string })[];
+}
+
+interface ArenaLabProps {
+  onSelectKey: () => void;
+  models: ModelPreferences;
+}
+
+const newContender = (model: string): ArenaContender => ({ id: crypto.randomUUID(), model });
+
+const seconds = (ms?: number) => ms === undefined ? '—' : `${(ms / 1000).toFixed(2)}s`;
+
+const shuffle = <T,>(items: T[]): T[] => {
+  const copy = [...items];
+  for (let i = copy.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [copy[i], copy[j]] = [copy[j], copy[i]];
+  }
+  return copy;
+};
+
+const ArenaLab: React.FC<ArenaLabProps> = ({ onSelectKey, models }) => {
+  // The two chatbot slots make Pro vs Flash the starting comparison
+  const [contenders, setContenders] = useState<ArenaContender[]>(() => [
+    newContender(resolveModel('chat', models)),
+    newContender(resolveModel('chatFast', models)),
+  ]);
+  const [prompt, setPrompt] = useState('');
+  const [category, setCategory] = useState(ARENA_CATEGORIES[0]);
+  const [attachments, setAttachments] = useState<File[]>([]);
+  const [blind, setBlind] = useState(false);
+  const [run, setRun] = useState<ArenaRun | null>(null);
+  const [responses, setResponses] = useState<Record<string, ArenaResponse>>({});
+  const [vote, setVote] = useState<ArenaVote | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState<GeminiError | null>(null);
+  const [battles, setBattles] = useState<ArenaBattle[]>([]);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    listBattles().then(setBattles).catch(err => console.error("Failed to load arena votes:", err));
+    return () => abortRef.current?.abort();
+  }, []);
+
+  // Identical configurations would play themselves and count twice on the leaderboard
+  const labels = contenders.map(contenderLabel);
+  const duplicates = new Set(labels.filter((label, i) => labels.indexOf(label) !== i));
+
+  // A new contender starts on a model nobody is using yet
+  const addContender = () => {
+    const unused = MODEL_OPTIONS.find(m => !contenders.some(c => c.model === m.id && c.temperature === undefined && c.thinkingBudget === undefined));
+    setContenders(prev => [...prev, newContender(unused?.id ?? prev[prev.length - 1]?.model ?? MODEL_OPTIONS[0].id)]);
+  };
+
+  const updateContender = (id: string, patch: Partial<ArenaContender>) => {
+    setContenders(prev => prev.map(c => c.id === id ? { ...c, ...patch } : c));
+  };
+
+  const runArena = async () => {
+    if (!prompt.trim() || isRunning || duplicates.size > 0) return;
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const snapshot = contenders.map(c => ({ ...c, label: contenderLabel(c) }));
+    // Shuffled in blind mode so column position does not give the models away
+    setRun({ prompt, category, attachmentNames: attachments.map(f => f.name), contenders: blind ? shuffle(snapshot) : snapshot });
+    setResponses(Object.fromEntries(snapshot.map(c => [c.id, { text: '' }])));
+    setVote(null);
+    setError(null);
+    setIsRunning(true);
+
+    try {
+      const parts = [...await attachmentParts(attachments), { text: prompt }];
+      await Promise.all(snapshot.map(async c => {
+        const update = (patch: Partial<ArenaResponse>) => setResponses(prev => ({ ...prev, [c.id]: { ...prev[c.id], ...patch } }));
+        try {
+          const stats = await streamContender(c, parts, text => update({ text }), controller.signal);
+          update({ stats });
+        } catch (err) {
+          // One contender failing should not stop the others, so errors stay in its column
+          console.error(`Arena contender ${c.label} failed:`, err);
+          update({ error: controller.signal.aborted ? 'Stopped.' : classifyError(err).message });
+        }
+      }));
+    } catch (err) {
+      console.error(err);
+      setError(classifyError(err));
+    } finally {
+      setIsRunning(false);
+      abortRef.current = null;
+    }
+  };
+
+  const castVote = async (v: ArenaVote) => {
+    if (!run || vote !== null) return;
+    setVote(v);
+    const battle: ArenaBattle = {
+      id: crypto.randomUUID(),
+      createdAt: Date.now(),
+      prompt: run.prompt,
+      category: run.category,
+      attachmentNames: run.attachmentNames,
+      contenders: run.contenders.map(c => ({ ...c, response: responses[c.id] ?? { text: '' } })),
+      vote: v,
+    };
+    try {
+      await saveBattle(battle);
+      setBattles(prev => [battle, ...prev]);
+    } catch (err) {
+      console.error("Failed to save arena vote:", err);
+    }
+  };
+
+  const handleClear = async () => {
+    try {
+      await clearBattles();
+      setBattles([]);
+    } catch (err) {
+      console.error("Failed to clear arena votes:", err);
+    }
+  };
+
+  const succeeded = run ? run.contenders.filter(c => responses[c.id] && !responses[c.id].error).length : 0;
+  const canVote = !!run && !isRunning && vote === null && succeeded >= MIN_CONTENDERS;
+  const revealed = !blind || vote !== null;
+
+  return (
+    <div className="p-8 max-w-7xl mx-auto space-y-8">
+      <ErrorBanner error={error} onDismiss={() => setError(null)} onSelectKey={onSelectKey} onRetry={runArena} />
+
+      <div className="bg-slate-800/50 rounded-3xl p-6 border border-slate-700 shadow-xl space-y-5">
+        <div className="flex flex-wrap items-center gap-2">
+          <h3 className="text-lg font-bold mr-auto">Contenders</h3>
+          <label className="flex items-center gap-2 text-xs text-slate-400 cursor-pointer" title="Hide model names until you vote">
+            <input type="checkbox" checked={blind} onChange={(e) => setBlind(e.target.checked)} disabled={isRunning} className="accent-indigo-500" />
+            Blind
+          </label>
+          <button
+            onClick={addContender}
+            disabled={contenders.length >= MAX_CONTENDERS || isRunning}
+            className="px-3 py-1.5 rounded-lg border border-slate-700 text-xs font-bold text-slate-300 hover:text-white disabled:opacity-40 transition-all"
+          >
+            + Add
+          </button>
+        </div>
+
+        <div className={`grid grid-cols-1 gap-3 ${GRID_COLUMNS[contenders.length]}`}>
+          {contenders.map((c, i) => (
+            <div key={c.id} className={`bg-slate-900 rounded-2xl border p-3 space-y-2 ${duplicates.has(labels[i]) ? 'border-red-500/60' : 'border-slate-800'}`}>
+              <div className="flex items-center gap-2">
+                <span className="text-[10px] font-black uppercase tracking-widest text-slate-500">Model {String.fromCharCode(65 + i)}</span>
+                {contenders.length > MIN_CONTENDERS && (
+                  <button
+                    onClick={() => setContenders(prev => prev.filter(x => x.id !== c.id))}
+                    disabled={isRunning}
+                    className="ml-auto text-slate-600 hover:text-red-400 text-xs"
+                    title="Remove"
+                  >
+                    ✕
+                  </button>
+                )}
+              </div>
+              <select
+                value={c.model}
+                onChange={(e) => updateContender(c.id, { model: e.target.value, thinkingBudget: undefined })}
+                disabled={isRunning}
+                className="w-full bg-slate-950 border border-slate-700 rounded-lg px-2 py-1.5 text-[11px] font-bold text-slate-300 outline-none cursor-pointer"
+              >
+                {!MODEL_OPTIONS.some(m => m.id === c.model) && <option value={c.model}>{c.model}</option>}
+                {MODEL_OPTIONS.map(m => <option key={m.id} value={m.id}>{m.label}</option>)}
+              </select>
+              <div className="flex gap-2">
+                <input
+                  type="number"
+                  min={0}
+                  max={2}
+                  step={0.1}
+                  value={c.temperature ?? ''}
+                  onChange={(e) => updateContender(c.id, { temperature: e.target.value === '' ? undefined : Number(e.target.value) })}
+                  placeholder="Temp"
+                  disabled={isRunning}
+                  title="Temperature (empty for the model default)"
+                  className="w-20 bg-slate-950 border border-slate-700 rounded-lg px-2 py-1.5 text-[11px] font-bold text-slate-300 outline-none"
+                />
+                {getModelInfo(c.model)?.capabilities.includes('thinking') && (
+                  <select
+                    value={c.thinkingBudget ?? ''}
+                    onChange={(e) => updateContender(c.id, { thinkingBudget: e.target.value === '' ? undefined : Number(e.target.value) })}
+                    disabled={isRunning}
+                    className="flex-1 min-w-0 bg-slate-950 border border-slate-700 rounded-lg px-2 py-1.5 text-[11px] font-bold text-slate-300 outline-none cursor-pointer"
+                  >
+                    {THINKING_OPTIONS.map(o => <option key={o.label} value={o.value ?? ''}>{o.label}</option>)}
+                  </select>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <textarea
+          value={prompt}
+          onChange={(e) => setPrompt(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) runArena(); }}
+          placeholder="One prompt, sent to every contender at once..."
+          className="w-full bg-slate-900 border border-slate-700 rounded-xl p-4 text-sm focus:ring-2 focus:ring-indigo-500 outline-none resize-y h-28"
+        />
+
+        <div className="flex flex-wrap items-center gap-2">
+          <label className="px-3 py-2 rounded-xl border border-slate-700 text-slate-400 hover:text-white cursor-pointer transition-all" title="Attach files">
+            📎
+            <input
+              type="file"
+              multiple
+              accept="image/*,audio/*,video/*,application/pdf,text/*"
+              onChange={(e) => { setAttachments(prev => [...prev, ...Array.from(e.target.files ?? [])]); e.target.value = ''; }}
+              className="hidden"
+            />
+          </label>
+          {attachments.map((f, i) => (
+            <span key={i} className="flex items-center gap-2 pl-3 pr-2 py-1.5 rounded-lg bg-slate-900 border border-slate-800 text-xs">
+              <span className="font-bold text-slate-300 truncate max-w-[10rem]" title={f.name}>{f.name}</span>
+              <button onClick={() => setAttachments(prev => prev.filter((_, j) => j !== i))} className="text-slate-600 hover:text-red-400" title="Remove">✕</button>
+            </span>
+          ))}
+          <select
+            value={category}
+            onChange={(e) => setCategory(e.target.value)}
+            title="Prompt category for the leaderboard"
+            className="ml-auto bg-slate-900 border border-slate-700 rounded-lg px-2 py-2 text-xs font-bold text-slate-300 outline-none cursor-pointer"
+          >
+            {ARENA_CATEGORIES.map(c => <option key={c} value={c}>{c}</option>)}
+          </select>
+          {isRunning ? (
+            <button
+              onClick={() => abortRef.current?.abort()}
+              className="px-6 py-2 rounded-xl border border-red-500/50 text-red-400 text-sm font-bold hover:bg-red-500/10 transition-all"
+            >
+              Stop
+            </button>
+          ) : (
+            <button
+              onClick={runArena}
+              disabled={!prompt.trim() || duplicates.size > 0}
+              title={duplicates.size > 0 ? 'Two contenders have the same model and settings' : undefined}
+              className="px-6 py-2 rounded-xl bg-slate-100 hover:bg-white text-slate-950 text-sm font-bold disabled:opacity-50 transition-all"
+            >
+              Compare
+            </button>
+          )}
+        </div>
+      </div>
+
+      {run && (
+        <div className="space-y-4">
+          <div className={`grid grid-cols-1 gap-4 ${GRID_COLUMNS[run.contenders.length]}`}>
+            {run.contenders.map((c, i) => {
+              const response = responses[c.id];
+              const stats = response?.stats;
+              const isWinner = vote === c.id;
+              return (
+                <div
+                  key={c.id}
+                  className={`flex flex-col bg-slate-900 rounded-3xl border p-5 min-h-[300px] transition-all ${isWinner ? 'border-[var(--primary)]' : 'border-slate-800'}`}
+                >
+                  <div className="flex items-start gap-2 mb-3">
+                    <span className="text-xs font-bold text-slate-200 mr-auto">
+                      {isWinner && '👑 '}{revealed ? c.label : `Model ${String.fromCharCode(65 + i)}`}
+                    </span>
+                    {isRunning && !stats && !response?.error && <span className="w-2 h-2 mt-1 rounded-full bg-[var(--primary)] animate-pulse" />}
+                  </div>
+                  <div className="grid grid-cols-3 gap-2 mb-4 text-center">
+                    <div className="bg-slate-950 rounded-lg py-1.5">
+                      <div className="text-[9px] font-bold uppercase tracking-widest text-slate-500">TTFT</div>
+                      <div className="text-xs font-mono text-slate-300">{seconds(stats?.ttftMs)}</div>
+                    </div>
+                    <div className="bg-slate-950 rounded-lg py-1.5">
+                      <div className="text-[9px] font-bold uppercase tracking-widest text-slate-500">Latency</div>
+                      <div className="text-xs font-mono text-slate-300">{seconds(stats?.latencyMs)}</div>
+                    </div>
+                    <div
+                      className="bg-slate-950 rounded-lg py-1.5"
+                      title={stats ? `Prompt ${stats.promptTokens ?? '—'} · Output ${stats.outputTokens ?? '—'} · Thinking ${stats.thoughtsTokens ?? 0}` : undefined}
+                    >
+                      <div className="text-[9px] font-bold uppercase tracking-widest text-slate-500">Tokens</div>
+                      <div className="text-xs font-mono text-slate-300">{stats?.totalTokens ?? '—'}</div>
+                    </div>
+                  </div>
+                  <div className="flex-1 text-sm leading-relaxed text-indigo-100/80 overflow-y-auto max-h-[32rem]">
+                    {response?.text ? <MarkdownView content={response.text} /> : !response?.error && isRunning && (
+                      <div className="space-y-3">
+                        <div className="h-3 bg-slate-800 rounded w-3/4 animate-pulse"></div>
+                        <div className="h-3 bg-slate-800 rounded w-full animate-pulse"></div>
+                        <div className="h-3 bg-slate-800 rounded w-5/6 animate-pulse"></div>
+                      </div>
+                    )}
+                    {response?.error && <p className="mt-2 text-xs text-red-400">{response.error}</p>}
+                  </div>
+                  <button
+                    onClick={() => castVote(c.id)}
+                    disabled={!canVote || !!response?.error}
+                    className={`mt-4 py-2 rounded-xl border text-xs font-bold transition-all disabled:opacity-40 ${isWinner ? 'bg-[var(--primary)] border-[var(--primary)] text-white' : 'border-slate-700 text-slate-300 hover:text-white'}`}
+                  >
+                    {isWinner ? 'Winner' : 'This one is best'}
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+          <div className="flex items-center justify-center gap-2">
+            <button
+              onClick={() => castVote('tie')}
+              disabled={!canVote}
+              className={`px-4 py-2 rounded-xl border text-xs font-bold transition-all disabled:opacity-40 ${vote === 'tie' ? 'bg-slate-700 border-slate-600 text-white' : 'border-slate-700 text-slate-400 hover:text-white'}`}
+            >
+              🤝 Tie
+            </button>
+            <button
+              onClick={() => castVote('none')}
+              disabled={!canVote}
+              className={`px-4 py-2 rounded-xl border text-xs font-bold transition-all disabled:opacity-40 ${vote === 'none' ? 'bg-slate-700 border-slate-600 text-white' : 'border-slate-700 text-slate-400 hover:text-white'}`}
+            >
+              👎 All bad
+            </button>
+            {vote !== null && <span className="text-[11px] font-bold text-emerald-400">✓ Saved to the {run.category} leaderboard</span>}
+          </div>
+        </div>
+      )}
+
+      <ArenaLeaderboard battles={battles} onClear={handleClear} />
+    </div>
+  );
+};
+
+export default ArenaLab;
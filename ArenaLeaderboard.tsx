@@ -0,0 +1,78 @@
+import React, { useMemo, useState } from 'react';
+import { ArenaBattle, ARENA_CATEGORIES, buildLeaderboard } from '../services/arena';
+
+interface ArenaLeaderboardProps {
+  battles: ArenaBattle[];
+  onClear: () => void;
+}
+
+const seconds = (ms?: number) => ms === undefined ? '—' : `${(ms / 1000).toFixed(2)}s`;
+
+// Local standings from saved Arena votes, overall or for one prompt category
+const ArenaLeaderboard: React.FC<ArenaLeaderboardProps> = ({ battles, onClear }) => {
+  const [category, setCategory] = useState<string | null>(null);
+  const categories = ARENA_CATEGORIES.filter(c => battles.some(b => b.category === c));
+  const rows = useMemo(() => buildLeaderboard(battles, category ?? undefined), [battles, category]);
+
+  return (
+    <div className="bg-slate-800/50 rounded-3xl p-6 border border-slate-700 space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <h3 className="text-sm font-semibold text-slate-400 uppercase tracking-wider mr-auto">Leaderboard</h3>
+        {[null, ...categories].map(c => (
+          <button
+            key={c ?? 'all'}
+            onClick={() => setCategory(c)}
+            className={`px-2.5 py-1 rounded-md text-[10px] font-bold uppercase tracking-widest transition-all ${category === c ? 'bg-slate-700 text-white' : 'text-slate-500 hover:text-slate-300'}`}
+          >
+            {c ?? 'All'}
+          </button>
+        ))}
+        {battles.length > 0 && (
+          <button
+            onClick={() => { if (window.confirm('Delete all saved votes?')) onClear(); }}
+            className="px-2 py-1 rounded-lg border border-slate-700 text-[10px] font-bold text-slate-400 hover:text-red-400 transition-all"
+          >
+            Clear
+          </button>
+        )}
+      </div>
+
+      {rows.length === 0 ? (
+        <p className="text-sm text-slate-500">Vote on a few comparisons to build the leaderboard.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-left text-[10px] uppercase tracking-widest text-slate-500">
+                <th className="py-2 pr-3">#</th>
+                <th className="py-2 pr-3">Model / Config</th>
+                <th className="py-2 pr-3 text-right">Rating</th>
+                <th className="py-2 pr-3 text-right">Win %</th>
+                <th className="py-2 pr-3 text-right">W / T / L</th>
+                <th className="py-2 pr-3 text-right">Latency</th>
+                <th className="py-2 pr-3 text-right">TTFT</th>
+                <th className="py-2 text-right">Out Tokens</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((r, i) => (
+                <tr key={r.label} className="border-t border-slate-800 text-slate-300">
+                  <td className="py-2 pr-3 text-slate-500">{i + 1}</td>
+                  <td className="py-2 pr-3 font-bold">{r.label}</td>
+                  <td className="py-2 pr-3 text-right font-mono">{r.rating}</td>
+                  <td className="py-2 pr-3 text-right font-mono">{Math.round(r.winRate * 100)}%</td>
+                  <td className="py-2 pr-3 text-right font-mono text-slate-500">{r.wins} / {r.ties} / {r.losses}</td>
+                  <td className="py-2 pr-3 text-right font-mono">{seconds(r.avgLatencyMs)}</td>
+                  <td className="py-2 pr-3 text-right font-mono">{seconds(r.avgTtftMs)}</td>
+                  <td className="py-2 text-right font-mono">{r.avgOutputTokens === undefined ? '—' : Math.round(r.avgOutputTokens)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ArenaLeaderboard;
@@ -0,0 +1,327 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { analyzeMedia, AnalysisOptions } from '../services/analysis';
+import { BatchJob, BatchItem, BatchItemStatus, getLatestJob, saveJob, listItems, saveItems, deleteItem, deleteJob, batchToTable, batchToJSONL } from '../services/batchJobs';
+import { TaskQueue } from '../services/concurrency';
+import { tableToCSV } from '../services/structuredOutput';
+import { classifyError } from '../services/errors';
+import { downloadText, fileTimestamp } from '../services/download';
+import { DOCUMENT_ACCEPT, documentKind } from '../services/documents';
+
+interface BatchAnalysisPanelProps {
+  // Current AnalysisLab settings; snapshotted into the job when the batch starts
+  options: AnalysisOptions;
+  canStart: boolean;
+  className?: string;
+}
+
+const STATUS_STYLES: Record<BatchItemStatus, string> = {
+  pending: 'text-slate-500',
+  running: 'text-[var(--primary)] animate-pulse',
+  done: 'text-emerald-400',
+  error: 'text-red-400',
+  cancelled: 'text-amber-400',
+};
+
+const numberInput = 'w-16 bg-slate-900 border border-slate-700 rounded-lg px-2 py-1 text-xs font-bold text-slate-300 outline-none focus:ring-1 focus:ring-[var(--primary)]';
+const smallButton = 'px-2 py-1 rounded-lg border border-slate-700 text-[10px] font-bold text-slate-400 hover:text-white disabled:opacity-40 transition-all';
+
+const isSupported = (file: File) => file.type.startsWith('image/') || file.type.startsWith('video/') || !!documentKind(file);
+
+const BatchAnalysisPanel: React.FC<BatchAnalysisPanelProps> = ({ options, canStart, className = '' }) => {
+  const [job, setJob] = useState<BatchJob | null>(null);
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const [concurrency, setConcurrency] = useState(3);
+  const [perMinute, setPerMinute] = useState(30);
+  const [sort, setSort] = useState<{ column: number; dir: 1 | -1 } | null>(null);
+  const itemsRef = useRef<BatchItem[]>([]);
+  const jobRef = useRef<BatchJob | null>(null);
+  const queueRef = useRef<TaskQueue | null>(null);
+  const unmountedRef = useRef(false);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+
+  if (!queueRef.current) queueRef.current = new TaskQueue({ concurrency, perMinute });
+  const queue = queueRef.current;
+
+  const commitItems = (next: BatchItem[]) => {
+    itemsRef.current = next;
+    setItems(next);
+  };
+
+  const commitJob = (next: BatchJob | null) => {
+    jobRef.current = next;
+    setJob(next);
+    if (next) saveJob(next).catch(err => console.error("Failed to save batch", err));
+  };
+
+  const patchItem = (id: string, changes: Partial<BatchItem>) => {
+    const next = itemsRef.current.map(i => i.id === id ? { ...i, ...changes } : i);
+    if (!unmountedRef.current) commitItems(next);
+    else itemsRef.current = next;
+    const item = next.find(i => i.id === id);
+    if (item) saveItems([item]).catch(err => console.error("Failed to save batch item", err));
+  };
+
+  // Items that were running when the page went away are queued again on resume
+  useEffect(() => {
+    unmountedRef.current = false;
+    getLatestJob()
+      .then(async latest => {
+        if (!latest) return;
+        const stored = await listItems(latest.id);
+        const interrupted = stored.filter(i => i.status === 'running').map(i => ({ ...i, status: 'pending' as const }));
+        if (interrupted.length > 0) await saveItems(interrupted);
+        commitItems(stored.map(i => interrupted.find(r => r.id === i.id) ?? i));
+        jobRef.current = latest;
+        setJob(latest);
+        setConcurrency(latest.concurrency);
+        setPerMinute(latest.perMinute);
+        queue.setOptions({ concurrency: latest.concurrency, perMinute: latest.perMinute });
+      })
+      .catch(err => console.error("Failed to load batch", err));
+    return () => {
+      unmountedRef.current = true;
+      queue.cancelAll();
+    };
+  }, []);
+
+  useEffect(() => {
+    folderInputRef.current?.setAttribute('webkitdirectory', '');
+  }, []);
+
+  const runItem = (id: string, runOptions: AnalysisOptions) => async (signal: AbortSignal) => {
+    const item = itemsRef.current.find(i => i.id === id);
+    if (!item) return;
+    patchItem(id, { status: 'running', attempts: item.attempts + 1, error: undefined });
+    const startedAt = performance.now();
+    try {
+      const result = await analyzeMedia(item.file, runOptions, signal);
+      patchItem(id, { status: 'done', result, durationMs: Math.round(performance.now() - startedAt) });
+    } catch (err) {
+      if (signal.aborted) {
+        // Leaving the lab aborts in-flight requests; they resume on the next visit
+        patchItem(id, { status: unmountedRef.current ? 'pending' : 'cancelled' });
+      } else {
+        patchItem(id, { status: 'error', error: classifyError(err).message, durationMs: Math.round(performance.now() - startedAt) });
+      }
+    }
+  };
+
+  const enqueue = (ids: string[]) => {
+    const runOptions = jobRef.current?.options;
+    if (!runOptions) return;
+    ids.forEach(id => queue.add(id, runItem(id, runOptions)));
+  };
+
+  const addFiles = async (fileList: FileList | null) => {
+    const files = Array.from(fileList ?? []).filter(isSupported);
+    if (files.length === 0) return;
+    const current = jobRef.current ?? { id: crypto.randomUUID(), createdAt: Date.now(), concurrency, perMinute };
+    if (!jobRef.current) commitJob(current);
+    const added: BatchItem[] = files.map(file => ({
+      id: crypto.randomUUID(),
+      jobId: current.id,
+      path: file.webkitRelativePath || file.name,
+      file,
+      status: 'pending',
+      attempts: 0,
+    }));
+    commitItems([...itemsRef.current, ...added]);
+    try {
+      await saveItems(added);
+    } catch (err) {
+      console.error("Failed to store batch files", err);
+    }
+    if (queue.size > 0) enqueue(added.map(i => i.id));
+  };
+
+  const handleStart = () => {
+    const current = jobRef.current;
+    if (!current) return;
+    // A batch that already produced results keeps its original settings
+    const started = itemsRef.current.some(i => i.status === 'done');
+    if (!current.options || !started) commitJob({ ...current, options });
+    enqueue(itemsRef.current.filter(i => i.status === 'pending').map(i => i.id));
+  };
+
+  const handleRetry = (ids: string[]) => {
+    ids.forEach(id => patchItem(id, { status: 'pending', error: undefined }));
+    enqueue(ids);
+  };
+
+  const handleCancel = (id: string) => {
+    const item = itemsRef.current.find(i => i.id === id);
+    if (queue.cancel(id) && item?.status === 'pending') patchItem(id, { status: 'cancelled' });
+  };
+
+  const handleCancelAll = () => {
+    itemsRef.current.filter(i => i.status === 'pending' || i.status === 'running').forEach(i => handleCancel(i.id));
+  };
+
+  const handleRemove = (id: string) => {
+    queue.cancel(id);
+    commitItems(itemsRef.current.filter(i => i.id !== id));
+    deleteItem(id).catch(err => console.error("Failed to delete batch item", err));
+  };
+
+  const handleClear = async () => {
+    const current = jobRef.current;
+    if (!current || !confirm('Remove this batch and all of its results?')) return;
+    queue.cancelAll();
+    commitItems([]);
+    commitJob(null);
+    try {
+      await deleteJob(current.id);
+    } catch (err) {
+      console.error("Failed to delete batch", err);
+    }
+  };
+
+  const updateLimits = (changes: { concurrency?: number; perMinute?: number }) => {
+    if (changes.concurrency !== undefined) setConcurrency(changes.concurrency);
+    if (changes.perMinute !== undefined) setPerMinute(changes.perMinute);
+    queue.setOptions(changes);
+    if (jobRef.current) commitJob({ ...jobRef.current, ...changes });
+  };
+
+  const counts = items.reduce<Record<BatchItemStatus, number>>(
+    (acc, i) => ({ ...acc, [i.status]: acc[i.status] + 1 }),
+    { pending: 0, running: 0, done: 0, error: 0, cancelled: 0 },
+  );
+  const isActive = items.some(i => i.status === 'running' || (i.status === 'pending' && queue.has(i.id)));
+  const finished = counts.done + counts.error + counts.cancelled;
+  const failedIds = items.filter(i => i.status === 'error' || i.status === 'cancelled').map(i => i.id);
+  const canResume = !!job?.options && counts.done > 0;
+
+  const table = batchToTable(items.filter(i => i.status === 'done' || i.status === 'error'));
+  const sortedRows = sort
+    ? [...table.rows].sort((a, b) => sort.dir * a[sort.column].localeCompare(b[sort.column], undefined, { numeric: true }))
+    : table.rows;
+  const exportName = `batch-${fileTimestamp(new Date(job?.createdAt ?? Date.now()))}`;
+
+  const toggleSort = (column: number) => {
+    setSort(prev => prev?.column === column ? (prev.dir === 1 ? { column, dir: -1 } : null) : { column, dir: 1 });
+  };
+
+  return (
+    <div className={`space-y-6 ${className}`}>
+      <div className="flex flex-wrap items-center gap-3">
+        <h3 className="text-sm font-semibold text-slate-400 uppercase tracking-wider mr-auto">Batch Queue</h3>
+        <label className="px-3 py-1.5 rounded-lg border border-slate-700 text-xs font-bold text-slate-300 hover:text-white cursor-pointer transition-all">
+          + Files
+          <input type="file" accept={`image/*,video/*,${DOCUMENT_ACCEPT}`} multiple onChange={(e) => { addFiles(e.target.files); e.target.value = ''; }} className="hidden" />
+        </label>
+        <label className="px-3 py-1.5 rounded-lg border border-slate-700 text-xs font-bold text-slate-300 hover:text-white cursor-pointer transition-all">
+          + Folder
+          <input ref={folderInputRef} type="file" multiple onChange={(e) => { addFiles(e.target.files); e.target.value = ''; }} className="hidden" />
+        </label>
+        <label className="flex items-center gap-1.5 text-[10px] font-bold uppercase tracking-widest text-slate-500" title="Requests in flight at once">
+          Parallel
+          <input type="number" min={1} max={10} value={concurrency} onChange={(e) => updateLimits({ concurrency: Math.max(1, Number(e.target.value) || 1) })} className={numberInput} />
+        </label>
+        <label className="flex items-center gap-1.5 text-[10px] font-bold uppercase tracking-widest text-slate-500" title="Maximum requests started per minute, 0 for no limit">
+          Per min
+          <input type="number" min={0} value={perMinute} onChange={(e) => updateLimits({ perMinute: Math.max(0, Number(e.target.value) || 0) })} className={numberInput} />
+        </label>
+      </div>
+
+      {items.length === 0 ? (
+        <p className="text-sm text-slate-500">Add images, videos or documents, or a whole folder. Every file is analysed with the settings on the left.</p>
+      ) : (
+        <>
+          <div className="space-y-2">
+            <div className="flex flex-wrap items-center gap-2 text-xs">
+              <span className="font-bold text-slate-300 mr-auto">
+                {finished}/{items.length} finished · {counts.done} done · {counts.error} failed{counts.cancelled > 0 && ` · ${counts.cancelled} cancelled`}
+              </span>
+              {isActive ? (
+                <button onClick={handleCancelAll} className={smallButton}>Cancel All</button>
+              ) : (
+                <button
+                  onClick={handleStart}
+                  disabled={counts.pending === 0 || (!canResume && !canStart)}
+                  className="px-4 py-1.5 rounded-lg text-xs font-bold text-white hover:brightness-110 disabled:opacity-50 transition-all"
+                  style={{ backgroundColor: 'var(--primary)' }}
+                >
+                  {canResume ? `Resume (${counts.pending})` : `Start (${counts.pending})`}
+                </button>
+              )}
+              <button onClick={() => handleRetry(failedIds)} disabled={failedIds.length === 0 || !job?.options} className={smallButton}>Retry Failed</button>
+              <button onClick={handleClear} disabled={isActive} className={smallButton}>Clear</button>
+            </div>
+            <div className="h-1.5 bg-slate-900 rounded-full overflow-hidden">
+              <div className="h-full bg-[var(--primary)] transition-all" style={{ width: `${(finished / items.length) * 100}%` }} />
+            </div>
+            {job?.options && (isActive || canResume) && (
+              <p className="text-[10px] text-slate-500">
+                Running with {job.options.model} · {job.options.outputMode === 'json' ? `JSON (${job.options.presetId})` : 'text'}{job.options.customPrompt.trim() && ` · "${job.options.customPrompt.trim().slice(0, 60)}"`}
+              </p>
+            )}
+          </div>
+
+          <div className="max-h-64 overflow-y-auto pr-1 space-y-1">
+            {items.map(item => (
+              <div key={item.id} className="flex items-center gap-3 px-3 py-1.5 rounded-lg bg-slate-900/50 text-xs">
+                <span className={`w-20 shrink-0 font-bold uppercase text-[10px] tracking-widest ${STATUS_STYLES[item.status]}`}>{item.status}</span>
+                <span className="flex-1 truncate text-slate-300" title={item.path}>{item.path}</span>
+                {item.error && <span className="truncate max-w-[40%] text-red-400/80" title={item.error}>{item.error}</span>}
+                {item.durationMs !== undefined && <span className="text-slate-500 font-mono">{(item.durationMs / 1000).toFixed(1)}s</span>}
+                {item.attempts > 1 && <span className="text-slate-500" title="Attempts">×{item.attempts}</span>}
+                {(item.status === 'error' || item.status === 'cancelled') && (
+                  <button onClick={() => handleRetry([item.id])} disabled={!job?.options} className="text-slate-400 hover:text-white disabled:opacity-40" title="Retry">↻</button>
+                )}
+                {(item.status === 'pending' || item.status === 'running') && queue.has(item.id) ? (
+                  <button onClick={() => handleCancel(item.id)} className="text-slate-400 hover:text-amber-400" title="Cancel">⏹</button>
+                ) : (
+                  <button onClick={() => handleRemove(item.id)} disabled={item.status === 'running'} className="text-slate-500 hover:text-red-400" title="Remove">✕</button>
+                )}
+              </div>
+            ))}
+          </div>
+
+          {table.rows.length > 0 && (
+            <div className="space-y-2">
+              <div className="flex items-center gap-1">
+                <p className="text-[10px] font-black uppercase tracking-widest text-slate-500 mr-auto">Results</p>
+                <button onClick={() => downloadText(tableToCSV(table), `${exportName}.csv`, 'text/csv')} className={smallButton}>⬇ CSV</button>
+                <button
+                  onClick={() => downloadText(batchToJSONL(items.filter(i => i.status === 'done' || i.status === 'error')), `${exportName}.jsonl`, 'application/x-ndjson')}
+                  className={smallButton}
+                >
+                  ⬇ JSONL
+                </button>
+              </div>
+              <div className="max-h-[32rem] overflow-auto">
+                <table className="w-full text-xs">
+                  <thead className="sticky top-0 bg-slate-900 text-[10px] font-black uppercase tracking-widest text-slate-500 text-left">
+                    <tr>
+                      {table.columns.map((c, i) => (
+                        <th key={i} className="py-2 pr-4 whitespace-nowrap">
+                          <button onClick={() => toggleSort(i)} className="uppercase tracking-widest hover:text-slate-300">
+                            {c}{sort?.column === i && (sort.dir === 1 ? ' ▲' : ' ▼')}
+                          </button>
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {sortedRows.map((row, i) => (
+                      <tr key={i} className="border-t border-slate-800 align-top">
+                        {row.map((cell, j) => (
+                          <td key={j} className="py-1.5 pr-4 text-slate-300 max-w-xs">
+                            <div className="line-clamp-3" title={cell}>{cell}</div>
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default BatchAnalysisPanel;
@@ -0,0 +1,44 @@
+import React, { useState, useEffect } from 'react';
+import { listUsage, subscribeUsage, budgetStatus, startOfMonth, BUDGET_WARNING_RATIO, PriceTable, UsageBudget, UsageEvent } from '../services/usage';
+
+interface BudgetIndicatorProps {
+  prices: PriceTable;
+  budget: UsageBudget;
+  onOpen: () => void;
+}
+
+// Header badge that appears once spending nears a budget and links to the usage dashboard
+const BudgetIndicator: React.FC<BudgetIndicatorProps> = ({ prices, budget, onOpen }) => {
+  const [events, setEvents] = useState<UsageEvent[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    // Subscribe first so nothing recorded while the month is loading is missed
+    const unsubscribe = subscribeUsage(event => setEvents(prev => [...prev, event]));
+    listUsage(startOfMonth())
+      .then(loaded => {
+        if (cancelled) return;
+        const latest = loaded.reduce((max, e) => Math.max(max, e.timestamp), 0);
+        setEvents(prev => [...loaded, ...prev.filter(e => e.timestamp > latest)]);
+      })
+      .catch(err => console.error("Failed to load usage:", err));
+    return () => { cancelled = true; unsubscribe(); };
+  }, []);
+
+  const worst = budgetStatus(events, prices, budget).sort((a, b) => b.ratio - a.ratio)[0];
+  if (!worst || worst.ratio < BUDGET_WARNING_RATIO) return null;
+  const over = worst.ratio >= 1;
+
+  return (
+    <button
+      onClick={onOpen}
+      title={`$${worst.spent.toFixed(2)} of the $${worst.limit.toFixed(2)} ${worst.period} budget`}
+      className={`flex items-center gap-2 px-3 py-1 rounded-full text-[10px] font-bold uppercase tracking-wider border transition-colors ${over ? 'bg-red-500/10 border-red-500/50 text-red-600 dark:text-red-400' : 'bg-amber-500/10 border-amber-500/50 text-amber-600 dark:text-amber-400'}`}
+    >
+      <div className={`w-1.5 h-1.5 rounded-full ${over ? 'bg-red-500 animate-pulse' : 'bg-amber-500'}`} />
+      {over ? `${worst.period} budget exceeded` : `${Math.round(worst.ratio * 100)}% of ${worst.period} budget`}
+    </button>
+  );
+};
+
+export default BudgetIndicator;
@@ -1,22 +1,92 @@
 
 import React, { useState, useRef, useEffect } from 'react';
-import { getAI, improvePrompt } from '../../services/gemini';
-import { GenerateContentResponse } from '@google/genai';
+import { getAI, improvePrompt, fileToBase64, resolveModel, withModelFallback, ModelPreferences, ModelSlot } from '../../services/gemini';
+import { callGemini, classifyError, assertNotBlocked, GeminiError } from '../../services/errors';
+import { listThreads, saveThread, deleteThread, titleFromMessage, toChatHistory, toMessageParts } from '../../services/conversations';
+import { runToolCall, toFunctionResponse, toolDeclarations } from '../../services/tools';
+import { ChatAttachment, ChatMessage, ConversationThread } from '../../types';
+import ThreadList from '../ThreadList';
+import MarkdownView from '../MarkdownView';
+import ModelPicker from '../ModelPicker';
+import ErrorBanner from '../ErrorBanner';
+import ToolCallView from '../ToolCallView';
+import { FunctionCall, FunctionCallingConfigMode, GenerateContentResponse, Part } from '@google/genai';
+import { MAX_INLINE_BYTES } from '../../services/fileUpload';
+
+const ACCEPTED_PREFIXES = ['image/', 'audio/', 'video/', 'text/', 'application/pdf'];
+const TEXT_EXTENSIONS = ['txt', 'md', 'csv', 'json', 'log'];
+// The file picker's filter, built from the same lists so it offers everything attachmentMimeType takes
+const ACCEPT = [...ACCEPTED_PREFIXES.map(p => p.endsWith('/') ? `${p}*` : p), ...TEXT_EXTENSIONS.map(ext => `.${ext}`)].join(',');
+// Stops a model that keeps calling tools without ever answering: after this many rounds the
+// results are sent with function calling turned off, so the model has to reply
+const MAX_TOOL_ROUNDS = 8;
+
+const attachmentMimeType = (file: File): string | null => {
+  if (ACCEPTED_PREFIXES.some(prefix => file.type.startsWith(prefix))) return file.type;
+  const ext = file.name.split('.').pop()?.toLowerCase() ?? '';
+  return TEXT_EXTENSIONS.includes(ext) ? 'text/plain' : null;
+};
+
+const hasReply = (message: ChatMessage) => Boolean(message.content || message.toolCalls?.length);
+
+const AttachmentThumb: React.FC<{ attachment: ChatAttachment; onRemove?: () => void }> = ({ attachment, onRemove }) => {
+  const src = `data:${attachment.mimeType};base64,${attachment.data}`;
+  const icon = attachment.mimeType === 'application/pdf' ? '📄' : attachment.mimeType.startsWith('audio') ? '🎵' : '📝';
+
+  return (
+    <div className="relative group/thumb">
+      {attachment.mimeType.startsWith('image') ? (
+        <img src={src} className="w-20 h-20 rounded-lg object-cover border border-white/20" alt={attachment.name} />
+      ) : attachment.mimeType.startsWith('video') ? (
+        <video src={src} className="w-20 h-20 rounded-lg object-cover border border-white/20" muted />
+      ) : (
+        <div className="w-20 h-20 rounded-lg bg-slate-900/60 border border-white/20 flex flex-col items-center justify-center p-1" title={attachment.name}>
+          <span className="text-2xl">{icon}</span>
+          <span className="text-[8px] font-bold truncate w-full text-center mt-1">{attachment.name}</span>
+        </div>
+      )}
+      {onRemove && (
+        <button
+          type="button"
+          onClick={onRemove}
+          className="absolute -top-1.5 -right-1.5 w-5 h-5 rounded-full bg-slate-950 border border-slate-700 text-[10px] text-slate-300 hover:text-red-400 flex items-center justify-center"
+          title="Remove attachment"
+        >
+          ✕
+        </button>
+      )}
+    </div>
+  );
+};
 
 interface ChatLabProps {
   userName: string;
   useFlash: boolean;
   // Added onSelectKey to fix type error in App.tsx line 78
   onSelectKey: () => void;
+  models: ModelPreferences;
+  onModelChange: (slot: ModelSlot, model: string) => void;
 }
 
-const ChatLab: React.FC<ChatLabProps> = ({ userName, useFlash, onSelectKey }) => {
-  const [messages, setMessages] = useState<{ role: 'user' | 'ai', content: string }[]>([]);
+const ChatLab: React.FC<ChatLabProps> = ({ userName, useFlash, onSelectKey, models, onModelChange }) => {
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [input, setInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [isImproving, setIsImproving] = useState(false);
+  const [threads, setThreads] = useState<ConversationThread[]>([]);
+  const [activeThread, setActiveThread] = useState<ConversationThread | null>(null);
+  const [isThreadsOpen, setIsThreadsOpen] = useState(false);
+  const [pendingAttachments, setPendingAttachments] = useState<ChatAttachment[]>([]);
+  // Files left out of the last add, with the reason
+  const [skippedAttachments, setSkippedAttachments] = useState<string[]>([]);
+  const [isDragging, setIsDragging] = useState(false);
+  const [error, setError] = useState<GeminiError | null>(null);
+  const [toolsEnabled, setToolsEnabled] = useState(true);
   const chatRef = useRef<any>(null);
   const scrollRef = useRef<HTMLDivElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const modelSlot: ModelSlot = useFlash ? 'chatFast' : 'chat';
+  const currentModel = activeThread?.model ?? resolveModel(modelSlot, models);
 
   useEffect(() => {
     if (scrollRef.current) {
@@ -26,16 +96,138 @@ const ChatLab: React.FC<ChatLabProps> = ({ userName, useFlash, onSelectKey }) =>
 
   useEffect(() => {
     chatRef.current = null;
-  }, [userName, useFlash]);
+  }, [userName, useFlash, toolsEnabled]);
 
-  const initChat = () => {
+  useEffect(() => {
+    listThreads()
+      .then(setThreads)
+      .catch(err => console.error("Failed to load conversations from IndexedDB", err));
+  }, []);
+
+  const createThread = (firstMessage: string): ConversationThread => {
+    const now = Date.now();
+    return {
+      id: crypto.randomUUID(),
+      title: titleFromMessage(firstMessage),
+      model: resolveModel(modelSlot, models),
+      systemInstruction: `You are an advanced AI assistant. The user's name is ${userName}. Address them occasionally by name. You are currently operating in ${useFlash ? 'Flash' : 'Pro'} mode.`,
+      messages: [],
+      createdAt: now,
+      updatedAt: now,
+    };
+  };
+
+  // Resumed threads keep the model and instruction they were started with
+  const initChat = (thread: ConversationThread, history: ChatMessage[]) => {
     const ai = getAI();
     chatRef.current = ai.chats.create({
-      model: useFlash ? 'gemini-3-flash-preview' : 'gemini-3-pro-preview',
+      model: thread.model,
       config: {
-        systemInstruction: `You are an advanced AI assistant. The user's name is ${userName}. Address them occasionally by name. You are currently operating in ${useFlash ? 'Flash' : 'Pro'} mode.`,
+        systemInstruction: thread.systemInstruction,
+        tools: toolsEnabled ? toolDeclarations() : undefined,
+      },
+      history: toChatHistory(history),
+    });
+  };
+
+  const persistThread = async (thread: ConversationThread) => {
+    setActiveThread(thread);
+    setThreads(prev => [thread, ...prev.filter(t => t.id !== thread.id)]);
+    try {
+      await saveThread(thread);
+    } catch (err) {
+      console.error("Failed to save conversation to IndexedDB", err);
+    }
+  };
+
+  // Switching models mid-thread rebuilds the chat from history on the next send
+  const handleModelChange = (model: string) => {
+    onModelChange(modelSlot, model);
+    if (activeThread) {
+      chatRef.current = null;
+      persistThread({ ...activeThread, model });
+    }
+  };
+
+  const handleSelectThread = (thread: ConversationThread) => {
+    if (isLoading) return;
+    chatRef.current = null;
+    setActiveThread(thread);
+    setMessages(thread.messages);
+    setIsThreadsOpen(false);
+  };
+
+  const handleNewThread = () => {
+    if (isLoading) return;
+    chatRef.current = null;
+    setActiveThread(null);
+    setMessages([]);
+    setIsThreadsOpen(false);
+  };
+
+  const handleRenameThread = async (thread: ConversationThread, title: string) => {
+    const renamed = { ...thread, title };
+    setThreads(prev => prev.map(t => t.id === thread.id ? renamed : t));
+    if (activeThread?.id === thread.id) setActiveThread(renamed);
+    try {
+      await saveThread(renamed);
+    } catch (err) {
+      console.error("Failed to rename conversation", err);
+    }
+  };
+
+  const handleDeleteThread = async (thread: ConversationThread) => {
+    setThreads(prev => prev.filter(t => t.id !== thread.id));
+    if (activeThread?.id === thread.id) handleNewThread();
+    try {
+      await deleteThread(thread.id);
+    } catch (err) {
+      console.error("Failed to delete conversation", err);
+    }
+  };
+
+  // Attachments are sent inline with every turn, so together they must fit the same budget
+  // as a single inline file
+  const addAttachments = async (files: File[]) => {
+    let remaining = MAX_INLINE_BYTES - pendingAttachments.reduce((total, a) => total + a.data.length * 3 / 4, 0);
+    const skipped: string[] = [];
+    const accepted = files.filter(f => {
+      if (attachmentMimeType(f) === null) skipped.push(`${f.name} (unsupported type)`);
+      else if (f.size > remaining) skipped.push(`${f.name} (over the ${MAX_INLINE_BYTES / 1024 / 1024} MB attachment limit)`);
+      else {
+        remaining -= f.size;
+        return true;
       }
+      return false;
     });
+    setSkippedAttachments(skipped);
+    try {
+      const attachments = await Promise.all(accepted.map(async f => ({
+        name: f.name,
+        mimeType: attachmentMimeType(f)!,
+        data: await fileToBase64(f),
+      })));
+      setPendingAttachments(prev => [...prev, ...attachments]);
+    } catch (err) {
+      console.error("Failed to read attachment:", err);
+    }
+  };
+
+  const handlePaste = (e: React.ClipboardEvent) => {
+    const files = Array.from(e.clipboardData.files);
+    if (files.length === 0) return;
+    e.preventDefault();
+    addAttachments(files);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    addAttachments(Array.from(e.dataTransfer.files));
+  };
+
+  const handleDragLeave = (e: React.DragEvent) => {
+    if (!e.currentTarget.contains(e.relatedTarget as Node)) setIsDragging(false);
   };
 
   const handleImprove = async () => {
@@ -46,49 +238,143 @@ const ChatLab: React.FC<ChatLabProps> = ({ userName, useFlash, onSelectKey }) =>
     setIsImproving(false);
   };
 
-  const handleSend = async (e?: React.FormEvent) => {
-    e?.preventDefault();
-    if (!input.trim() || isLoading) return;
-
-    if (!chatRef.current) initChat();
+  const sendTurn = async (userTurn: ChatMessage, prior: ChatMessage[]) => {
+    let thread = activeThread ?? createThread(userTurn.content || userTurn.attachments![0].name);
+    if (!chatRef.current) initChat(thread, prior);
 
-    const userMessage = input;
-    setInput('');
-    setMessages(prev => [...prev, { role: 'user', content: userMessage }]);
+    const history: ChatMessage[] = [...prior, userTurn];
+    let reply: ChatMessage = { role: 'ai', content: '' };
+    setError(null);
+    setMessages(history);
     setIsLoading(true);
 
     try {
-      const responseStream = await chatRef.current.sendMessageStream({ message: userMessage });
+      // Each round sends either the user turn or the results of the tool calls from the previous round
+      let message: Part[] = toMessageParts(userTurn);
       let fullResponse = '';
-      
-      setMessages(prev => [...prev, { role: 'ai', content: '' }]);
-
-      for await (const chunk of responseStream) {
-        const c = chunk as GenerateContentResponse;
-        fullResponse += c.text;
-        setMessages(prev => {
-          const updated = [...prev];
-          updated[updated.length - 1].content = fullResponse;
-          return updated;
-        });
+
+      setMessages([...history, reply]);
+
+      for (let round = 0; ; round++) {
+        const lastRound = round === MAX_TOOL_ROUNDS;
+        if (lastRound) reply = { ...reply, toolLimitReached: true };
+        // Per-message config replaces the chat's, so it repeats the system instruction and tools
+        const config = lastRound ? {
+          systemInstruction: thread.systemInstruction,
+          tools: toolsEnabled ? toolDeclarations() : undefined,
+          toolConfig: { functionCallingConfig: { mode: FunctionCallingConfigMode.NONE } },
+        } : undefined;
+        const responseStream = await callGemini<AsyncGenerator<GenerateContentResponse>>(() => round > 0
+          // A fallback chat is rebuilt from saved history, which has no tool turns, so only the
+          // first round may switch models
+          ? chatRef.current.sendMessageStream({ message, config })
+          : withModelFallback(thread.model, model => {
+            if (model !== thread.model) {
+              thread = { ...thread, model };
+              initChat(thread, prior);
+            }
+            return chatRef.current.sendMessageStream({ message });
+          }), { model: thread.model });
+
+        const calls: FunctionCall[] = [];
+        for await (const chunk of responseStream) {
+          const c = chunk as GenerateContentResponse;
+          assertNotBlocked(c);
+          // Reading .text on a function call chunk only logs a warning
+          if (c.functionCalls?.length) calls.push(...c.functionCalls);
+          else fullResponse += c.text ?? '';
+          reply = { ...reply, content: fullResponse };
+          setMessages([...history, reply]);
+        }
+        if (calls.length === 0) break;
+        if (lastRound) {
+          // Calls made anyway are left unanswered, so the next turn starts from saved history
+          chatRef.current = null;
+          break;
+        }
+
+        const done = reply.toolCalls ?? [];
+        reply = { ...reply, toolCalls: [...done, ...calls.map(call => ({ id: call.id, name: call.name ?? '', args: call.args ?? {} }))] };
+        setMessages([...history, reply]);
+        const results = await Promise.all(calls.map(runToolCall));
+        reply = { ...reply, toolCalls: [...done, ...results] };
+        setMessages([...history, reply]);
+        message = results.map(r => ({ functionResponse: toFunctionResponse(r) }));
       }
-    } catch (err: any) {
+    } catch (err) {
       console.error(err);
-      // Handle 403 errors and trigger key selection
-      if (err?.message?.includes('403') || err?.message?.toLowerCase().includes('permission')) {
-          setMessages(prev => [...prev, { role: 'ai', content: "It looks like your current API key doesn't have permission for this model. Please select a premium API key." }]);
-          onSelectKey();
-      } else {
-          setMessages(prev => [...prev, { role: 'ai', content: "Sorry, I encountered an error. Please try again." }]);
-      }
+      setError(classifyError(err));
+      // The chat object may hold a half-finished turn, so rebuild it from saved history next time
+      chatRef.current = null;
+      setMessages(hasReply(reply) ? [...history, reply] : history);
     } finally {
       setIsLoading(false);
+      await persistThread({ ...thread, messages: hasReply(reply) ? [...history, reply] : history, updatedAt: Date.now() });
     }
   };
 
+  const handleSend = async (e?: React.FormEvent) => {
+    e?.preventDefault();
+    if ((!input.trim() && pendingAttachments.length === 0) || isLoading) return;
+
+    const userTurn: ChatMessage = {
+      role: 'user',
+      content: input,
+      attachments: pendingAttachments.length > 0 ? pendingAttachments : undefined,
+    };
+    setInput('');
+    setPendingAttachments([]);
+    setSkippedAttachments([]);
+    await sendTurn(userTurn, messages);
+  };
+
+  // Re-sends the last user turn when it never got a reply
+  const handleRetry = () => {
+    const last = messages[messages.length - 1];
+    if (!last || last.role !== 'user' || isLoading) return;
+    sendTurn(last, messages.slice(0, -1));
+  };
+
   return (
-    <div className="flex flex-col h-full max-w-5xl mx-auto p-4 md:p-8 animate-fadeIn">
-      <div className="flex-1 bg-slate-800/30 rounded-3xl border border-slate-800 overflow-hidden flex flex-col">
+    <div className="flex h-full max-w-6xl mx-auto p-4 md:p-8 gap-4 animate-fadeIn">
+      <div className={`${isThreadsOpen ? 'block' : 'hidden'} md:block w-full md:w-64 shrink-0`}>
+        <ThreadList
+          threads={threads}
+          activeId={activeThread?.id ?? null}
+          onSelect={handleSelectThread}
+          onNew={handleNewThread}
+          onRename={handleRenameThread}
+          onDelete={handleDeleteThread}
+        />
+      </div>
+      <div
+        onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+        onDragLeave={handleDragLeave}
+        onDrop={handleDrop}
+        className={`${isThreadsOpen ? 'hidden' : 'flex'} md:flex flex-1 min-w-0 bg-slate-800/30 rounded-3xl border overflow-hidden flex-col relative transition-colors ${isDragging ? 'border-[var(--primary)]' : 'border-slate-800'}`}
+      >
+        {isDragging && (
+          <div className="absolute inset-0 z-10 bg-slate-950/70 backdrop-blur-sm flex items-center justify-center pointer-events-none">
+            <p className="text-sm font-black uppercase tracking-widest text-[var(--primary)]">Drop files to attach</p>
+          </div>
+        )}
+        <div className="flex items-center justify-between gap-3 px-6 py-3 border-b border-slate-800">
+          <span className="text-xs font-bold text-slate-400 truncate">{activeThread?.title ?? 'New conversation'}</span>
+          <div className="flex items-center gap-2 shrink-0">
+            <button
+              type="button"
+              onClick={() => setToolsEnabled(v => !v)}
+              disabled={isLoading}
+              className={`px-3 py-1.5 rounded-lg border text-[11px] font-bold transition-all ${
+                toolsEnabled ? 'border-[var(--primary)] text-[var(--primary)]' : 'border-slate-700 text-slate-500 hover:text-white'
+              }`}
+              title="Let the model call local tools: calculator, time, unit conversion and notes"
+            >
+              🔧 Tools {toolsEnabled ? 'On' : 'Off'}
+            </button>
+            <ModelPicker slot={modelSlot} value={currentModel} onChange={handleModelChange} />
+          </div>
+        </div>
         <div ref={scrollRef} className="flex-1 overflow-y-auto p-6 space-y-6">
           {messages.length === 0 && (
             <div className="h-full flex flex-col items-center justify-center text-slate-500 space-y-4">
@@ -115,19 +401,85 @@ const ChatLab: React.FC<ChatLabProps> = ({ userName, useFlash, onSelectKey }) =>
                   boxShadow: '0 4px 12px var(--primary-glow)'
                 } : {}}
               >
-                {m.content || (isLoading && i === messages.length - 1 ? 'Thinking...' : '')}
+                {m.attachments && m.attachments.length > 0 && (
+                  <div className="flex flex-wrap gap-2 mb-2">
+                    {m.attachments.map((a, j) => <AttachmentThumb key={j} attachment={a} />)}
+                  </div>
+                )}
+                {m.toolCalls && m.toolCalls.length > 0 && (
+                  <div className="space-y-2 mb-3">
+                    {m.toolCalls.map((call, j) => <ToolCallView key={j} invocation={call} />)}
+                  </div>
+                )}
+                {m.toolLimitReached && (
+                  <p className="mb-3 text-xs text-amber-400">Tool limit reached: the model answered without further tool calls.</p>
+                )}
+                {m.role === 'ai' && m.content ? (
+                  <MarkdownView content={m.content} />
+                ) : (
+                  <span className="whitespace-pre-wrap">{m.content || (isLoading && i === messages.length - 1 && !m.toolCalls ? 'Thinking...' : '')}</span>
+                )}
               </div>
             </div>
           ))}
         </div>
 
         <form onSubmit={handleSend} className="p-4 border-t border-slate-800 bg-slate-900/50">
+          <ErrorBanner
+            error={error}
+            onDismiss={() => setError(null)}
+            onSelectKey={onSelectKey}
+            onRetry={messages[messages.length - 1]?.role === 'user' ? handleRetry : undefined}
+            className="mb-3"
+          />
+          {skippedAttachments.length > 0 && (
+            <div className="flex items-start justify-between gap-3 mb-3 px-3 py-2 rounded-xl border border-amber-500/30 bg-amber-500/10 text-amber-300 text-xs">
+              <span>Not attached: {skippedAttachments.join(', ')}</span>
+              <button type="button" onClick={() => setSkippedAttachments([])} className="hover:text-white" title="Dismiss">×</button>
+            </div>
+          )}
+          {pendingAttachments.length > 0 && (
+            <div className="flex flex-wrap gap-3 mb-3">
+              {pendingAttachments.map((a, i) => (
+                <AttachmentThumb
+                  key={i}
+                  attachment={a}
+                  onRemove={() => setPendingAttachments(prev => prev.filter((_, j) => j !== i))}
+                />
+              ))}
+            </div>
+          )}
           <div className="flex gap-2 relative">
+            <button
+              type="button"
+              onClick={() => setIsThreadsOpen(true)}
+              className="md:hidden px-3 rounded-xl border border-slate-700 text-slate-400 hover:text-white transition-all"
+              title="Conversations"
+            >
+              🗂️
+            </button>
+            <button
+              type="button"
+              onClick={() => fileInputRef.current?.click()}
+              className="px-3 rounded-xl border border-slate-700 text-slate-400 hover:text-white transition-all"
+              title="Attach files"
+            >
+              📎
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              multiple
+              accept={ACCEPT}
+              onChange={(e) => { addAttachments(Array.from(e.target.files ?? [])); e.target.value = ''; }}
+              className="hidden"
+            />
             <div className="relative flex-1">
               <input
                 type="text"
                 value={input}
                 onChange={(e) => setInput(e.target.value)}
+                onPaste={handlePaste}
                 placeholder="Type your message..."
                 className="w-full bg-slate-900 border border-slate-700 rounded-xl pl-4 pr-12 py-3 focus:outline-none focus:ring-2 transition-all outline-none"
                 style={{ '--tw-ring-color': 'var(--primary)' } as any}
@@ -0,0 +1,132 @@
+import React, { useRef, useEffect, useState } from 'react';
+import { Detection } from '../services/objectDetection';
+
+interface DetectionOverlayProps {
+  src: string;
+  detections: Detection[];
+  hovered: number | null;
+  onHover: (index: number | null) => void;
+  onImageLoad?: (width: number, height: number) => void;
+}
+
+export const DETECTION_COLORS = ['#f43f5e', '#22c55e', '#3b82f6', '#eab308', '#a855f7', '#06b6d4', '#f97316', '#ec4899', '#84cc16', '#6366f1'];
+
+export const detectionColor = (index: number) => DETECTION_COLORS[index % DETECTION_COLORS.length];
+
+// Tints the white pixels of a probability mask so it can be drawn straight onto the overlay
+const tintMask = (src: string, color: string) => new Promise<HTMLCanvasElement>((resolve, reject) => {
+  const img = new Image();
+  img.onload = () => {
+    const canvas = document.createElement('canvas');
+    canvas.width = img.naturalWidth;
+    canvas.height = img.naturalHeight;
+    const ctx = canvas.getContext('2d')!;
+    ctx.drawImage(img, 0, 0);
+    const pixels = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    const [r, g, b] = [1, 3, 5].map(i => parseInt(color.slice(i, i + 2), 16));
+    for (let i = 0; i < pixels.data.length; i += 4) {
+      const on = pixels.data[i] > 127 && pixels.data[i + 3] > 127;
+      pixels.data[i] = r;
+      pixels.data[i + 1] = g;
+      pixels.data[i + 2] = b;
+      pixels.data[i + 3] = on ? 255 : 0;
+    }
+    ctx.putImageData(pixels, 0, 0);
+    resolve(canvas);
+  };
+  img.onerror = () => reject(new Error('Could not decode mask image'));
+  img.src = src;
+});
+
+// Image with boxes and masks drawn on a canvas at the image's natural resolution
+const DetectionOverlay: React.FC<DetectionOverlayProps> = ({ src, detections, hovered, onHover, onImageLoad }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [size, setSize] = useState<{ width: number; height: number } | null>(null);
+  const [masks, setMasks] = useState<(HTMLCanvasElement | null)[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setMasks([]);
+    Promise.all(detections.map((d, i) => d.mask ? tintMask(d.mask, detectionColor(i)).catch(() => null) : Promise.resolve(null)))
+      .then(loaded => { if (!cancelled) setMasks(loaded); });
+    return () => { cancelled = true; };
+  }, [detections]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx || !size) return;
+    canvas.width = size.width;
+    canvas.height = size.height;
+    ctx.clearRect(0, 0, size.width, size.height);
+
+    const line = Math.max(2, size.width / 400);
+    const fontSize = Math.max(12, size.width / 60);
+    ctx.font = `bold ${fontSize}px Inter, sans-serif`;
+    ctx.textBaseline = 'top';
+
+    detections.forEach((d, i) => {
+      const isActive = hovered === null || hovered === i;
+      const color = detectionColor(i);
+      const x = d.box.x * size.width;
+      const y = d.box.y * size.height;
+      const w = d.box.width * size.width;
+      const h = d.box.height * size.height;
+
+      ctx.globalAlpha = isActive ? 1 : 0.25;
+      const mask = masks[i];
+      if (mask) {
+        ctx.globalAlpha = isActive ? 0.45 : 0.1;
+        ctx.drawImage(mask, x, y, w, h);
+        ctx.globalAlpha = isActive ? 1 : 0.25;
+      }
+      ctx.strokeStyle = color;
+      ctx.lineWidth = hovered === i ? line * 2 : line;
+      ctx.strokeRect(x, y, w, h);
+
+      const labelWidth = ctx.measureText(d.label).width + fontSize * 0.6;
+      const labelY = y >= fontSize * 1.4 ? y - fontSize * 1.4 : y;
+      ctx.fillStyle = color;
+      ctx.fillRect(x, labelY, labelWidth, fontSize * 1.4);
+      ctx.fillStyle = '#fff';
+      ctx.fillText(d.label, x + fontSize * 0.3, labelY + fontSize * 0.2);
+    });
+    ctx.globalAlpha = 1;
+  }, [detections, masks, hovered, size]);
+
+  // The smallest box under the pointer wins so nested objects stay reachable
+  const handleMouseMove = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const px = (e.clientX - rect.left) / rect.width;
+    const py = (e.clientY - rect.top) / rect.height;
+    let best: number | null = null;
+    detections.forEach((d, i) => {
+      const inside = px >= d.box.x && px <= d.box.x + d.box.width && py >= d.box.y && py <= d.box.y + d.box.height;
+      if (inside && (best === null || d.box.width * d.box.height < detections[best].box.width * detections[best].box.height)) best = i;
+    });
+    if (best !== hovered) onHover(best);
+  };
+
+  return (
+    <div className="relative">
+      <img
+        src={src}
+        alt="Detection source"
+        onLoad={(e) => {
+          const { naturalWidth: width, naturalHeight: height } = e.currentTarget;
+          setSize({ width, height });
+          onImageLoad?.(width, height);
+        }}
+        className="w-full h-auto rounded-2xl"
+      />
+      <canvas
+        ref={canvasRef}
+        onMouseMove={handleMouseMove}
+        onMouseLeave={() => onHover(null)}
+        className="absolute inset-0 w-full h-full cursor-crosshair"
+      />
+    </div>
+  );
+};
+
+export default DetectionOverlay;
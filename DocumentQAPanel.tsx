@@ -0,0 +1,161 @@
+import React, { useState } from 'react';
+import { askDocuments, loadDocument, linkCitations, documentKind, DOCUMENT_ACCEPT, LoadedDocument, DocumentAnswer, Citation } from '../services/documents';
+import { classifyError, GeminiError } from '../services/errors';
+import MarkdownView from './MarkdownView';
+import ErrorBanner from './ErrorBanner';
+import DocumentViewer from './DocumentViewer';
+
+interface DocumentQAPanelProps {
+  model: string;
+  // Extra guidance from the lab's custom instructions field
+  instructions: string;
+  onSelectKey?: () => void;
+  className?: string;
+}
+
+interface ViewerTarget {
+  documentId: string;
+  page?: number;
+  quote?: string;
+}
+
+const citationLabel = (c: Citation) => [c.page > 0 ? `p. ${c.page}` : '', c.section].filter(Boolean).join(' · ');
+
+// Question answering over several documents, with citations that open the source at the cited spot
+const DocumentQAPanel: React.FC<DocumentQAPanelProps> = ({ model, instructions, onSelectKey, className = '' }) => {
+  const [documents, setDocuments] = useState<LoadedDocument[]>([]);
+  const [turns, setTurns] = useState<DocumentAnswer[]>([]);
+  const [question, setQuestion] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<GeminiError | null>(null);
+  const [viewer, setViewer] = useState<ViewerTarget | null>(null);
+
+  const viewerDocument = viewer ? documents.find(d => d.id === viewer.documentId) : undefined;
+
+  const handleAdd = async (fileList: FileList | null) => {
+    const files = Array.from(fileList ?? []).filter(f => documentKind(f));
+    try {
+      const loaded = await Promise.all(files.map(loadDocument));
+      setDocuments(prev => [...prev, ...loaded]);
+    } catch (err) {
+      setError(classifyError(err));
+    }
+  };
+
+  const handleRemove = (id: string) => {
+    setDocuments(prev => prev.filter(d => d.id !== id));
+    if (viewer?.documentId === id) setViewer(null);
+  };
+
+  const handleAsk = async () => {
+    const q = question.trim();
+    if (!q || isLoading) return;
+    setIsLoading(true);
+    setError(null);
+    try {
+      const answer = await askDocuments(documents, turns, q, model, instructions);
+      setTurns(prev => [...prev, answer]);
+      setQuestion('');
+    } catch (err) {
+      console.error("Document Q&A failed:", err);
+      setError(classifyError(err));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Models sometimes shorten or re-case file names, so fall back to a loose match
+  const openCitation = (citation: Citation) => {
+    const name = citation.document.trim().toLowerCase();
+    const doc = documents.find(d => d.name.toLowerCase() === name)
+      ?? documents.find(d => d.name.toLowerCase().includes(name) || name.includes(d.name.toLowerCase()))
+      ?? (documents.length === 1 ? documents[0] : undefined);
+    if (doc) setViewer({ documentId: doc.id, page: citation.page > 0 ? citation.page : undefined, quote: citation.quote });
+  };
+
+  const openMarker = (turn: DocumentAnswer, anchor: string) => {
+    const id = Number(anchor.replace('cite-', ''));
+    const citation = turn.citations.find(c => c.id === id);
+    if (citation) openCitation(citation);
+  };
+
+  return (
+    <div className={`space-y-4 ${className}`}>
+      <ErrorBanner error={error} onDismiss={() => setError(null)} onSelectKey={onSelectKey} onRetry={handleAsk} />
+
+      <div className="flex flex-wrap items-center gap-2">
+        <h3 className="text-sm font-semibold text-slate-400 uppercase tracking-wider mr-auto">Documents</h3>
+        <label className="px-3 py-1.5 rounded-lg border border-slate-700 text-xs font-bold text-slate-300 hover:text-white cursor-pointer transition-all">
+          + Add
+          <input type="file" accept={DOCUMENT_ACCEPT} multiple onChange={(e) => { handleAdd(e.target.files); e.target.value = ''; }} className="hidden" />
+        </label>
+      </div>
+
+      {documents.length === 0 ? (
+        <p className="text-sm text-slate-500">Add PDFs, text, Markdown, CSV or HTML files, then ask questions across all of them.</p>
+      ) : (
+        <div className="flex flex-wrap gap-2">
+          {documents.map(doc => (
+            <div key={doc.id} className="group flex items-center gap-2 pl-3 pr-2 py-1.5 rounded-lg bg-slate-900 border border-slate-800 text-xs">
+              <span>{doc.kind === 'pdf' ? '📕' : '📄'}</span>
+              <button onClick={() => setViewer({ documentId: doc.id })} className="font-bold text-slate-300 hover:text-white truncate max-w-[12rem]" title={doc.name}>
+                {doc.name}
+              </button>
+              <button onClick={() => handleRemove(doc.id)} className="text-slate-600 hover:text-red-400" title="Remove">✕</button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-4">
+        {turns.map((turn, i) => (
+          <div key={i} className="space-y-2">
+            <p className="text-sm font-bold text-slate-200">Q: {turn.question}</p>
+            <div className="bg-slate-900 rounded-2xl p-4 border border-slate-800 text-sm text-indigo-100/80">
+              <MarkdownView content={linkCitations(turn.answer)} onAnchorClick={(anchor) => openMarker(turn, anchor)} />
+              {turn.citations.length > 0 && (
+                <div className="mt-3 pt-3 border-t border-slate-800 space-y-1">
+                  {turn.citations.map(c => (
+                    <button
+                      key={c.id}
+                      onClick={() => openCitation(c)}
+                      className="w-full text-left flex gap-2 text-[11px] text-slate-400 hover:text-white transition-all"
+                    >
+                      <span className="font-bold text-[var(--primary)] shrink-0">[{c.id}]</span>
+                      <span className="shrink-0 font-bold">{c.document}{citationLabel(c) && ` · ${citationLabel(c)}`}</span>
+                      <span className="truncate italic opacity-70">"{c.quote}"</span>
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex gap-2">
+        <input
+          value={question}
+          onChange={(e) => setQuestion(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter') handleAsk(); }}
+          placeholder={documents.length > 0 ? 'Ask about these documents...' : 'Add documents first'}
+          disabled={documents.length === 0}
+          className="flex-1 bg-slate-900 border border-slate-700 rounded-xl px-4 py-3 text-sm outline-none focus:ring-2 focus:ring-indigo-500 disabled:opacity-50"
+        />
+        <button
+          onClick={handleAsk}
+          disabled={!question.trim() || documents.length === 0 || isLoading}
+          className="px-5 rounded-xl bg-slate-100 hover:bg-white text-slate-950 text-sm font-bold disabled:opacity-50 transition-all"
+        >
+          {isLoading ? 'Reading...' : 'Ask'}
+        </button>
+      </div>
+
+      {viewerDocument && (
+        <DocumentViewer document={viewerDocument} page={viewer?.page} quote={viewer?.quote} onClose={() => setViewer(null)} />
+      )}
+    </div>
+  );
+};
+
+export default DocumentQAPanel;
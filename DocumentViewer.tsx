@@ -0,0 +1,69 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { LoadedDocument } from '../services/documents';
+
+interface DocumentViewerProps {
+  document: LoadedDocument;
+  // 1-based page for PDFs
+  page?: number;
+  // Highlighted and scrolled into view in text documents
+  quote?: string;
+  onClose: () => void;
+}
+
+// Finds the quote even when the model normalised whitespace or case
+const findQuote = (text: string, quote: string): [number, number] | null => {
+  const needle = quote.trim();
+  if (!needle) return null;
+  const pattern = needle.split(/\s+/).map(w => w.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('\\s+');
+  const match = new RegExp(pattern, 'i').exec(text);
+  return match ? [match.index, match.index + match[0].length] : null;
+};
+
+// Built-in viewer for cited sources: the browser's PDF viewer opened at a page, or the text
+// of a document with the cited passage highlighted
+const DocumentViewer: React.FC<DocumentViewerProps> = ({ document, page, quote, onClose }) => {
+  const [url, setUrl] = useState<string | null>(null);
+  const markRef = useRef<HTMLElement>(null);
+
+  useEffect(() => {
+    if (document.kind !== 'pdf') return;
+    const objectUrl = URL.createObjectURL(document.file);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [document]);
+
+  useEffect(() => {
+    markRef.current?.scrollIntoView({ block: 'center', behavior: 'smooth' });
+  }, [document, quote]);
+
+  const text = document.text ?? '';
+  const range = document.kind === 'text' && quote ? findQuote(text, quote) : null;
+
+  return (
+    <div className="rounded-2xl border border-slate-700 overflow-hidden bg-slate-950">
+      <div className="flex items-center gap-2 px-4 py-2 bg-slate-800/80 border-b border-slate-700">
+        <span className="text-xs font-bold text-slate-200 truncate">{document.name}</span>
+        {page ? <span className="text-[10px] font-bold text-slate-500">Page {page}</span> : null}
+        <button onClick={onClose} className="ml-auto text-slate-500 hover:text-white text-xs" title="Close">✕</button>
+      </div>
+      {document.kind === 'pdf' ? (
+        url && (
+          // Changing the fragment alone does not always navigate, so the frame is remounted per page
+          <iframe key={`${url}#${page ?? 1}`} src={`${url}#page=${page ?? 1}`} title={document.name} className="w-full h-[36rem] bg-white" />
+        )
+      ) : (
+        <pre className="max-h-[36rem] overflow-y-auto p-4 text-xs leading-relaxed text-slate-300 whitespace-pre-wrap break-words font-mono">
+          {range ? (
+            <>
+              {text.slice(0, range[0])}
+              <mark ref={markRef} className="bg-[var(--primary)] text-white rounded px-0.5">{text.slice(range[0], range[1])}</mark>
+              {text.slice(range[1])}
+            </>
+          ) : text}
+        </pre>
+      )}
+    </div>
+  );
+};
+
+export default DocumentViewer;
@@ -0,0 +1,68 @@
+import React from 'react';
+import { GeminiError, GeminiErrorKind } from '../services/errors';
+
+interface ErrorBannerProps {
+  error: GeminiError | null;
+  onDismiss: () => void;
+  onSelectKey?: () => void;
+  onRetry?: () => void;
+  className?: string;
+}
+
+const TITLES: Record<GeminiErrorKind, string> = {
+  auth: 'Permission Denied',
+  quota: 'Rate Limit Reached',
+  safety: 'Blocked by Safety Filters',
+  invalidArgument: 'Invalid Request',
+  notFound: 'Model Unavailable',
+  network: 'Network Error',
+  server: 'Service Unavailable',
+  device: 'Device Access Denied',
+  unknown: 'Something Went Wrong',
+};
+
+const ErrorBanner: React.FC<ErrorBannerProps> = ({ error, onDismiss, onSelectKey, onRetry, className = '' }) => {
+  if (!error) return null;
+  const isWarning = error.kind === 'quota' || error.kind === 'safety';
+
+  return (
+    <div
+      role="alert"
+      className={`flex flex-col sm:flex-row sm:items-center gap-3 p-4 rounded-2xl border animate-fadeIn ${
+        isWarning ? 'bg-amber-500/10 border-amber-500/40' : 'bg-red-500/10 border-red-500/40'
+      } ${className}`}
+    >
+      <div className="flex-1 min-w-0">
+        <p className={`text-[10px] font-black uppercase tracking-widest ${isWarning ? 'text-amber-500' : 'text-red-400'}`}>
+          {TITLES[error.kind]}{error.status ? ` (${error.status})` : ''}
+        </p>
+        <p className="text-sm text-slate-600 dark:text-slate-300 mt-1">{error.message}</p>
+      </div>
+      <div className="flex items-center gap-2 shrink-0">
+        {error.kind === 'auth' && onSelectKey && (
+          <button
+            onClick={() => { onDismiss(); onSelectKey(); }}
+            className="bg-red-500 hover:bg-red-600 text-white px-4 py-2 rounded-xl text-xs font-bold transition-all"
+          >
+            Select API Key
+          </button>
+        )}
+        {onRetry && error.kind !== 'auth' && (
+          <button
+            onClick={() => { onDismiss(); onRetry(); }}
+            className="bg-slate-200 dark:bg-slate-800 hover:brightness-110 px-4 py-2 rounded-xl text-xs font-bold transition-all"
+          >
+            Retry
+          </button>
+        )}
+        <button onClick={onDismiss} className="p-2 text-slate-400 hover:text-slate-200 transition-colors" title="Dismiss">
+          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ErrorBanner;
@@ -0,0 +1,269 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { ImageHistoryItem, ImageMetadata } from '../services/imageHistory';
+import {
+  searchImages, tagCounts, normalizeTag, imageBytes, formatBytes, storageEstimate, cleanupCandidates,
+  exportGallery, importGallery, EMPTY_FILTER, GalleryFilter,
+} from '../services/imageGallery';
+import { downloadBlob, fileTimestamp } from '../services/download';
+
+interface ImageGalleryProps {
+  items: ImageHistoryItem[];
+  activeId: number | null;
+  onOpen: (item: ImageHistoryItem) => void;
+  onContinue: (item: ImageHistoryItem) => void;
+  onUpdate: (item: ImageHistoryItem, patch: Partial<ImageMetadata>) => void;
+  onDelete: (ids: number[]) => void;
+  onImported: (items: ImageHistoryItem[]) => void;
+}
+
+const COLUMNS = 3;
+const GAP = 8;
+// Tile height plus the gap below it; rows outside the viewport are not rendered
+const ROW_HEIGHT = 120;
+const OVERSCAN_ROWS = 2;
+const CLEANUP_AGES = [7, 30, 90];
+
+const ImageGallery: React.FC<ImageGalleryProps> = ({ items, activeId, onOpen, onContinue, onUpdate, onDelete, onImported }) => {
+  const [filter, setFilter] = useState<GalleryFilter>(EMPTY_FILTER);
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [tagDraft, setTagDraft] = useState('');
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(0);
+  const [estimate, setEstimate] = useState<{ usage: number; quota: number } | null>(null);
+  const [cleanupDays, setCleanupDays] = useState(30);
+  const [status, setStatus] = useState<string | null>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  const visible = searchImages(items, filter);
+  const selected = items.find(i => i.id === selectedId);
+  const tags = tagCounts(items);
+  const totalBytes = items.reduce((sum, i) => sum + imageBytes(i), 0);
+  const stale = cleanupCandidates(items, cleanupDays);
+
+  useEffect(() => {
+    const el = scrollRef.current;
+    if (!el) return;
+    const observer = new ResizeObserver(() => setViewportHeight(el.clientHeight));
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, []);
+
+  // Re-read after the gallery changes size so the quota bar follows saves and deletes
+  useEffect(() => {
+    storageEstimate().then(setEstimate).catch(() => setEstimate(null));
+  }, [items.length]);
+
+  useEffect(() => {
+    scrollRef.current?.scrollTo({ top: 0 });
+  }, [filter]);
+
+  const rowCount = Math.ceil(visible.length / COLUMNS);
+  const firstRow = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN_ROWS);
+  const lastRow = Math.min(rowCount, Math.ceil((scrollTop + viewportHeight) / ROW_HEIGHT) + OVERSCAN_ROWS);
+
+  const toggleTagFilter = (tag: string) => {
+    setFilter(f => ({ ...f, tags: f.tags.includes(tag) ? f.tags.filter(t => t !== tag) : [...f.tags, tag] }));
+  };
+
+  const addTags = () => {
+    if (!selected) return;
+    const added = tagDraft.split(',').map(normalizeTag).filter(t => t && !selected.tags.includes(t));
+    if (added.length > 0) onUpdate(selected, { tags: [...selected.tags, ...added] });
+    setTagDraft('');
+  };
+
+  const handleExport = async () => {
+    setStatus('Packing archive...');
+    try {
+      downloadBlob(await exportGallery(visible), `gallery-${fileTimestamp()}.zip`);
+      setStatus(null);
+    } catch (err) {
+      console.error(err);
+      setStatus('Export failed.');
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setStatus('Importing...');
+    try {
+      const imported = await importGallery(file);
+      onImported(imported);
+      setStatus(`Imported ${imported.length} image${imported.length === 1 ? '' : 's'}.`);
+    } catch (err) {
+      console.error(err);
+      setStatus(err instanceof Error ? err.message : 'Import failed.');
+    }
+  };
+
+  const handleCleanup = () => {
+    if (stale.length === 0 || !confirm(`Delete ${stale.length} images older than ${cleanupDays} days? Favorites are kept.`)) return;
+    onDelete(stale.map(i => i.id));
+    if (selectedId !== null && stale.some(i => i.id === selectedId)) setSelectedId(null);
+  };
+
+  return (
+    <div className="h-full flex flex-col gap-3 p-4">
+      <div className="flex gap-2">
+        <input
+          value={filter.query}
+          onChange={(e) => setFilter(f => ({ ...f, query: e.target.value }))}
+          placeholder="Search prompts and tags..."
+          className="flex-1 min-w-0 bg-slate-100 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl px-3 py-2 text-xs outline-none focus:ring-2 focus:ring-[var(--primary)]"
+        />
+        <button
+          onClick={() => setFilter(f => ({ ...f, favoritesOnly: !f.favoritesOnly }))}
+          title="Favorites only"
+          className={`px-3 rounded-xl border text-sm transition-all ${filter.favoritesOnly ? 'border-amber-400 text-amber-400 bg-amber-400/10' : 'border-slate-200 dark:border-slate-700 text-slate-400 hover:text-amber-400'}`}
+        >
+          ★
+        </button>
+      </div>
+
+      {tags.length > 0 && (
+        <div className="flex flex-wrap gap-1 max-h-14 overflow-y-auto no-scrollbar">
+          {tags.map(({ tag, count }) => (
+            <button
+              key={tag}
+              onClick={() => toggleTagFilter(tag)}
+              className={`px-2 py-0.5 rounded-full text-[9px] font-bold transition-all ${filter.tags.includes(tag) ? 'bg-[var(--primary)] text-white' : 'bg-slate-100 dark:bg-slate-800 text-slate-500 hover:text-[var(--primary)]'}`}
+            >
+              #{tag} <span className="opacity-60">{count}</span>
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div className="text-[9px] font-black uppercase tracking-widest text-slate-400">
+        {visible.length === items.length ? `${items.length} images` : `${visible.length} of ${items.length} images`}
+      </div>
+
+      <div ref={scrollRef} onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)} className="flex-1 min-h-0 overflow-y-auto no-scrollbar">
+        {visible.length === 0 ? (
+          <p className="text-[10px] font-bold uppercase tracking-widest text-slate-400 text-center mt-10">No matching images</p>
+        ) : (
+          <div className="relative" style={{ height: rowCount * ROW_HEIGHT }}>
+            {visible.slice(firstRow * COLUMNS, lastRow * COLUMNS).map((item, i) => {
+              const index = firstRow * COLUMNS + i;
+              const column = index % COLUMNS;
+              const tileWidth = `((100% - ${GAP * (COLUMNS - 1)}px) / ${COLUMNS})`;
+              return (
+                <div
+                  key={item.id}
+                  onClick={() => setSelectedId(item.id === selectedId ? null : item.id)}
+                  onDoubleClick={() => onOpen(item)}
+                  className={`absolute group rounded-xl overflow-hidden border-2 cursor-pointer bg-slate-100 dark:bg-slate-800 ${item.id === selectedId ? 'border-[var(--primary)]' : item.id === activeId ? 'border-slate-400' : 'border-transparent'}`}
+                  style={{
+                    top: Math.floor(index / COLUMNS) * ROW_HEIGHT,
+                    left: `calc(${tileWidth} * ${column} + ${column * GAP}px)`,
+                    width: `calc${tileWidth}`,
+                    height: ROW_HEIGHT - GAP,
+                  }}
+                >
+                  <img src={item.thumbUrl} alt={item.prompt} loading="lazy" className="w-full h-full object-cover" />
+                  <button
+                    onClick={(e) => { e.stopPropagation(); onUpdate(item, { favorite: !item.favorite }); }}
+                    title={item.favorite ? 'Remove from favorites' : 'Add to favorites'}
+                    className={`absolute top-1 right-1 w-5 h-5 rounded-full bg-black/50 text-xs leading-none transition-opacity ${item.favorite ? 'text-amber-400' : 'text-white opacity-0 group-hover:opacity-100'}`}
+                  >
+                    ★
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      {selected && (
+        <div className="p-3 rounded-xl border border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-800/60 space-y-2">
+          <p className="text-[10px] font-bold line-clamp-3">{selected.prompt || 'Untitled'}</p>
+          <p className="text-[9px] text-slate-400 font-mono">
+            {[
+              new Date(selected.timestamp).toLocaleString(),
+              selected.model,
+              selected.width && selected.height ? `${selected.width}×${selected.height}` : null,
+              selected.aspectRatio,
+              selected.imageSize,
+              formatBytes(selected.blob.size),
+            ].filter(Boolean).join(' · ')}
+          </p>
+          <div className="flex flex-wrap items-center gap-1">
+            {selected.tags.map(tag => (
+              <span key={tag} className="flex items-center gap-1 px-2 py-0.5 rounded-full bg-[var(--primary-glow)] text-[var(--primary)] text-[9px] font-bold">
+                #{tag}
+                <button onClick={() => onUpdate(selected, { tags: selected.tags.filter(t => t !== tag) })} className="hover:text-red-400">×</button>
+              </span>
+            ))}
+            <input
+              value={tagDraft}
+              onChange={(e) => setTagDraft(e.target.value)}
+              onKeyDown={(e) => { if (e.key === 'Enter') addTags(); }}
+              onBlur={addTags}
+              placeholder="Add tag..."
+              className="flex-1 min-w-[5rem] bg-transparent text-[10px] outline-none"
+            />
+          </div>
+          <div className="flex gap-1">
+            <button onClick={() => onOpen(selected)} className="flex-1 px-2 py-1 rounded-lg border border-slate-200 dark:border-slate-700 text-[9px] font-black uppercase tracking-widest text-slate-500 hover:text-[var(--primary)] transition-all">Open</button>
+            <button onClick={() => onContinue(selected)} className="flex-1 px-2 py-1 rounded-lg border border-slate-200 dark:border-slate-700 text-[9px] font-black uppercase tracking-widest text-slate-500 hover:text-[var(--primary)] transition-all">Edit</button>
+            <button
+              onClick={() => { onDelete([selected.id]); setSelectedId(null); }}
+              className="px-2 py-1 rounded-lg border border-slate-200 dark:border-slate-700 text-[9px] font-black uppercase tracking-widest text-slate-500 hover:text-red-400 transition-all"
+            >
+              Delete
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="space-y-2 pt-2 border-t border-slate-200 dark:border-slate-800">
+        <div className="flex justify-between text-[9px] font-black uppercase tracking-widest text-slate-400">
+          <span>Gallery {formatBytes(totalBytes)}</span>
+          {estimate && <span>{formatBytes(estimate.usage)} of {formatBytes(estimate.quota)}</span>}
+        </div>
+        {estimate && (
+          <div className="h-1.5 rounded-full bg-slate-200 dark:bg-slate-800 overflow-hidden">
+            <div
+              className={`h-full ${estimate.usage / estimate.quota > 0.8 ? 'bg-red-400' : 'bg-[var(--primary)]'}`}
+              style={{ width: `${Math.min(100, estimate.usage / estimate.quota * 100)}%` }}
+            />
+          </div>
+        )}
+        <div className="flex items-center gap-1">
+          <select
+            value={cleanupDays}
+            onChange={(e) => setCleanupDays(Number(e.target.value))}
+            className="bg-slate-100 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg px-1.5 py-1 text-[9px] font-bold outline-none"
+          >
+            {CLEANUP_AGES.map(d => <option key={d} value={d}>Older than {d} days</option>)}
+          </select>
+          <button
+            onClick={handleCleanup}
+            disabled={stale.length === 0}
+            className="px-2 py-1 rounded-lg border border-slate-200 dark:border-slate-700 text-[9px] font-black uppercase tracking-widest text-slate-500 hover:text-red-400 disabled:opacity-40 transition-all"
+          >
+            Clean up {stale.length > 0 && stale.length}
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={visible.length === 0}
+            title="Download the images shown, with a manifest"
+            className="ml-auto px-2 py-1 rounded-lg border border-slate-200 dark:border-slate-700 text-[9px] font-black uppercase tracking-widest text-slate-500 hover:text-slate-900 dark:hover:text-white disabled:opacity-40 transition-all"
+          >
+            ⬇ ZIP
+          </button>
+          <label className="relative px-2 py-1 rounded-lg border border-slate-200 dark:border-slate-700 text-[9px] font-black uppercase tracking-widest text-slate-500 hover:text-slate-900 dark:hover:text-white cursor-pointer transition-all">
+            ⬆ Import
+            <input type="file" accept=".zip,application/zip" onChange={handleImport} className="absolute inset-0 opacity-0 cursor-pointer" />
+          </label>
+        </div>
+        {status && <p className="text-[9px] text-slate-400">{status}</p>}
+      </div>
+    </div>
+  );
+};
+
+export default ImageGallery;
@@ -1,39 +1,38 @@
 
 import React, { useState, useEffect } from 'react';
-import { getAI, fileToBase64, improvePrompt } from '../../services/gemini';
-
-interface ImageHistoryItem {
-  id: number;
-  url: string;
-  prompt: string;
-  timestamp: number;
-  mode: 'generate' | 'edit';
-}
+import { getAI, improvePrompt, resolveModel, withModelFallback, ModelPreferences, ModelSlot } from '../../services/gemini';
+import { callGemini, classifyError, GeminiError } from '../../services/errors';
+import ModelPicker from '../ModelPicker';
+import ErrorBanner from '../ErrorBanner';
+import MaskEditor from '../MaskEditor';
+import VersionTree from '../VersionTree';
+import VersionCompare from '../VersionCompare';
+import ReferenceImages from '../ReferenceImages';
+import VariationGrid from '../VariationGrid';
+import ImageGallery from '../ImageGallery';
+import { renderMaskAlpha, featherAlpha, maskBounds, maskToPNG, regionHint, compositeEdit, MaskOp } from '../../services/imageMask';
+import {
+  listImages, addImage, updateImage, deleteImages, dataUrlToBlob, pathTo, buildEditContents, imageFromResponse, referenceParts,
+  ImageHistoryItem, ImageMetadata, ImageReference, NewImage,
+} from '../../services/imageHistory';
+import { variationPrompts, variationCount, promptMatrixSize, Variation, MAX_VARIATIONS, VARIATION_CONCURRENCY } from '../../services/imageVariations';
+import { mapWithConcurrency } from '../../services/concurrency';
+import { createZip } from '../../services/zip';
+import { downloadBlob, fileTimestamp } from '../../services/download';
 
 interface ImageLabProps {
   onSelectKey: () => void;
   hasKey: boolean;
+  models: ModelPreferences;
+  onModelChange: (slot: ModelSlot, model: string) => void;
 }
 
-// Simple IndexedDB wrapper for image persistence
-const DB_NAME = 'GeminiLabImages';
-const STORE_NAME = 'history';
-
-const initDB = (): Promise<IDBDatabase> => {
-  return new Promise((resolve, reject) => {
-    const request = indexedDB.open(DB_NAME, 1);
-    request.onupgradeneeded = () => {
-      const db = request.result;
-      if (!db.objectStoreNames.contains(STORE_NAME)) {
-        db.createObjectStore(STORE_NAME, { keyPath: 'id', autoIncrement: true });
-      }
-    };
-    request.onsuccess = () => resolve(request.result);
-    request.onerror = () => reject(request.error);
-  });
-};
+// Image models lose track of which image is which beyond a handful of references
+const MAX_REFERENCES = 6;
 
-const ImageLab: React.FC<ImageLabProps> = ({ onSelectKey, hasKey }) => {
+const slugify = (text: string) => text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 40) || 'image';
+
+const ImageLab: React.FC<ImageLabProps> = ({ onSelectKey, hasKey, models, onModelChange }) => {
   const [mode, setMode] = useState<'generate' | 'edit'>('generate');
   const [prompt, setPrompt] = useState('');
   const [aspectRatio, setAspectRatio] = useState('1:1');
@@ -41,55 +40,57 @@ const ImageLab: React.FC<ImageLabProps> = ({ onSelectKey, hasKey }) => {
   const [generatedImageUrl, setGeneratedImageUrl] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [isImproving, setIsImproving] = useState(false);
-  const [sourceImage, setSourceImage] = useState<File | null>(null);
+  const [sourceImage, setSourceImage] = useState<Blob | null>(null);
   const [sourcePreview, setSourcePreview] = useState<string | null>(null);
+  const [error, setError] = useState<GeminiError | null>(null);
+  const [maskOps, setMaskOps] = useState<MaskOp[]>([]);
+  const [feather, setFeather] = useState(8);
+  const [sourceSize, setSourceSize] = useState<{ width: number; height: number } | null>(null);
+  // Version the next edit branches from, and the version currently shown as the result
+  const [sourceNodeId, setSourceNodeId] = useState<number | null>(null);
+  const [resultNodeId, setResultNodeId] = useState<number | null>(null);
+  const [compareIds, setCompareIds] = useState<number[]>([]);
+  const [isComparing, setIsComparing] = useState(false);
+  const [references, setReferences] = useState<ImageReference[]>([]);
+  // Images per prompt (or per matrix combination) in variations mode
+  const [variationsPerPrompt, setVariationsPerPrompt] = useState(1);
+  const [variations, setVariations] = useState<Variation[]>([]);
+  const [selectedVariations, setSelectedVariations] = useState<string[]>([]);
+  const modelSlot: ModelSlot = mode === 'generate' ? 'imageGenerate' : 'imageEdit';
   
   // History State
   const [history, setHistory] = useState<ImageHistoryItem[]>([]);
   const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [historyView, setHistoryView] = useState<'versions' | 'gallery'>('versions');
 
   // Load history from IndexedDB
   useEffect(() => {
-    const loadHistory = async () => {
-      try {
-        const db = await initDB();
-        const tx = db.transaction(STORE_NAME, 'readonly');
-        const store = tx.objectStore(STORE_NAME);
-        const request = store.getAll();
-        request.onsuccess = () => {
-          setHistory((request.result as ImageHistoryItem[]).sort((a, b) => b.timestamp - a.timestamp));
-        };
-      } catch (err) {
-        console.error("Failed to load history from IndexedDB", err);
-      }
-    };
-    loadHistory();
+    listImages()
+      .then(setHistory)
+      .catch(err => console.error("Failed to load history from IndexedDB", err));
   }, []);
 
-  const saveToHistory = async (url: string, p: string, m: 'generate' | 'edit') => {
+  const saveToHistory = async (blob: Blob, p: string, m: ImageHistoryItem['mode'], extra: Partial<NewImage> = {}) => {
+    const item = await addImage(blob, { prompt: p, timestamp: Date.now(), mode: m, ...extra });
+    setHistory(prev => [item, ...prev]);
+    return item;
+  };
+
+  const updateHistoryItem = async (item: ImageHistoryItem, patch: Partial<ImageMetadata>) => {
     try {
-      const newItem = { url, prompt: p, timestamp: Date.now(), mode: m };
-      const db = await initDB();
-      const tx = db.transaction(STORE_NAME, 'readwrite');
-      const store = tx.objectStore(STORE_NAME);
-      const request = store.add(newItem);
-      request.onsuccess = () => {
-        const itemWithId = { ...newItem, id: request.result as number };
-        setHistory(prev => [itemWithId, ...prev].slice(0, 30)); // Keep last 30
-      };
+      const updated = await updateImage(item, patch);
+      setHistory(prev => prev.map(i => i.id === updated.id ? updated : i));
     } catch (err) {
-      console.error("Failed to save image to IndexedDB", err);
+      console.error("Failed to update IndexedDB", err);
     }
   };
 
-  const deleteFromHistory = async (e: React.MouseEvent, id: number) => {
-    e.stopPropagation();
+  const deleteFromHistory = async (ids: number[]) => {
     try {
-      const db = await initDB();
-      const tx = db.transaction(STORE_NAME, 'readwrite');
-      const store = tx.objectStore(STORE_NAME);
-      store.delete(id);
-      setHistory(prev => prev.filter(item => item.id !== id));
+      setHistory(await deleteImages(ids, history));
+      setCompareIds(prev => prev.filter(c => !ids.includes(c)));
+      if (resultNodeId !== null && ids.includes(resultNodeId)) setResultNodeId(null);
+      if (sourceNodeId !== null && ids.includes(sourceNodeId)) setSourceNodeId(null);
     } catch (err) {
       console.error("Failed to delete from IndexedDB", err);
     }
@@ -108,68 +109,148 @@ const ImageLab: React.FC<ImageLabProps> = ({ onSelectKey, hasKey }) => {
     if (file) {
       setSourceImage(file);
       setSourcePreview(URL.createObjectURL(file));
+      setMaskOps([]);
+      setSourceSize(null);
+      setGeneratedImageUrl(null);
+      setSourceNodeId(null);
+      setResultNodeId(null);
     }
   };
 
+  const generateImage = async (text: string, refs: ImageReference[]) => {
+    const ai = getAI();
+    let usedModel = '';
+    const requested = resolveModel('imageGenerate', models);
+    const parts = [...await referenceParts(refs), { text }];
+    const response = await callGemini(() => withModelFallback(requested, model => {
+      usedModel = model;
+      return ai.models.generateContent({
+        model,
+        contents: { parts },
+        config: {
+          imageConfig: {
+            aspectRatio: aspectRatio as any,
+            imageSize: imageSize as any
+          }
+        }
+      });
+    }), { model: requested });
+    return { image: imageFromResponse(response), model: usedModel };
+  };
+
+  // Fans the prompt out into several calls; each tile reports its own failure
+  const runVariations = async () => {
+    const batch: Variation[] = variationPrompts(prompt, variationsPerPrompt).map(p => ({
+      id: crypto.randomUUID(),
+      prompt: p,
+      status: 'pending',
+      references: references.length > 0 ? references : undefined,
+      aspectRatio,
+      imageSize,
+    }));
+    const update = (id: string, patch: Partial<Variation>) => setVariations(prev => prev.map(v => v.id === id ? { ...v, ...patch } : v));
+    setVariations(batch);
+    setSelectedVariations([]);
+    setGeneratedImageUrl(null);
+    setResultNodeId(null);
+    setError(null);
+    setIsLoading(true);
+
+    let succeeded = 0;
+    let firstError: unknown = null;
+    await mapWithConcurrency(batch, VARIATION_CONCURRENCY, async (v) => {
+      try {
+        const { image, model } = await generateImage(v.prompt, v.references ?? []);
+        if (!image) throw new GeminiError('unknown', 'No image returned');
+        succeeded++;
+        update(v.id, { status: 'done', url: image.url, signature: image.signature, model });
+      } catch (err) {
+        console.error(err);
+        firstError ??= err;
+        update(v.id, { status: 'error', error: classifyError(err).message });
+      }
+    });
+    if (succeeded === 0 && firstError) setError(classifyError(firstError));
+    setIsLoading(false);
+  };
+
   const handleAction = async () => {
     if (!prompt.trim() || isLoading) return;
+
+    if (mode === 'generate' && variationCount(prompt, variationsPerPrompt) > 1) {
+      await runVariations();
+      return;
+    }
+    
+    if (mode === 'edit' && !sourceImage) {
+      setError(new GeminiError('invalidArgument', "Please upload a source image for editing."));
+      return;
+    }
     
     setIsLoading(true);
     setGeneratedImageUrl(null);
+    setError(null);
+    if (mode === 'generate') setVariations([]);
 
     try {
       const ai = getAI();
-      let newUrl = '';
+      let image: { url: string; signature?: string } | null = null;
+      let usedModel = '';
+      let extra: Partial<ImageHistoryItem> = {};
       if (mode === 'generate') {
-        const response = await ai.models.generateContent({
-          model: 'gemini-3-pro-image-preview',
-          contents: { parts: [{ text: prompt }] },
-          config: {
-            imageConfig: {
-              aspectRatio: aspectRatio as any,
-              imageSize: imageSize as any
-            }
-          }
-        });
-
-        for (const part of response.candidates[0].content.parts) {
-          if (part.inlineData) {
-            newUrl = `data:image/png;base64,${part.inlineData.data}`;
-            break;
-          }
-        }
+        const generated = await generateImage(prompt, references);
+        image = generated.image;
+        usedModel = generated.model;
       } else {
-        if (!sourceImage) {
-          alert("Please upload a source image for editing.");
-          setIsLoading(false);
-          return;
+        // An uploaded image becomes the root of its own branch the first time it is edited
+        let base = sourceNodeId !== null ? history.find(i => i.id === sourceNodeId) : undefined;
+        if (!base) {
+          base = await saveToHistory(sourceImage, sourceImage instanceof File ? sourceImage.name : '', 'source');
+          setSourceNodeId(base.id);
         }
-        const base64 = await fileToBase64(sourceImage);
-        const response = await ai.models.generateContent({
-          model: 'gemini-2.5-flash-image',
-          contents: {
-            parts: [
-              { inlineData: { data: base64, mimeType: sourceImage.type } },
-              { text: prompt }
-            ]
-          }
-        });
+        const path = pathTo([base, ...history], base.id);
 
-        for (const part of response.candidates[0].content.parts) {
-          if (part.inlineData) {
-            newUrl = `data:image/png;base64,${part.inlineData.data}`;
-            break;
-          }
+        // An empty mask means the whole image may change
+        const alpha = sourceSize && maskOps.length > 0 ? renderMaskAlpha(maskOps, sourceSize.width, sourceSize.height) : null;
+        const bounds = alpha && sourceSize ? maskBounds(alpha, sourceSize.width, sourceSize.height) : null;
+        const request = [...await referenceParts(references), ...(alpha && bounds && sourceSize ? [
+          { inlineData: { data: maskToPNG(alpha, sourceSize.width, sourceSize.height), mimeType: 'image/png' } },
+          { text: `${prompt}\n\nThe black and white image is a mask for the latest version of the image: apply the change only inside the white area and keep everything in the black area exactly as it is. ${regionHint(bounds, sourceSize.width, sourceSize.height)} Return the full image at the same framing.` },
+        ] : [{ text: prompt }])];
+        const requested = resolveModel('imageEdit', models);
+        const response = await callGemini(() => withModelFallback(requested, async model => {
+          usedModel = model;
+          return ai.models.generateContent({
+            model,
+            contents: await buildEditContents(path, request, model),
+          });
+        }), { model: requested });
+        image = imageFromResponse(response);
+        extra = { parentId: base.id };
+
+        // Models repaint the whole frame, so the result is blended back through the mask to leave the rest untouched
+        if (image && alpha && bounds && sourceSize) {
+          // The signature belongs to the model's own image, not the composite
+          image = { url: await compositeEdit(base.url, image.url, featherAlpha(alpha, sourceSize.width, sourceSize.height, feather), sourceSize.width, sourceSize.height) };
         }
       }
 
-      if (newUrl) {
-        setGeneratedImageUrl(newUrl);
-        await saveToHistory(newUrl, prompt, mode);
+      if (image) {
+        setGeneratedImageUrl(image.url);
+        const item = await saveToHistory(dataUrlToBlob(image.url), prompt, mode, {
+          ...extra,
+          ...(mode === 'generate' ? { aspectRatio, imageSize } : {}),
+          model: usedModel,
+          signature: image.signature,
+          references: references.length > 0 ? references : undefined,
+        });
+        setResultNodeId(item.id);
+      } else {
+        setError(new GeminiError('unknown', "The model did not return an image. Try rephrasing your prompt."));
       }
     } catch (err) {
       console.error(err);
-      alert("Something went wrong. Ensure you have selected a valid Premium API key.");
+      setError(classifyError(err));
     } finally {
       setIsLoading(false);
     }
@@ -177,21 +258,107 @@ const ImageLab: React.FC<ImageLabProps> = ({ onSelectKey, hasKey }) => {
 
   const recallFromHistory = (item: ImageHistoryItem) => {
     setGeneratedImageUrl(item.url);
+    setResultNodeId(item.id);
     setPrompt(item.prompt);
-    setMode(item.mode);
+    setReferences(item.references ?? []);
+    setMode(item.mode === 'generate' ? 'generate' : 'edit');
+    setIsComparing(false);
+    setIsHistoryOpen(false);
+  };
+
+  // Makes a saved version the next source; editing a version that already has edits starts a new branch
+  const continueFrom = (item: ImageHistoryItem) => {
+    setSourceImage(item.blob);
+    setSourcePreview(item.url);
+    setSourceNodeId(item.id);
+    setSourceSize(null);
+    setMaskOps([]);
+    setMode('edit');
+    setPrompt('');
+    setGeneratedImageUrl(null);
+    setResultNodeId(null);
+    setIsComparing(false);
     setIsHistoryOpen(false);
   };
 
+  const saveVariation = async (v: Variation) => {
+    const item = await saveToHistory(dataUrlToBlob(v.url!), v.prompt, 'generate', {
+      model: v.model,
+      signature: v.signature,
+      references: v.references,
+      aspectRatio: v.aspectRatio,
+      imageSize: v.imageSize,
+    });
+    setVariations(prev => prev.map(x => x.id === v.id ? { ...x, savedId: item.id } : x));
+    return item;
+  };
+
+  const saveSelectedVariations = async () => {
+    try {
+      for (const v of variations) {
+        if (selectedVariations.includes(v.id) && v.url && v.savedId === undefined) await saveVariation(v);
+      }
+    } catch (err) {
+      console.error("Failed to save variations", err);
+    }
+  };
+
+  const downloadSelectedVariations = async () => {
+    const chosen = variations.filter(v => selectedVariations.includes(v.id) && v.url);
+    const entries = await Promise.all(chosen.map(async (v, i) => {
+      const blob = await (await fetch(v.url!)).blob();
+      return { name: `${String(i + 1).padStart(2, '0')}-${slugify(v.prompt)}.${blob.type.split('/')[1] || 'png'}`, data: blob };
+    }));
+    downloadBlob(await createZip(entries), `variations-${fileTimestamp()}.zip`);
+  };
+
+  // Unsaved tiles are saved first so the edit has a version to branch from
+  const useVariationAsSource = async (v: Variation) => {
+    try {
+      const saved = v.savedId !== undefined ? history.find(i => i.id === v.savedId) : undefined;
+      continueFrom(saved ?? await saveVariation(v));
+    } catch (err) {
+      console.error("Failed to use variation as source", err);
+    }
+  };
+
+  const toggleCompare = (id: number) => {
+    setCompareIds(prev => prev.includes(id) ? prev.filter(c => c !== id) : [...prev, id].slice(-2));
+  };
+
+  const compareWithParent = (item: ImageHistoryItem) => {
+    if (item.parentId === undefined) return;
+    setCompareIds([item.parentId, item.id]);
+    setIsComparing(true);
+  };
+
+  const resultNode = resultNodeId !== null ? history.find(i => i.id === resultNodeId) : undefined;
+  // Older version on one side, newer on the other
+  const compared = compareIds
+    .map(id => history.find(i => i.id === id))
+    .filter((i): i is ImageHistoryItem => !!i)
+    .sort((a, b) => a.timestamp - b.timestamp);
+  const matrixSize = promptMatrixSize(prompt);
+  const versionLabel = (item: ImageHistoryItem) => `${item.mode === 'source' ? 'Upload' : item.prompt || 'Untitled'} · ${new Date(item.timestamp).toLocaleTimeString()}`;
+
   return (
     <div className="flex flex-col h-full relative overflow-hidden">
       {/* History Sidebar */}
       <div 
-        className={`fixed inset-y-0 right-0 w-80 bg-white/95 dark:bg-slate-900/95 backdrop-blur-xl border-l border-slate-200 dark:border-slate-800 z-[60] shadow-2xl transition-transform duration-500 ease-in-out ${isHistoryOpen ? 'translate-x-0' : 'translate-x-full'}`}
+        className={`fixed inset-y-0 right-0 w-96 bg-white/95 dark:bg-slate-900/95 backdrop-blur-xl border-l border-slate-200 dark:border-slate-800 z-[60] shadow-2xl flex flex-col transition-transform duration-500 ease-in-out ${isHistoryOpen ? 'translate-x-0' : 'translate-x-full'}`}
       >
         <div className="flex items-center justify-between p-6 border-b border-slate-200 dark:border-slate-800">
           <h3 className="text-sm font-black uppercase tracking-widest flex items-center gap-2">
             <span>🕒</span> Creation History
           </h3>
+          {compareIds.length === 2 && (
+            <button
+              onClick={() => { setIsComparing(true); setIsHistoryOpen(false); }}
+              className="ml-auto mr-2 px-3 py-1.5 rounded-xl bg-[var(--primary)] text-white text-[10px] font-black uppercase tracking-widest"
+            >
+              ⇆ Compare
+            </button>
+          )}
           <button 
             onClick={() => setIsHistoryOpen(false)}
             className="p-2 hover:bg-slate-100 dark:hover:bg-slate-800 rounded-lg transition-colors"
@@ -202,40 +369,52 @@ const ImageLab: React.FC<ImageLabProps> = ({ onSelectKey, hasKey }) => {
           </button>
         </div>
         
-        <div className="h-full overflow-y-auto p-4 space-y-4 pb-24 no-scrollbar">
-          {history.length === 0 ? (
-            <div className="h-64 flex flex-col items-center justify-center text-slate-400 space-y-4">
-              <div className="text-4xl opacity-20">🎞️</div>
-              <p className="text-[10px] font-bold uppercase tracking-widest">No history yet</p>
-            </div>
-          ) : (
-            <div className="grid grid-cols-2 gap-3">
-              {history.map((item) => (
-                <div 
-                  key={item.id}
-                  onClick={() => recallFromHistory(item)}
-                  className="group relative aspect-square rounded-xl overflow-hidden border border-slate-200 dark:border-slate-800 cursor-pointer hover:border-[var(--primary)] transition-all bg-slate-100 dark:bg-slate-800 shadow-sm"
-                >
-                  <img src={item.url} className="w-full h-full object-cover" alt="History" />
-                  <div className="absolute inset-0 bg-black/60 opacity-0 group-hover:opacity-100 transition-opacity flex flex-col justify-end p-2">
-                    <p className="text-[8px] text-white font-bold line-clamp-2 leading-tight mb-1">{item.prompt}</p>
-                    <div className="flex items-center justify-between">
-                      <span className="text-[7px] text-slate-300 uppercase font-black">{item.mode}</span>
-                      <button 
-                        onClick={(e) => deleteFromHistory(e, item.id)}
-                        className="p-1 hover:text-red-400 text-slate-400"
-                      >
-                        <svg className="w-3 h-3" fill="currentColor" viewBox="0 0 24 24">
-                          <path d="M6 19c0 1.1.9 2 2 2h8c1.1 0 2-.9 2-2V7H6v12zM19 4h-3.5l-1-1h-5l-1 1H5v2h14V4z" />
-                        </svg>
-                      </button>
-                    </div>
-                  </div>
-                </div>
-              ))}
-            </div>
-          )}
+        <div className="flex justify-center p-3 border-b border-slate-200 dark:border-slate-800">
+          <div className="flex bg-slate-100 dark:bg-slate-800 p-1 rounded-xl border border-slate-200 dark:border-slate-700">
+            {(['versions', 'gallery'] as const).map(v => (
+              <button
+                key={v}
+                onClick={() => setHistoryView(v)}
+                className={`px-4 py-1.5 rounded-lg text-[10px] font-black uppercase tracking-widest transition-all ${historyView === v ? 'bg-[var(--primary)] text-white' : 'text-slate-500 hover:text-slate-900 dark:hover:text-white'}`}
+              >
+                {v === 'versions' ? '⑂ Versions' : '▦ Gallery'}
+              </button>
+            ))}
+          </div>
         </div>
+
+        {historyView === 'gallery' ? (
+          <div className="flex-1 min-h-0">
+            <ImageGallery
+              items={history}
+              activeId={resultNodeId ?? sourceNodeId}
+              onOpen={recallFromHistory}
+              onContinue={continueFrom}
+              onUpdate={updateHistoryItem}
+              onDelete={deleteFromHistory}
+              onImported={(items) => setHistory(prev => [...items, ...prev].sort((a, b) => b.timestamp - a.timestamp))}
+            />
+          </div>
+        ) : (
+          <div className="flex-1 min-h-0 overflow-y-auto p-4 space-y-4 no-scrollbar">
+            {history.length === 0 ? (
+              <div className="h-64 flex flex-col items-center justify-center text-slate-400 space-y-4">
+                <div className="text-4xl opacity-20">🎞️</div>
+                <p className="text-[10px] font-bold uppercase tracking-widest">No history yet</p>
+              </div>
+            ) : (
+              <VersionTree
+                items={history}
+                activeId={resultNodeId ?? sourceNodeId}
+                compareIds={compareIds}
+                onSelect={recallFromHistory}
+                onContinue={continueFrom}
+                onToggleCompare={toggleCompare}
+                onDelete={(id) => deleteFromHistory([id])}
+              />
+            )}
+          </div>
+        )}
       </div>
 
       {/* Preview Area */}
@@ -258,28 +437,60 @@ const ImageLab: React.FC<ImageLabProps> = ({ onSelectKey, hasKey }) => {
         </div>
 
         <div className="w-full max-w-3xl aspect-square bg-white dark:bg-slate-900 rounded-[2.5rem] border-2 border-slate-200 dark:border-slate-800 shadow-2xl flex items-center justify-center overflow-hidden relative group">
-          {isLoading ? (
+          {isLoading && variations.length === 0 ? (
             <div className="text-center animate-pulse">
               <div className="text-6xl mb-4">🎨</div>
               <p className="text-slate-400 font-black uppercase text-[10px] tracking-[0.3em]">Manifesting image...</p>
             </div>
+          ) : isComparing && compared.length === 2 ? (
+            <VersionCompare
+              before={{ url: compared[0].url, label: versionLabel(compared[0]) }}
+              after={{ url: compared[1].url, label: versionLabel(compared[1]) }}
+              onClose={() => setIsComparing(false)}
+            />
           ) : generatedImageUrl ? (
             <>
               <img src={generatedImageUrl} className="w-full h-full object-contain p-2" alt="Generated" />
               <div className="absolute inset-0 bg-black/40 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center gap-4">
                 <a href={generatedImageUrl} download="gemini-gen.png" className="bg-white text-slate-900 px-6 py-2 rounded-full font-bold text-sm hover:scale-105 transition-transform">Download</a>
+                {resultNode && (
+                  <button onClick={() => continueFrom(resultNode)} className="bg-white text-slate-900 px-6 py-2 rounded-full font-bold text-sm hover:scale-105 transition-transform">Continue Editing</button>
+                )}
+                {resultNode?.parentId !== undefined && (
+                  <button onClick={() => compareWithParent(resultNode)} className="bg-slate-900/80 text-white px-6 py-2 rounded-full font-bold text-sm hover:scale-105 transition-transform">Compare</button>
+                )}
+                {mode === 'generate' && variations.length > 0 && (
+                  <button onClick={() => setGeneratedImageUrl(null)} className="bg-slate-900/80 text-white px-6 py-2 rounded-full font-bold text-sm hover:scale-105 transition-transform">Back to Grid</button>
+                )}
+                {mode === 'edit' && sourcePreview && (
+                  <button onClick={() => setGeneratedImageUrl(null)} className="bg-slate-900/80 text-white px-6 py-2 rounded-full font-bold text-sm hover:scale-105 transition-transform">Back to Mask</button>
+                )}
               </div>
             </>
+          ) : mode === 'generate' && variations.length > 0 ? (
+            <VariationGrid
+              variations={variations}
+              selectedIds={selectedVariations}
+              onToggle={(id) => setSelectedVariations(prev => prev.includes(id) ? prev.filter(s => s !== id) : [...prev, id])}
+              onSelectAll={setSelectedVariations}
+              onView={(v) => {
+                setGeneratedImageUrl(v.url!);
+                setResultNodeId(v.savedId ?? null);
+              }}
+              onUseAsSource={useVariationAsSource}
+              onSave={saveSelectedVariations}
+              onDownload={downloadSelectedVariations}
+              onClose={() => { setVariations([]); setSelectedVariations([]); }}
+            />
           ) : mode === 'edit' && sourcePreview ? (
-             <div className="relative w-full h-full p-4">
-                <img src={sourcePreview} className="w-full h-full object-contain opacity-50 blur-sm" alt="Source Backdrop" />
-                <div className="absolute inset-0 flex items-center justify-center">
-                  <div className="bg-white dark:bg-slate-800 p-6 rounded-3xl shadow-xl border border-slate-200 dark:border-slate-700 text-center">
-                    <img src={sourcePreview} className="w-32 h-32 rounded-xl object-cover mx-auto mb-4 border-4 border-white shadow-lg" alt="Source Thumb" />
-                    <p className="text-xs font-bold dark:text-white">Ready for edits</p>
-                  </div>
-                </div>
-             </div>
+            <MaskEditor
+              src={sourcePreview}
+              ops={maskOps}
+              onChange={setMaskOps}
+              feather={feather}
+              onFeatherChange={setFeather}
+              onImageLoad={(width, height) => setSourceSize({ width, height })}
+            />
           ) : (
             <div className="text-slate-300 dark:text-slate-700 text-center select-none">
               <div className="text-8xl mb-6">✨</div>
@@ -292,5 +503,106 @@ const ImageLab: React.FC<ImageLabProps> = ({ onSelectKey, hasKey }) => {
       {/* Control Area */}
       <div className="p-4 md:p-8 bg-white/80 dark:bg-slate-900/80 backdrop-blur-2xl border-t border-slate-200 dark:border-slate-800 space-y-4 z-20">
         <div className="max-w-4xl mx-auto space-y-6">
+          <ErrorBanner error={error} onDismiss={() => setError(null)} onSelectKey={onSelectKey} onRetry={handleAction} />
           <div className="flex flex-col md:flex-row gap-4">
-            <div className="flex bg
\ No newline at end of file
+            <div className="flex bg-slate-100 dark:bg-slate-800 p-1 rounded-2xl shrink-0 border border-slate-200 dark:border-slate-700">
+              {(['generate', 'edit'] as const).map(m => (
+                <button
+                  key={m}
+                  onClick={() => setMode(m)}
+                  className={`px-6 py-2.5 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all ${
+                    mode === m ? 'bg-[var(--primary)] text-white shadow-lg' : 'text-slate-500 hover:text-slate-900 dark:hover:text-white'
+                  }`}
+                >
+                  {m === 'generate' ? '✨ Generate' : '🖌️ Edit'}
+                </button>
+              ))}
+            </div>
+
+            <div className="flex flex-1 flex-wrap gap-3 items-center">
+              {mode === 'generate' ? (
+                <>
+                  <select
+                    value={aspectRatio}
+                    onChange={(e) => setAspectRatio(e.target.value)}
+                    className="bg-slate-100 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl px-3 py-2.5 text-xs font-bold outline-none"
+                  >
+                    {['1:1', '3:4', '4:3', '9:16', '16:9'].map(r => <option key={r} value={r}>{r}</option>)}
+                  </select>
+                  <select
+                    value={imageSize}
+                    onChange={(e) => setImageSize(e.target.value)}
+                    className="bg-slate-100 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl px-3 py-2.5 text-xs font-bold outline-none"
+                  >
+                    {['1K', '2K', '4K'].map(size => <option key={size} value={size}>{size}</option>)}
+                  </select>
+                  <select
+                    value={variationsPerPrompt}
+                    onChange={(e) => setVariationsPerPrompt(Number(e.target.value))}
+                    title="Images per prompt. Write {a|b|c} in the prompt to try every option."
+                    className="bg-slate-100 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl px-3 py-2.5 text-xs font-bold outline-none"
+                  >
+                    {[1, 2, 4, 8].map(n => <option key={n} value={n}>×{n}</option>)}
+                  </select>
+                  {variationCount(prompt, variationsPerPrompt) > 1 && (
+                    <span className="text-[10px] font-black uppercase tracking-widest text-slate-500">
+                      {matrixSize > 1 && `${matrixSize} combos · `}
+                      {variationCount(prompt, variationsPerPrompt)} images
+                      {matrixSize * variationsPerPrompt > MAX_VARIATIONS && ` (max ${MAX_VARIATIONS})`}
+                    </span>
+                  )}
+                </>
+              ) : (
+                <label className="relative flex items-center gap-3 bg-slate-100 dark:bg-slate-800 border border-dashed border-slate-300 dark:border-slate-600 rounded-xl px-4 py-2 cursor-pointer hover:border-[var(--primary)] transition-all">
+                  {sourcePreview ? (
+                    <img src={sourcePreview} className="w-8 h-8 rounded-lg object-cover" alt="Source" />
+                  ) : (
+                    <span className="text-lg">📁</span>
+                  )}
+                  <span className="text-[10px] font-black uppercase tracking-widest text-slate-500">
+                    {sourceImage ? (sourceImage instanceof File ? sourceImage.name : 'Saved version') : 'Upload source image'}
+                  </span>
+                  <input type="file" accept="image/*" onChange={handleFileChange} className="absolute inset-0 opacity-0 cursor-pointer" />
+                </label>
+              )}
+              <ModelPicker slot={modelSlot} value={resolveModel(modelSlot, models)} onChange={m => onModelChange(modelSlot, m)} className="ml-auto py-2.5 rounded-xl" />
+            </div>
+          </div>
+
+          <ReferenceImages references={references} onChange={setReferences} max={MAX_REFERENCES} />
+
+          <div className="flex gap-3">
+            <div className="relative flex-1">
+              <textarea
+                value={prompt}
+                onChange={(e) => setPrompt(e.target.value)}
+                placeholder={mode === 'generate'
+                  ? references.length > 0 ? 'Describe how to combine the reference images, e.g. "put the product from image 1 on the beach from image 2"...' : 'Describe the image you want to create...'
+                  : 'Describe how to change the source image...'}
+                className="w-full bg-slate-100 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-2xl p-4 pr-14 h-24 focus:ring-2 focus:ring-[var(--primary)] outline-none resize-none text-sm"
+              />
+              <button
+                onClick={handleImprove}
+                disabled={isImproving || !prompt.trim()}
+                className={`absolute right-3 bottom-3 w-10 h-10 rounded-xl flex items-center justify-center transition-all ${isImproving ? 'animate-spin opacity-50' : 'hover:bg-[var(--primary-glow)] text-[var(--primary)]'}`}
+                title="Improve Prompt"
+              >
+                ✨
+              </button>
+            </div>
+            <button
+              onClick={handleAction}
+              disabled={isLoading || !prompt.trim()}
+              className="px-8 rounded-2xl font-black text-white text-sm uppercase tracking-widest transition-all hover:brightness-110 disabled:opacity-50 shadow-lg"
+              style={{ backgroundColor: 'var(--primary)', boxShadow: '0 4px 12px var(--primary-glow)' }}
+            >
+              {isLoading ? 'Working...' : mode === 'generate' ? (variationCount(prompt, variationsPerPrompt) > 1 ? 'Create All' : 'Create') : 'Apply'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImageLab;
@@ -1,28 +1,126 @@
 
-import React, { useState, useRef, useCallback } from 'react';
+import React, { useState, useRef, useCallback, useEffect } from 'react';
 import { GoogleGenAI, Modality, LiveServerMessage } from '@google/genai';
-import { encode, decode, decodeAudioData, getAI } from '../../services/gemini';
+import { encode, decode, decodeAudioData, getAI, resolveModel, withModelFallback, ModelPreferences, ModelSlot } from '../../services/gemini';
+import { callGemini, classifyError, GeminiError } from '../../services/errors';
+import { openVideoSource, startFrameCapture, VideoSource } from '../../services/frameCapture';
+import { startAudioCapture, AudioCapture } from '../../services/audioCapture';
+import { runToolCall, toFunctionResponse, toolDeclarations } from '../../services/tools';
+import { appendTranscription, closeUtterances, formatClock, toPlainText, LiveTranscriptEntry, SpeakerLabels, TranscriptFormat, TRANSCRIPT_FORMATS } from '../../services/liveTranscript';
+import { downloadText, fileTimestamp } from '../../services/download';
+import { SessionRecorder } from '../../services/sessionRecorder';
+import { listSessions, saveSession, deleteSession, LiveSessionRecord } from '../../services/sessions';
+import { recordUsage } from '../../services/usage';
+import ModelPicker from '../ModelPicker';
+import ErrorBanner from '../ErrorBanner';
+import ToolCallView from '../ToolCallView';
+import SessionLibrary from '../SessionLibrary';
+import MeetingReportPanel from '../MeetingReportPanel';
+
+const FRAME_RATES = [0.5, 1, 2];
+const FRAME_WIDTHS = [
+  { label: 'Low', width: 320 },
+  { label: 'Medium', width: 640 },
+  { label: 'High', width: 1024 },
+];
 
 interface LiveLabProps {
   voice: string;
   userName: string;
   onSelectKey: () => void;
+  models: ModelPreferences;
+  onModelChange: (slot: ModelSlot, model: string) => void;
 }
 
-const LiveLab: React.FC<LiveLabProps> = ({ voice, userName, onSelectKey }) => {
+const LiveLab: React.FC<LiveLabProps> = ({ voice, userName, onSelectKey, models, onModelChange }) => {
   const [isActive, setIsActive] = useState(false);
-  const [transcription, setTranscription] = useState<string[]>([]);
+  const [transcription, setTranscription] = useState<LiveTranscriptEntry[]>([]);
+  const [sessionStartedAt, setSessionStartedAt] = useState<number | null>(null);
   const [isConnecting, setIsConnecting] = useState(false);
-  const [authError, setAuthError] = useState(false);
+  const [error, setError] = useState<GeminiError | null>(null);
+  const [videoSource, setVideoSource] = useState<VideoSource | null>(null);
+  const [isVideoPaused, setIsVideoPaused] = useState(false);
+  const [frameRate, setFrameRate] = useState(1);
+  const [frameWidth, setFrameWidth] = useState(640);
+  const [isRecordingEnabled, setIsRecordingEnabled] = useState(false);
+  const [sessions, setSessions] = useState<LiveSessionRecord[]>([]);
   
-  const audioContextRef = useRef<AudioContext | null>(null);
+  const audioCaptureRef = useRef<AudioCapture | null>(null);
+  const micStreamRef = useRef<MediaStream | null>(null);
   const outputAudioContextRef = useRef<AudioContext | null>(null);
   const sessionRef = useRef<any>(null);
   const nextStartTimeRef = useRef(0);
   const sourcesRef = useRef<Set<AudioBufferSourceNode>>(new Set());
   
+  const videoStreamRef = useRef<MediaStream | null>(null);
+  const videoElRef = useRef<HTMLVideoElement>(null);
+  const isVideoPausedRef = useRef(false);
+  
   // Guard to ensure stop logic only runs once per session
   const isStoppingRef = useRef(false);
+  // Transcript timestamps are relative to this
+  const sessionStartRef = useRef(0);
+  const elapsed = () => Date.now() - sessionStartRef.current;
+  const speakerLabels: SpeakerLabels = { user: userName || 'You', model: 'Gemini' };
+
+  const recorderRef = useRef<SessionRecorder | null>(null);
+  // Output context time at session start, to place model audio on the recording timeline
+  const outputStartRef = useRef(0);
+  const sessionModelRef = useRef('');
+  const transcriptRef = useRef<LiveTranscriptEntry[]>([]);
+
+  useEffect(() => {
+    transcriptRef.current = transcription;
+  }, [transcription]);
+
+  useEffect(() => {
+    listSessions()
+      .then(setSessions)
+      .catch(err => console.error("Failed to load recorded sessions from IndexedDB", err));
+  }, []);
+
+  const stopVideo = useCallback(() => {
+    videoStreamRef.current?.getTracks().forEach(track => track.stop());
+    videoStreamRef.current = null;
+    setVideoSource(null);
+  }, []);
+
+  const startVideo = async (source: VideoSource) => {
+    stopVideo();
+    try {
+      const stream = await openVideoSource(source, frameWidth);
+      // The browser's own "Stop sharing" button ends the track without telling us otherwise
+      stream.getVideoTracks()[0]?.addEventListener('ended', stopVideo);
+      videoStreamRef.current = stream;
+      setVideoSource(source);
+    } catch (err) {
+      console.error("Video capture failed:", err);
+      if ((err as any)?.name !== 'AbortError') setError(classifyError(err));
+    }
+  };
+
+  const toggleVideoPause = () => {
+    isVideoPausedRef.current = !isVideoPausedRef.current;
+    setIsVideoPaused(isVideoPausedRef.current);
+  };
+
+  useEffect(() => {
+    const video = videoElRef.current;
+    if (!videoSource || !video || !videoStreamRef.current) return;
+    video.srcObject = videoStreamRef.current;
+    video.play().catch(() => {});
+
+    return startFrameCapture(video, {
+      fps: frameRate,
+      maxWidth: frameWidth,
+      onFrame: (data) => {
+        if (isStoppingRef.current || isVideoPausedRef.current || !sessionRef.current) return;
+        sessionRef.current.sendRealtimeInput({ media: { data, mimeType: 'image/jpeg' } });
+      },
+    });
+  }, [videoSource, frameRate, frameWidth]);
+
+  useEffect(() => stopVideo, [stopVideo]);
 
   const stopSession = useCallback(() => {
     // If we're not active or already stopping, do nothing
@@ -40,141 +138,217 @@ const LiveLab: React.FC<LiveLabProps> = ({ voice, userName, onSelectKey }) => {
       sessionRef.current = null;
     }
 
-    setTranscription(prev => {
+    const endTranscript = (prev: LiveTranscriptEntry[]): LiveTranscriptEntry[] => {
       // Extra safety check: only add if the last message wasn't already a session end
-      if (prev.length > 0 && prev[prev.length - 1] === "[Session Ended]") return prev;
-      return [...prev, "[Session Ended]"];
-    });
+      const last = prev[prev.length - 1];
+      if (last?.kind === 'event' && last.text === 'Session Ended') return prev;
+      return [...closeUtterances(prev), { kind: 'event', text: 'Session Ended', atMs: elapsed() }];
+    };
+    setTranscription(endTranscript);
+
+    const recorder = recorderRef.current;
+    recorderRef.current = null;
+    if (recorder && outputAudioContextRef.current) {
+      recorder.cutModelAudio(outputAudioContextRef.current.currentTime - outputStartRef.current);
+      if (!recorder.isEmpty) {
+        const record: LiveSessionRecord = {
+          id: crypto.randomUUID(),
+          title: `Session ${new Date(sessionStartRef.current).toLocaleString()}`,
+          model: sessionModelRef.current,
+          voice,
+          startedAt: sessionStartRef.current,
+          durationMs: elapsed(),
+          audio: recorder.toTwoTrackWav(),
+          transcript: endTranscript(transcriptRef.current),
+        };
+        setSessions(prev => [record, ...prev]);
+        saveSession(record).catch(err => console.error("Failed to save recorded session", err));
+      }
+    }
     
     sourcesRef.current.forEach(source => {
       try { source.stop(); } catch (e) {}
     });
     sourcesRef.current.clear();
+    stopVideo();
+
+    audioCaptureRef.current?.stop().catch(e => console.warn("Error stopping audio capture:", e));
+    audioCaptureRef.current = null;
+    micStreamRef.current?.getTracks().forEach(track => track.stop());
+    micStreamRef.current = null;
+    // Each session opens its own output context, so it goes with the session
+    outputAudioContextRef.current?.close().catch(e => console.warn("Error closing output audio context:", e));
+    outputAudioContextRef.current = null;
+    nextStartTimeRef.current = 0;
+  }, [stopVideo, voice]);
+
+  // Leaving the lab ends a running session. stopSession changes with the video settings, which
+  // can be adjusted mid-session, so the latest one is called from a ref on unmount only.
+  const stopSessionRef = useRef(stopSession);
+  stopSessionRef.current = stopSession;
+  useEffect(() => () => {
+    if (sessionRef.current || micStreamRef.current) stopSessionRef.current();
   }, []);
 
   const startSession = async () => {
     try {
-      setAuthError(false);
+      setError(null);
       setIsConnecting(true);
       isStoppingRef.current = false;
       const ai = getAI();
       const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      micStreamRef.current = stream;
       
-      audioContextRef.current = new (window.AudioContext || window.webkitAudioContext)({ sampleRate: 16000 });
       outputAudioContextRef.current = new (window.AudioContext || window.webkitAudioContext)({ sampleRate: 24000 });
 
-      const sessionPromise = ai.live.connect({
-        model: 'gemini-2.5-flash-native-audio-preview-12-2025',
-        callbacks: {
-          onopen: () => {
-            setIsConnecting(false);
-            setIsActive(true);
-            setTranscription(prev => [...prev, "[Connection Established]"]);
-            
-            const source = audioContextRef.current!.createMediaStreamSource(stream);
-            const scriptProcessor = audioContextRef.current!.createScriptProcessor(4096, 1, 1);
-            
-            scriptProcessor.onaudioprocess = (e) => {
-              const inputData = e.inputBuffer.getChannelData(0);
-              const l = inputData.length;
-              const int16 = new Int16Array(l);
-              for (let i = 0; i < l; i++) {
-                int16[i] = inputData[i] * 32768;
+      const sessionPromise = callGemini(() => withModelFallback(resolveModel('live', models), model => {
+        sessionModelRef.current = model;
+        return ai.live.connect({
+          model,
+          callbacks: {
+            onopen: async () => {
+              setIsConnecting(false);
+              setIsActive(true);
+              // Each session starts a fresh transcript so its timestamps line up
+              sessionStartRef.current = Date.now();
+              setSessionStartedAt(sessionStartRef.current);
+              setTranscription([{ kind: 'event', text: 'Connection Established', atMs: 0 }]);
+              if (isRecordingEnabled) {
+                recorderRef.current = new SessionRecorder();
+                outputStartRef.current = outputAudioContextRef.current!.currentTime;
               }
-              const pcmBlob = {
-                data: encode(new Uint8Array(int16.buffer)),
-                mimeType: 'audio/pcm;rate=16000',
-              };
               
-              sessionPromise.then(session => {
-                // Only send if we haven't started stopping
-                if (!isStoppingRef.current) {
-                  session.sendRealtimeInput({ media: pcmBlob });
-                }
-              });
-            };
-            
-            source.connect(scriptProcessor);
-            scriptProcessor.connect(audioContextRef.current!.destination);
-          },
-          onmessage: async (message: LiveServerMessage) => {
-            if (isStoppingRef.current) return;
+              try {
+                const capture = await startAudioCapture(stream, {
+                  targetRate: 16000,
+                  onChunk: (pcm) => {
+                    recorderRef.current?.addMicChunk(pcm, 16000, elapsed() / 1000);
+                    const pcmBlob = {
+                      data: encode(new Uint8Array(pcm.buffer, pcm.byteOffset, pcm.byteLength)),
+                      mimeType: 'audio/pcm;rate=16000',
+                    };
+                    
+                    sessionPromise.then(session => {
+                      // Only send if we haven't started stopping
+                      if (!isStoppingRef.current) {
+                        session.sendRealtimeInput({ media: pcmBlob });
+                      }
+                    });
+                  },
+                });
+                // The session may have ended while the worklet was loading
+                if (isStoppingRef.current) capture.stop();
+                else audioCaptureRef.current = capture;
+              } catch (err) {
+                console.error("Audio capture failed:", err);
+                setError(classifyError(err));
+                stopSession();
+              }
+            },
+            onmessage: async (message: LiveServerMessage) => {
+              // Live sessions bypass callGemini's per-response tracking, so usage is recorded as it arrives
+              if (message.usageMetadata) recordUsage(message.usageMetadata, sessionModelRef.current);
+              if (isStoppingRef.current) return;
 
-            if (message.serverContent?.outputTranscription) {
-              const text = message.serverContent.outputTranscription.text;
-              setTranscription(prev => [...prev, `AI: ${text}`]);
-            }
+              const functionCalls = message.toolCall?.functionCalls;
+              if (functionCalls?.length) {
+                const results = await Promise.all(functionCalls.map(runToolCall));
+                if (isStoppingRef.current) return;
+                const atMs = elapsed();
+                setTranscription(prev => [...prev, ...results.map(invocation => ({ kind: 'tool' as const, invocation, atMs }))]);
+                const session = await sessionPromise;
+                session.sendToolResponse({ functionResponses: results.map(toFunctionResponse) });
+              }
 
-            const base64Audio = message.serverContent?.modelTurn?.parts[0]?.inlineData?.data;
-            if (base64Audio) {
-              const ctx = outputAudioContextRef.current!;
-              nextStartTimeRef.current = Math.max(nextStartTimeRef.current, ctx.currentTime);
-              
-              const audioBuffer = await decodeAudioData(decode(base64Audio), ctx, 24000, 1);
-              const source = ctx.createBufferSource();
-              source.buffer = audioBuffer;
-              source.connect(ctx.destination);
-              source.addEventListener('ended', () => sourcesRef.current.delete(source));
-              source.start(nextStartTimeRef.current);
-              nextStartTimeRef.current += audioBuffer.duration;
-              sourcesRef.current.add(source);
-            }
+              const content = message.serverContent;
+              const inputText = content?.inputTranscription?.text;
+              if (inputText) setTranscription(prev => appendTranscription(prev, 'user', inputText, elapsed()));
+              const outputText = content?.outputTranscription?.text;
+              if (outputText) setTranscription(prev => appendTranscription(prev, 'model', outputText, elapsed()));
 
-            if (message.serverContent?.interrupted) {
-              sourcesRef.current.forEach(s => { try { s.stop(); } catch(e) {} });
-              sourcesRef.current.clear();
-              nextStartTimeRef.current = 0;
-            }
+              const base64Audio = message.serverContent?.modelTurn?.parts[0]?.inlineData?.data;
+              // Audio that arrives after the session stopped has no context left to play in
+              const ctx = outputAudioContextRef.current;
+              if (base64Audio && ctx) {
+                nextStartTimeRef.current = Math.max(nextStartTimeRef.current, ctx.currentTime);
+                
+                const bytes = decode(base64Audio);
+                const audioBuffer = await decodeAudioData(bytes, ctx, 24000, 1);
+                recorderRef.current?.addModelAudio(new Int16Array(bytes.buffer), nextStartTimeRef.current - outputStartRef.current);
+                const source = ctx.createBufferSource();
+                source.buffer = audioBuffer;
+                source.connect(ctx.destination);
+                source.addEventListener('ended', () => sourcesRef.current.delete(source));
+                source.start(nextStartTimeRef.current);
+                nextStartTimeRef.current += audioBuffer.duration;
+                sourcesRef.current.add(source);
+              }
+
+              if (message.serverContent?.interrupted) {
+                if (ctx) recorderRef.current?.cutModelAudio(ctx.currentTime - outputStartRef.current);
+                sourcesRef.current.forEach(s => { try { s.stop(); } catch(e) {} });
+                sourcesRef.current.clear();
+                nextStartTimeRef.current = 0;
+                setTranscription(prev => closeUtterances(prev, { interrupted: true }));
+              }
+
+              if (content?.turnComplete) {
+                setTranscription(prev => closeUtterances(prev));
+              }
+            },
+            onerror: (e: any) => {
+              console.error("Live session error:", e);
+              setError(classifyError(e));
+              stopSession();
+            },
+            onclose: () => stopSession(),
           },
-          onerror: (e: any) => {
-            console.error("Live session error:", e);
-            if (e?.message?.includes('403') || e?.message?.toLowerCase().includes('permission')) {
-              setAuthError(true);
+          config: {
+            responseModalities: [Modality.AUDIO],
+            inputAudioTranscription: {},
+            outputAudioTranscription: {},
+            tools: toolDeclarations(),
+            systemInstruction: `You are a helpful AI assistant. The user's name is ${userName}. Keep responses concise and natural.`,
+            speechConfig: {
+              voiceConfig: { prebuiltVoiceConfig: { voiceName: voice as any } }
             }
-            stopSession();
-          },
-          onclose: () => stopSession(),
-        },
-        config: {
-          responseModalities: [Modality.AUDIO],
-          outputAudioTranscription: {},
-          systemInstruction: `You are a helpful AI assistant. The user's name is ${userName}. Keep responses concise and natural.`,
-          speechConfig: {
-            voiceConfig: { prebuiltVoiceConfig: { voiceName: voice as any } }
           }
-        }
-      });
+        });
+      }));
 
-      sessionRef.current = await sessionPromise;
+      const session = await sessionPromise;
+      // Stopped (or left the lab) while connecting: nothing is left to use the socket
+      if (isStoppingRef.current) {
+        session.close?.();
+        return;
+      }
+      sessionRef.current = session;
     } catch (err: any) {
       console.error("Connection failed:", err);
-      if (err?.message?.includes('403') || err?.message?.toLowerCase().includes('permission')) {
-        setAuthError(true);
-      }
+      setError(classifyError(err));
       setIsConnecting(false);
+      // Releases the microphone and output audio context opened before the connect failed
+      stopSession();
+    }
+  };
+
+  const handleDeleteSession = async (session: LiveSessionRecord) => {
+    setSessions(prev => prev.filter(s => s.id !== session.id));
+    try {
+      await deleteSession(session.id);
+    } catch (err) {
+      console.error("Failed to delete recorded session", err);
     }
   };
 
+  const handleExport = (format: TranscriptFormat) => {
+    const content = format.build(transcription, speakerLabels, sessionStartedAt ?? undefined);
+    downloadText(content, `live-transcript-${fileTimestamp(new Date(sessionStartedAt ?? Date.now()))}.${format.extension}`, format.mimeType);
+  };
+
   return (
     <div className="p-8 max-w-4xl mx-auto animate-fadeIn relative">
-      {authError && (
-        <div className="absolute inset-0 z-50 bg-slate-950/80 backdrop-blur-md rounded-3xl flex items-center justify-center p-8 text-center border border-red-500/30">
-          <div className="max-w-md space-y-6">
-            <div className="text-6xl">🔒</div>
-            <h3 className="text-2xl font-bold text-red-400">Permission Denied (403)</h3>
-            <p className="text-slate-400 leading-relaxed">
-              The Live API requires a Gemini API key from a project with billing enabled. 
-              Please select a valid paid project key to continue.
-            </p>
-            <button
-              onClick={() => { setAuthError(false); onSelectKey(); }}
-              className="bg-red-500 hover:bg-red-600 px-8 py-3 rounded-xl font-bold transition-all shadow-lg shadow-red-900/40"
-            >
-              Select Premium API Key
-            </button>
-          </div>
-        </div>
-      )}
+      <ErrorBanner error={error} onDismiss={() => setError(null)} onSelectKey={onSelectKey} onRetry={startSession} className="mb-6" />
 
       <div className="bg-slate-800/50 rounded-3xl p-8 border border-slate-700 shadow-xl">
         <div className="flex justify-between items-center mb-8">
@@ -182,6 +356,7 @@ const LiveLab: React.FC<LiveLabProps> = ({ voice, userName, onSelectKey }) => {
             <h2 className="text-2xl font-bold mb-2">Live Voice Chat</h2>
             <p className="text-slate-400">Talking to you with the <span className="text-indigo-400 font-bold">{voice}</span> voice.</p>
           </div>
+          <ModelPicker slot="live" value={resolveModel('live', models)} onChange={m => onModelChange('live', m)} className="ml-auto mr-4" />
           <button
             onClick={isActive ? stopSession : startSession}
             disabled={isConnecting}
@@ -194,30 +369,141 @@ const LiveLab: React.FC<LiveLabProps> = ({ voice, userName, onSelectKey }) => {
           </button>
         </div>
 
-        <div className="h-96 overflow-y-auto bg-slate-900/50 rounded-2xl p-6 border border-slate-800 space-y-4">
-          {transcription.length === 0 && (
-            <div className="flex flex-col items-center justify-center h-full text-slate-500">
-              <span className="text-4xl mb-4">🎤</span>
-              <p>Welcome, {userName}. Say hello!</p>
+        <div className="flex flex-wrap items-center gap-3 mb-4">
+          <div className="flex bg-slate-900 p-1 rounded-xl border border-slate-700">
+            {([null, 'camera', 'screen'] as const).map(source => (
+              <button
+                key={source ?? 'off'}
+                onClick={() => source ? startVideo(source) : stopVideo()}
+                className={`px-4 py-1.5 rounded-lg text-xs font-bold transition-all ${
+                  videoSource === source ? 'bg-[var(--primary)] text-white' : 'text-slate-400 hover:text-white'
+                }`}
+              >
+                {source === 'camera' ? '📷 Camera' : source === 'screen' ? '🖥️ Screen' : 'Audio Only'}
+              </button>
+            ))}
+          </div>
+          <select
+            value={frameRate}
+            onChange={(e) => setFrameRate(Number(e.target.value))}
+            className="bg-slate-900 border border-slate-700 rounded-lg px-2 py-1.5 text-[11px] font-bold text-slate-300 outline-none"
+            title="Frames sent per second"
+          >
+            {FRAME_RATES.map(fps => <option key={fps} value={fps}>{fps} fps</option>)}
+          </select>
+          <select
+            value={frameWidth}
+            onChange={(e) => setFrameWidth(Number(e.target.value))}
+            className="bg-slate-900 border border-slate-700 rounded-lg px-2 py-1.5 text-[11px] font-bold text-slate-300 outline-none"
+            title="Frame resolution"
+          >
+            {FRAME_WIDTHS.map(r => <option key={r.width} value={r.width}>{r.label} ({r.width}px)</option>)}
+          </select>
+          <button
+            onClick={() => setIsRecordingEnabled(v => !v)}
+            disabled={isActive || isConnecting}
+            className={`ml-auto px-3 py-1.5 rounded-lg border text-[11px] font-bold transition-all disabled:opacity-50 ${
+              isRecordingEnabled ? 'border-red-500/60 text-red-400' : 'border-slate-700 text-slate-400 hover:text-white'
+            }`}
+            title="Save the conversation audio and transcript when the session ends"
+          >
+            <span className={`inline-block w-2 h-2 rounded-full mr-1.5 ${isRecordingEnabled ? 'bg-red-500' : 'bg-slate-600'} ${isRecordingEnabled && isActive ? 'animate-pulse' : ''}`} />
+            {isRecordingEnabled ? (isActive ? 'Recording' : 'Record On') : 'Record Off'}
+          </button>
+        </div>
+
+        <div className="relative">
+          {videoSource && (
+            <div className="absolute top-3 right-3 z-10 w-48 rounded-xl overflow-hidden border border-slate-700 shadow-2xl bg-black">
+              <video ref={videoElRef} muted playsInline className={`w-full aspect-video object-cover ${isVideoPaused ? 'opacity-30 grayscale' : ''}`} />
+              <div className="absolute bottom-0 inset-x-0 flex items-center justify-between px-2 py-1 bg-black/60">
+                <span className="text-[9px] font-black uppercase tracking-widest text-slate-300 flex items-center gap-1">
+                  <span className={`w-1.5 h-1.5 rounded-full ${isActive && !isVideoPaused ? 'bg-red-500 animate-pulse' : 'bg-slate-500'}`} />
+                  {isVideoPaused ? 'Paused' : isActive ? 'Streaming' : 'Preview'}
+                </span>
+                <button onClick={toggleVideoPause} className="text-[10px] text-white hover:text-[var(--primary)]" title={isVideoPaused ? 'Resume video' : 'Pause video'}>
+                  {isVideoPaused ? '▶️' : '⏸️'}
+                </button>
+              </div>
             </div>
           )}
-          {transcription.map((line, i) => (
-            <div 
-              key={i} 
-              className={`p-3 rounded-lg transition-all duration-500 ${
-                line.startsWith('AI:') ? 'text-white ml-8 border' : 'bg-slate-800 text-slate-100 mr-8 border-transparent'
-              }`}
-              style={line.startsWith('AI:') ? { 
-                backgroundColor: 'var(--primary-glow)',
-                borderColor: 'var(--primary)',
-                boxShadow: 'inset 0 0 20px var(--primary-glow)'
-              } : {}}
-            >
-              {line}
+          <div className="flex items-center justify-between mb-2">
+            <span className="text-[10px] font-black uppercase tracking-widest text-slate-500">Transcript</span>
+            <div className="flex gap-1">
+              {TRANSCRIPT_FORMATS.map(f => (
+                <button
+                  key={f.extension}
+                  onClick={() => handleExport(f)}
+                  disabled={!transcription.some(e => e.kind === 'utterance')}
+                  className="px-2 py-1 rounded-lg border border-slate-700 text-[10px] font-bold text-slate-400 hover:text-white disabled:opacity-40 transition-all"
+                  title={`Download transcript as .${f.extension}`}
+                >
+                  ⬇ {f.label}
+                </button>
+              ))}
             </div>
-          ))}
+          </div>
+          <div className="h-96 overflow-y-auto bg-slate-900/50 rounded-2xl p-6 border border-slate-800 space-y-4">
+            {transcription.length === 0 && (
+              <div className="flex flex-col items-center justify-center h-full text-slate-500">
+                <span className="text-4xl mb-4">🎤</span>
+                <p>Welcome, {userName}. Say hello!</p>
+              </div>
+            )}
+            {transcription.map((entry, i) => entry.kind === 'event' ? (
+              <p key={i} className="text-center text-[10px] font-black uppercase tracking-widest text-slate-500">
+                {entry.text} · {formatClock(entry.atMs)}
+              </p>
+            ) : entry.kind === 'tool' ? (
+              <ToolCallView key={i} invocation={entry.invocation} className="ml-8" />
+            ) : (
+              <div 
+                key={i} 
+                className={`p-3 rounded-lg transition-all duration-500 ${
+                  entry.speaker === 'model' ? 'text-white ml-8 border' : 'bg-slate-800 text-slate-100 mr-8 border-transparent'
+                }`}
+                style={entry.speaker === 'model' ? { 
+                  backgroundColor: 'var(--primary-glow)',
+                  borderColor: 'var(--primary)',
+                  boxShadow: 'inset 0 0 20px var(--primary-glow)'
+                } : {}}
+              >
+                <div className="flex items-center gap-2 mb-1 text-[10px] font-black uppercase tracking-widest opacity-60">
+                  <span>{speakerLabels[entry.speaker]}</span>
+                  <span className="font-mono">{formatClock(entry.startMs)}</span>
+                  {entry.interrupted && <span className="text-amber-400">Interrupted</span>}
+                </div>
+                {entry.text.trim()}
+                {entry.open && <span className="inline-block w-1.5 h-3.5 ml-1 align-middle bg-current opacity-50 animate-pulse" />}
+              </div>
+            ))}
+          </div>
         </div>
       </div>
+
+      {!isActive && transcription.some(e => e.kind === 'utterance') && (
+        <MeetingReportPanel
+          key={sessionStartedAt ?? undefined}
+          transcript={toPlainText(transcription, speakerLabels)}
+          title={`Live session ${new Date(sessionStartedAt ?? Date.now()).toLocaleDateString()}`}
+          models={models}
+          onModelChange={onModelChange}
+          onSelectKey={onSelectKey}
+          className="mt-8"
+        />
+      )}
+
+      {sessions.length > 0 && (
+        <SessionLibrary
+          sessions={sessions}
+          labels={speakerLabels}
+          onDelete={handleDeleteSession}
+          models={models}
+          onModelChange={onModelChange}
+          onSelectKey={onSelectKey}
+          className="mt-8"
+        />
+      )}
     </div>
   );
 };
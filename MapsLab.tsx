@@ -1,13 +1,24 @@
 
 import React, { useState } from 'react';
-import { getAI, improvePrompt } from '../../services/gemini';
+import { getAI, improvePrompt, resolveModel, withModelFallback, ModelPreferences, ModelSlot } from '../../services/gemini';
+import MarkdownView from '../MarkdownView';
+import { callGemini, classifyError, GeminiError } from '../../services/errors';
+import ModelPicker from '../ModelPicker';
+import ErrorBanner from '../ErrorBanner';
 
-const MapsLab: React.FC = () => {
+interface MapsLabProps {
+  onSelectKey: () => void;
+  models: ModelPreferences;
+  onModelChange: (slot: ModelSlot, model: string) => void;
+}
+
+const MapsLab: React.FC<MapsLabProps> = ({ onSelectKey, models, onModelChange }) => {
   const [query, setQuery] = useState('');
   const [result, setResult] = useState<string | null>(null);
   const [places, setPlaces] = useState<any[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [isImproving, setIsImproving] = useState(false);
+  const [error, setError] = useState<GeminiError | null>(null);
 
   const handleImprove = async () => {
     if (!query.trim() || isImproving) return;
@@ -22,6 +33,7 @@ const MapsLab: React.FC = () => {
     setIsLoading(true);
     setResult(null);
     setPlaces([]);
+    setError(null);
 
     try {
       const ai = getAI();
@@ -34,8 +46,9 @@ const MapsLab: React.FC = () => {
         location = { latitude: pos.coords.latitude, longitude: pos.coords.longitude };
       } catch (e) { console.warn("Location permission denied."); }
 
-      const response = await ai.models.generateContent({
-        model: "gemini-2.5-flash",
+      const requested = resolveModel('maps', models);
+      const response = await callGemini(() => withModelFallback(requested, model => ai.models.generateContent({
+        model,
         contents: query,
         config: {
           tools: [{ googleMaps: {} }],
@@ -43,7 +56,7 @@ const MapsLab: React.FC = () => {
             retrievalConfig: { latLng: location }
           } : undefined
         },
-      });
+      })), { model: requested });
 
       setResult(response.text || "No response text.");
       const chunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks;
@@ -52,7 +65,7 @@ const MapsLab: React.FC = () => {
       }
     } catch (err) {
       console.error(err);
-      setResult("Error during discovery.");
+      setError(classifyError(err));
     } finally {
       setIsLoading(false);
     }
@@ -61,7 +74,10 @@ const MapsLab: React.FC = () => {
   return (
     <div className="p-8 max-w-5xl mx-auto space-y-8">
       <div className="bg-slate-800/50 rounded-3xl p-8 border border-slate-700 shadow-xl">
-        <h2 className="text-2xl font-bold mb-4">Places & Maps Grounding</h2>
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-2xl font-bold">Places & Maps Grounding</h2>
+          <ModelPicker slot="maps" value={resolveModel('maps', models)} onChange={m => onModelChange('maps', m)} />
+        </div>
         <div className="flex gap-4">
           <div className="relative flex-1">
             <input
@@ -91,13 +107,13 @@ const MapsLab: React.FC = () => {
         </div>
       </div>
 
+      <ErrorBanner error={error} onDismiss={() => setError(null)} onSelectKey={onSelectKey} onRetry={handleDiscovery} />
+
       {result && (
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
           <div className="lg:col-span-2 bg-slate-800/30 rounded-3xl p-8 border border-slate-800">
             <h3 className="text-sm font-semibold text-slate-400 uppercase tracking-wider mb-4">Travel Guide</h3>
-            <div className="prose prose-invert max-w-none whitespace-pre-wrap leading-relaxed">
-              {result}
-            </div>
+            <MarkdownView content={result} className="leading-relaxed" />
           </div>
           
           <div className="bg-slate-900/50 rounded-3xl p-6 border border-slate-800 h-fit">
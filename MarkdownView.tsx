@@ -0,0 +1,111 @@
+import React, { useRef, useState, useMemo } from 'react';
+import ReactMarkdown, { Components } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import remarkMath from 'remark-math';
+import rehypeKatex from 'rehype-katex';
+import rehypeHighlight from 'rehype-highlight';
+
+interface MarkdownViewProps {
+  content: string;
+  className?: string;
+  // In-page links such as "#cite-2" are handed to this instead of navigating
+  onAnchorClick?: (anchor: string) => void;
+}
+
+// While a response is still streaming, a code fence or display-math block may be open.
+// Closing it temporarily keeps the rest of the message from being swallowed into it.
+export function closeOpenBlocks(text: string): string {
+  let result = text;
+  const fences = result.match(/^[ \t]*```/gm)?.length ?? 0;
+  if (fences % 2 === 1) result += '\n```';
+  const displayMath = result.replace(/```[\s\S]*?```/g, '').match(/\$\$/g)?.length ?? 0;
+  if (displayMath % 2 === 1) result += '\n$$';
+  return result;
+}
+
+const CodeBlock: React.FC<{ children?: React.ReactNode }> = ({ children }) => {
+  const preRef = useRef<HTMLPreElement>(null);
+  const [copied, setCopied] = useState(false);
+  const codeClass = React.isValidElement<{ className?: string }>(children) ? children.props.className : undefined;
+  const language = codeClass?.match(/language-(\S+)/)?.[1];
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(preRef.current?.innerText ?? '');
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    } catch (err) {
+      console.error("Failed to copy code:", err);
+    }
+  };
+
+  return (
+    <div className="relative group my-4 rounded-xl overflow-hidden border border-slate-700 bg-[#0d1117]">
+      <div className="flex items-center justify-between px-4 py-1.5 bg-slate-800/80 border-b border-slate-700">
+        <span className="text-[9px] font-black uppercase tracking-widest text-slate-400">{language || 'code'}</span>
+        <button
+          type="button"
+          onClick={handleCopy}
+          className="text-[9px] font-black uppercase tracking-widest text-slate-400 hover:text-white transition-colors"
+        >
+          {copied ? 'Copied ✓' : 'Copy'}
+        </button>
+      </div>
+      <pre ref={preRef} className="overflow-x-auto p-4 text-xs leading-relaxed text-slate-100 font-mono">{children}</pre>
+    </div>
+  );
+};
+
+const ExternalLink: React.FC<{ href?: string; children?: React.ReactNode }> = ({ href, children }) => (
+  <a href={href} target="_blank" rel="noopener noreferrer" className="text-[var(--primary)] underline underline-offset-2 hover:brightness-125">{children}</a>
+);
+
+const components: Components = {
+  pre: ({ children }) => <CodeBlock>{children}</CodeBlock>,
+  h1: ({ children }) => <h1 className="text-2xl font-bold mt-6 mb-3">{children}</h1>,
+  h2: ({ children }) => <h2 className="text-xl font-bold mt-5 mb-3">{children}</h2>,
+  h3: ({ children }) => <h3 className="text-lg font-bold mt-4 mb-2">{children}</h3>,
+  p: ({ children }) => <p className="my-2 leading-relaxed">{children}</p>,
+  ul: ({ children }) => <ul className="list-disc pl-6 my-2 space-y-1">{children}</ul>,
+  ol: ({ children }) => <ol className="list-decimal pl-6 my-2 space-y-1">{children}</ol>,
+  blockquote: ({ children }) => <blockquote className="border-l-4 border-[var(--primary)] pl-4 my-3 opacity-80 italic">{children}</blockquote>,
+  a: ({ href, children }) => <ExternalLink href={href}>{children}</ExternalLink>,
+  table: ({ children }) => (
+    <div className="my-4 overflow-x-auto rounded-xl border border-slate-500/30">
+      <table className="w-full text-sm border-collapse">{children}</table>
+    </div>
+  ),
+  th: ({ children, style }) => <th style={style} className="px-3 py-2 text-left font-bold bg-slate-500/10 border-b border-slate-500/30">{children}</th>,
+  td: ({ children, style }) => <td style={style} className="px-3 py-2 border-b border-slate-500/20">{children}</td>,
+  hr: () => <hr className="my-6 border-slate-500/30" />,
+};
+
+// Raw HTML in model output is never rendered; react-markdown escapes it and strips unsafe URLs.
+const MarkdownView: React.FC<MarkdownViewProps> = ({ content, className = '', onAnchorClick }) => {
+  const activeComponents = useMemo<Components>(() => onAnchorClick ? {
+    ...components,
+    a: ({ href, children }) => href?.startsWith('#') ? (
+      <button
+        type="button"
+        onClick={() => onAnchorClick(href.slice(1))}
+        className="text-[0.8em] font-bold text-[var(--primary)] align-super hover:brightness-125"
+      >
+        {children}
+      </button>
+    ) : <ExternalLink href={href}>{children}</ExternalLink>,
+  } : components, [onAnchorClick]);
+
+  return (
+    <div className={`break-words [&_:not(pre)>code]:px-1.5 [&_:not(pre)>code]:py-0.5 [&_:not(pre)>code]:rounded-md [&_:not(pre)>code]:bg-slate-500/20 [&_:not(pre)>code]:font-mono [&_:not(pre)>code]:text-[0.9em] ${className}`}>
+      <ReactMarkdown
+        remarkPlugins={[remarkGfm, remarkMath]}
+        rehypePlugins={[rehypeKatex, rehypeHighlight]}
+        components={activeComponents}
+      >
+        {closeOpenBlocks(content)}
+      </ReactMarkdown>
+    </div>
+  );
+};
+
+export default MarkdownView;
@@ -0,0 +1,175 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { drawMaskOps, MaskOp, MaskTool, Point } from '../services/imageMask';
+
+interface MaskEditorProps {
+  src: string;
+  ops: MaskOp[];
+  onChange: (ops: MaskOp[]) => void;
+  feather: number;
+  onFeatherChange: (feather: number) => void;
+  // Natural size of the source image, reported once it loads
+  onImageLoad?: (width: number, height: number) => void;
+}
+
+const TOOLS: { id: MaskTool; icon: string; label: string }[] = [
+  { id: 'brush', icon: '🖌️', label: 'Brush' },
+  { id: 'eraser', icon: '🧽', label: 'Eraser' },
+  { id: 'rect', icon: '▭', label: 'Rectangle' },
+  { id: 'lasso', icon: '➰', label: 'Lasso' },
+];
+
+// Paints an edit mask over the source image. Rectangle and lasso subtract while Alt is held.
+const MaskEditor: React.FC<MaskEditorProps> = ({ src, ops, onChange, feather, onFeatherChange, onImageLoad }) => {
+  const [tool, setTool] = useState<MaskTool>('brush');
+  const [brushSize, setBrushSize] = useState(40);
+  const [size, setSize] = useState<{ width: number; height: number } | null>(null);
+  const [draft, setDraft] = useState<MaskOp | null>(null);
+  const [redo, setRedo] = useState<MaskOp[]>([]);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  // Brush size is set in displayed pixels so it feels the same on any image size
+  const scaleToImage = () => {
+    const canvas = canvasRef.current;
+    return canvas && size ? size.width / canvas.getBoundingClientRect().width : 1;
+  };
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx || !size) return;
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    drawMaskOps(ctx, draft ? [...ops, draft] : ops);
+    // Tint the white mask so the image stays visible underneath
+    ctx.save();
+    ctx.globalCompositeOperation = 'source-in';
+    ctx.fillStyle = getComputedStyle(document.documentElement).getPropertyValue('--primary').trim() || '#6366f1';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.restore();
+  }, [ops, draft, size]);
+
+  const commit = (next: MaskOp[]) => {
+    onChange(next);
+    setRedo([]);
+  };
+
+  const undo = () => {
+    if (ops.length === 0) return;
+    setRedo(prev => [...prev, ops[ops.length - 1]]);
+    onChange(ops.slice(0, -1));
+  };
+
+  const redoLast = () => {
+    if (redo.length === 0) return;
+    onChange([...ops, redo[redo.length - 1]]);
+    setRedo(prev => prev.slice(0, -1));
+  };
+
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      if (!(e.metaKey || e.ctrlKey) || e.key.toLowerCase() !== 'z') return;
+      if ((e.target as HTMLElement)?.closest('input, textarea')) return;
+      e.preventDefault();
+      if (e.shiftKey) redoLast();
+      else undo();
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  });
+
+  const toImagePoint = (e: React.PointerEvent): Point => {
+    const rect = canvasRef.current!.getBoundingClientRect();
+    const scale = scaleToImage();
+    return { x: (e.clientX - rect.left) * scale, y: (e.clientY - rect.top) * scale };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    if (!size) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const p = toImagePoint(e);
+    if (tool === 'brush' || tool === 'eraser') setDraft({ tool, size: brushSize * scaleToImage(), points: [p] });
+    else if (tool === 'rect') setDraft({ tool, from: p, to: p, erase: e.altKey });
+    else setDraft({ tool, points: [p], erase: e.altKey });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!draft) return;
+    const p = toImagePoint(e);
+    if (draft.tool === 'rect') setDraft({ ...draft, to: p });
+    else setDraft({ ...draft, points: [...draft.points, p] });
+  };
+
+  const handlePointerUp = () => {
+    if (!draft) return;
+    const empty = draft.tool === 'rect' ? draft.from.x === draft.to.x || draft.from.y === draft.to.y : draft.tool === 'lasso' && draft.points.length < 3;
+    if (!empty) commit([...ops, draft]);
+    setDraft(null);
+  };
+
+  return (
+    <div className="w-full h-full flex flex-col gap-3 p-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <div className="flex bg-slate-100 dark:bg-slate-800 p-1 rounded-xl border border-slate-200 dark:border-slate-700">
+          {TOOLS.map(t => (
+            <button
+              key={t.id}
+              onClick={() => setTool(t.id)}
+              title={t.id === 'rect' || t.id === 'lasso' ? `${t.label} (hold Alt to subtract)` : t.label}
+              className={`px-3 py-1.5 rounded-lg text-xs font-bold transition-all ${tool === t.id ? 'bg-[var(--primary)] text-white' : 'text-slate-500 hover:text-slate-900 dark:hover:text-white'}`}
+            >
+              {t.icon}
+            </button>
+          ))}
+        </div>
+        {(tool === 'brush' || tool === 'eraser') && (
+          <label className="flex items-center gap-2 text-[10px] font-black uppercase tracking-widest text-slate-500">
+            Size
+            <input type="range" min={4} max={160} value={brushSize} onChange={(e) => setBrushSize(Number(e.target.value))} className="w-24 accent-[var(--primary)]" />
+          </label>
+        )}
+        <label className="flex items-center gap-2 text-[10px] font-black uppercase tracking-widest text-slate-500" title="Softens the mask edge so the edit blends in">
+          Feather
+          <input type="range" min={0} max={64} value={feather} onChange={(e) => onFeatherChange(Number(e.target.value))} className="w-24 accent-[var(--primary)]" />
+          <span className="font-mono w-6">{feather}</span>
+        </label>
+        <div className="flex gap-1 ml-auto">
+          <button onClick={undo} disabled={ops.length === 0} title="Undo (Ctrl+Z)" className="px-2.5 py-1.5 rounded-lg border border-slate-200 dark:border-slate-700 text-xs font-bold text-slate-500 hover:text-slate-900 dark:hover:text-white disabled:opacity-40 transition-all">↶</button>
+          <button onClick={redoLast} disabled={redo.length === 0} title="Redo (Ctrl+Shift+Z)" className="px-2.5 py-1.5 rounded-lg border border-slate-200 dark:border-slate-700 text-xs font-bold text-slate-500 hover:text-slate-900 dark:hover:text-white disabled:opacity-40 transition-all">↷</button>
+          <button onClick={() => commit([])} disabled={ops.length === 0} className="px-2.5 py-1.5 rounded-lg border border-slate-200 dark:border-slate-700 text-[10px] font-black uppercase tracking-widest text-slate-500 hover:text-red-400 disabled:opacity-40 transition-all">Clear</button>
+        </div>
+      </div>
+
+      <div className="flex-1 min-h-0 flex items-center justify-center">
+        <div className="relative max-w-full max-h-full">
+          <img
+            src={src}
+            alt="Source"
+            draggable={false}
+            onLoad={(e) => {
+              const { naturalWidth: width, naturalHeight: height } = e.currentTarget;
+              setSize({ width, height });
+              onImageLoad?.(width, height);
+            }}
+            className="block max-w-full max-h-[60vh] object-contain select-none"
+          />
+          {size && (
+            <canvas
+              ref={canvasRef}
+              width={size.width}
+              height={size.height}
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              onPointerCancel={handlePointerUp}
+              className="absolute inset-0 w-full h-full opacity-50 cursor-crosshair touch-none"
+            />
+          )}
+        </div>
+      </div>
+      <p className="text-[10px] text-slate-400 text-center">
+        {ops.length === 0 ? 'Paint the area to change, or leave the mask empty to edit the whole image.' : 'Only the painted area will change.'}
+      </p>
+    </div>
+  );
+};
+
+export default MaskEditor;
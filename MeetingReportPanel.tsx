@@ -0,0 +1,153 @@
+import React, { useState } from 'react';
+import { resolveModel, ModelPreferences, ModelSlot } from '../services/gemini';
+import { classifyError, GeminiError } from '../services/errors';
+import { summarizeTranscript, reportToMarkdown, reportToJSON, MeetingReport, ActionItem, TopicEntry } from '../services/meetingSummary';
+import { downloadText } from '../services/download';
+import ModelPicker from './ModelPicker';
+import ErrorBanner from './ErrorBanner';
+
+interface MeetingReportPanelProps {
+  // Plain-text transcript with timestamps and speaker names
+  transcript: string;
+  // Used for the report heading and export file names
+  title: string;
+  models: ModelPreferences;
+  onModelChange: (slot: ModelSlot, model: string) => void;
+  onSelectKey?: () => void;
+  className?: string;
+}
+
+const fieldInput = 'w-full bg-slate-900/60 border border-slate-800 rounded-lg px-2 py-1.5 text-sm outline-none focus:ring-1 focus:ring-[var(--primary)] transition-all';
+const sectionTitle = 'text-[10px] font-black uppercase tracking-widest text-slate-500 mb-2';
+const removeButton = 'shrink-0 w-7 text-slate-500 hover:text-red-400 text-xs transition-all';
+const addButton = 'mt-2 text-[11px] font-bold text-slate-500 hover:text-[var(--primary)] transition-all';
+
+const EditableList: React.FC<{ title: string; items: string[]; onChange: (items: string[]) => void }> = ({ title, items, onChange }) => (
+  <div>
+    <p className={sectionTitle}>{title}</p>
+    <div className="space-y-1.5">
+      {items.map((item, i) => (
+        <div key={i} className="flex gap-1">
+          <input value={item} onChange={(e) => onChange(items.map((v, j) => j === i ? e.target.value : v))} className={fieldInput} />
+          <button onClick={() => onChange(items.filter((_, j) => j !== i))} className={removeButton} title="Remove">✕</button>
+        </div>
+      ))}
+    </div>
+    <button onClick={() => onChange([...items, ''])} className={addButton}>+ Add</button>
+  </div>
+);
+
+const slugify = (text: string) => text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'meeting';
+
+const MeetingReportPanel: React.FC<MeetingReportPanelProps> = ({ transcript, title, models, onModelChange, onSelectKey, className = '' }) => {
+  const [report, setReport] = useState<MeetingReport | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<GeminiError | null>(null);
+
+  const handleSummarize = async () => {
+    if (isLoading) return;
+    if (report && !confirm('Replace the current report and its edits?')) return;
+    setIsLoading(true);
+    setError(null);
+    try {
+      setReport(await summarizeTranscript(transcript, resolveModel('summary', models)));
+    } catch (err) {
+      console.error("Summarization failed:", err);
+      setError(classifyError(err));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const update = (changes: Partial<MeetingReport>) => setReport(prev => prev && { ...prev, ...changes });
+
+  const updateAction = (index: number, changes: Partial<ActionItem>) =>
+    update({ actionItems: report!.actionItems.map((a, i) => i === index ? { ...a, ...changes } : a) });
+
+  const updateTopic = (index: number, changes: Partial<TopicEntry>) =>
+    update({ topics: report!.topics.map((t, i) => i === index ? { ...t, ...changes } : t) });
+
+  return (
+    <div className={`bg-slate-800/50 rounded-3xl p-8 border border-slate-700 shadow-xl space-y-6 ${className}`}>
+      <div className="flex flex-wrap items-center gap-3">
+        <h3 className="text-lg font-bold mr-auto">Meeting Report</h3>
+        <ModelPicker slot="summary" value={resolveModel('summary', models)} onChange={m => onModelChange('summary', m)} />
+        <button
+          onClick={handleSummarize}
+          disabled={isLoading || !transcript.trim()}
+          className="px-5 py-2 rounded-xl text-sm font-bold text-white hover:brightness-110 disabled:opacity-50 transition-all"
+          style={{ backgroundColor: 'var(--primary)', boxShadow: '0 4px 12px var(--primary-glow)' }}
+        >
+          {isLoading ? 'Summarizing...' : report ? 'Regenerate' : 'Summarize'}
+        </button>
+      </div>
+
+      <ErrorBanner error={error} onDismiss={() => setError(null)} onSelectKey={onSelectKey} onRetry={handleSummarize} />
+
+      {report && (
+        <>
+          <div>
+            <p className={sectionTitle}>Executive Summary</p>
+            <textarea
+              value={report.summary}
+              onChange={(e) => update({ summary: e.target.value })}
+              rows={5}
+              className={`${fieldInput} resize-y leading-relaxed`}
+            />
+          </div>
+
+          <EditableList title="Decisions" items={report.decisions} onChange={decisions => update({ decisions })} />
+
+          <div>
+            <p className={sectionTitle}>Action Items</p>
+            <div className="space-y-1.5">
+              {report.actionItems.map((a, i) => (
+                <div key={i} className="flex gap-1">
+                  <input value={a.task} onChange={(e) => updateAction(i, { task: e.target.value })} placeholder="Task" className={`${fieldInput} flex-[3]`} />
+                  <input value={a.owner} onChange={(e) => updateAction(i, { owner: e.target.value })} placeholder="Owner" className={`${fieldInput} flex-1`} />
+                  <input value={a.dueDate} onChange={(e) => updateAction(i, { dueDate: e.target.value })} placeholder="Due" className={`${fieldInput} flex-1`} />
+                  <button onClick={() => update({ actionItems: report.actionItems.filter((_, j) => j !== i) })} className={removeButton} title="Remove">✕</button>
+                </div>
+              ))}
+            </div>
+            <button onClick={() => update({ actionItems: [...report.actionItems, { task: '', owner: '', dueDate: '' }] })} className={addButton}>+ Add</button>
+          </div>
+
+          <EditableList title="Open Questions" items={report.openQuestions} onChange={openQuestions => update({ openQuestions })} />
+
+          <div>
+            <p className={sectionTitle}>Topic Timeline</p>
+            <div className="space-y-1.5">
+              {report.topics.map((t, i) => (
+                <div key={i} className="flex gap-1">
+                  <input value={t.start} onChange={(e) => updateTopic(i, { start: e.target.value })} placeholder="00:00" className={`${fieldInput} w-20 shrink-0 font-mono`} />
+                  <input value={t.title} onChange={(e) => updateTopic(i, { title: e.target.value })} placeholder="Topic" className={`${fieldInput} flex-1 font-bold`} />
+                  <input value={t.summary} onChange={(e) => updateTopic(i, { summary: e.target.value })} placeholder="Summary" className={`${fieldInput} flex-[2]`} />
+                  <button onClick={() => update({ topics: report.topics.filter((_, j) => j !== i) })} className={removeButton} title="Remove">✕</button>
+                </div>
+              ))}
+            </div>
+            <button onClick={() => update({ topics: [...report.topics, { start: '', title: '', summary: '' }] })} className={addButton}>+ Add</button>
+          </div>
+
+          <div className="flex gap-1 pt-2 border-t border-slate-800">
+            <button
+              onClick={() => downloadText(reportToMarkdown(report, title), `${slugify(title)}-report.md`, 'text/markdown')}
+              className="px-2 py-1 rounded-lg border border-slate-700 text-[10px] font-bold text-slate-400 hover:text-white transition-all"
+            >
+              ⬇ MD
+            </button>
+            <button
+              onClick={() => downloadText(reportToJSON(report), `${slugify(title)}-report.json`, 'application/json')}
+              className="px-2 py-1 rounded-lg border border-slate-700 text-[10px] font-bold text-slate-400 hover:text-white transition-all"
+            >
+              ⬇ JSON
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default MeetingReportPanel;
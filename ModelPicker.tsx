@@ -0,0 +1,31 @@
+import React from 'react';
+import { MODEL_SLOTS, ModelSlot, getModelInfo, modelsWithCapability } from '../services/gemini';
+
+interface ModelPickerProps {
+  slot: ModelSlot;
+  value: string;
+  onChange: (model: string) => void;
+  className?: string;
+}
+
+const ModelPicker: React.FC<ModelPickerProps> = ({ slot, value, onChange, className = '' }) => {
+  const options = modelsWithCapability(MODEL_SLOTS[slot].capability);
+  const isKnown = options.some(m => m.id === value);
+
+  return (
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      title={`${MODEL_SLOTS[slot].label} model`}
+      className={`bg-slate-900 border border-slate-700 rounded-lg px-2 py-1.5 text-[11px] font-bold text-slate-300 outline-none focus:ring-2 cursor-pointer ${className}`}
+      style={{ '--tw-ring-color': 'var(--primary)' } as any}
+    >
+      {!isKnown && <option value={value}>{getModelInfo(value)?.label ?? value}</option>}
+      {options.map(m => (
+        <option key={m.id} value={m.id}>{m.label}</option>
+      ))}
+    </select>
+  );
+};
+
+export default ModelPicker;
@@ -0,0 +1,97 @@
+import React, { useState } from 'react';
+import { ImageReference, newReference, REFERENCE_ROLES } from '../services/imageHistory';
+
+interface ReferenceImagesProps {
+  references: ImageReference[];
+  onChange: (references: ImageReference[]) => void;
+  max: number;
+}
+
+// Thumbnails of the reference images sent with a request. Drag a thumbnail to change its
+// position, which is also the number the prompt can use to refer to it.
+const ReferenceImages: React.FC<ReferenceImagesProps> = ({ references, onChange, max }) => {
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [overIndex, setOverIndex] = useState<number | null>(null);
+
+  const addFiles = (files: File[]) => {
+    const images = files.filter(f => f.type.startsWith('image/')).slice(0, max - references.length);
+    if (images.length === 0) return;
+    const added = images.map(file => newReference(file, file.name, references.length === 0 ? 'subject' : 'style'));
+    onChange([...references, ...added]);
+  };
+
+  const move = (from: number, to: number) => {
+    if (from === to) return;
+    const next = [...references];
+    const [item] = next.splice(from, 1);
+    next.splice(to, 0, item);
+    onChange(next);
+  };
+
+  const update = (id: string, patch: Partial<ImageReference>) => {
+    onChange(references.map(r => r.id === id ? { ...r, ...patch } : r));
+  };
+
+  const handleDrop = (e: React.DragEvent, index: number) => {
+    e.preventDefault();
+    if (dragIndex !== null) move(dragIndex, Math.min(index, references.length - 1));
+    else addFiles(Array.from(e.dataTransfer.files));
+    setDragIndex(null);
+    setOverIndex(null);
+  };
+
+  return (
+    <div
+      className="flex flex-wrap items-end gap-2"
+      onDragOver={(e) => e.preventDefault()}
+      onDrop={(e) => handleDrop(e, references.length)}
+    >
+      {references.map((ref, i) => (
+        <div
+          key={ref.id}
+          draggable
+          onDragStart={() => setDragIndex(i)}
+          onDragEnd={() => { setDragIndex(null); setOverIndex(null); }}
+          onDragOver={(e) => { e.preventDefault(); setOverIndex(i); }}
+          onDrop={(e) => { e.stopPropagation(); handleDrop(e, i); }}
+          className={`group relative w-20 flex flex-col gap-1 cursor-grab transition-opacity ${dragIndex === i ? 'opacity-40' : ''}`}
+        >
+          <div className={`relative w-20 h-20 rounded-xl overflow-hidden border-2 ${overIndex === i && dragIndex !== i ? 'border-[var(--primary)]' : 'border-slate-200 dark:border-slate-700'}`}>
+            <img src={ref.url} alt={ref.name} draggable={false} className="w-full h-full object-cover" />
+            <span className="absolute top-1 left-1 px-1.5 rounded bg-black/60 text-white text-[9px] font-black">{i + 1}</span>
+            <button
+              onClick={() => onChange(references.filter(r => r.id !== ref.id))}
+              title="Remove reference"
+              className="absolute top-1 right-1 w-4 h-4 rounded-full bg-black/60 text-white text-[10px] leading-none opacity-0 group-hover:opacity-100 transition-opacity"
+            >
+              ×
+            </button>
+          </div>
+          <select
+            value={ref.role}
+            onChange={(e) => update(ref.id, { role: e.target.value as ImageReference['role'] })}
+            title={REFERENCE_ROLES.find(r => r.id === ref.role)?.instruction}
+            className="w-full bg-slate-100 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg px-1 py-0.5 text-[9px] font-black uppercase outline-none"
+          >
+            {REFERENCE_ROLES.map(r => <option key={r.id} value={r.id}>{r.label}</option>)}
+          </select>
+        </div>
+      ))}
+      {references.length < max && (
+        <label className="relative w-20 h-20 flex flex-col items-center justify-center gap-1 rounded-xl border border-dashed border-slate-300 dark:border-slate-600 bg-slate-100 dark:bg-slate-800 cursor-pointer hover:border-[var(--primary)] transition-all">
+          <span className="text-lg">＋</span>
+          <span className="text-[8px] font-black uppercase tracking-widest text-slate-500 text-center leading-tight">Reference<br />{references.length}/{max}</span>
+          <input
+            type="file"
+            accept="image/*"
+            multiple
+            onChange={(e) => { addFiles(Array.from(e.target.files ?? [])); e.target.value = ''; }}
+            className="absolute inset-0 opacity-0 cursor-pointer"
+          />
+        </label>
+      )}
+    </div>
+  );
+};
+
+export default ReferenceImages;
@@ -1,13 +1,24 @@
 
 import React, { useState, useRef, useEffect } from 'react';
-import { getAI, improvePrompt } from '../../services/gemini';
-
-const SearchLab: React.FC = () => {
+import { getAI, improvePrompt, resolveModel, withModelFallback, ModelPreferences, ModelSlot } from '../../services/gemini';
+import MarkdownView from '../MarkdownView';
+import { callGemini, classifyError, GeminiError } from '../../services/errors';
+import ModelPicker from '../ModelPicker';
+import ErrorBanner from '../ErrorBanner';
+
+interface SearchLabProps {
+  onSelectKey: () => void;
+  models: ModelPreferences;
+  onModelChange: (slot: ModelSlot, model: string) => void;
+}
+
+const SearchLab: React.FC<SearchLabProps> = ({ onSelectKey, models, onModelChange }) => {
   const [query, setQuery] = useState('');
   const [result, setResult] = useState<string | null>(null);
   const [sources, setSources] = useState<any[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [isImproving, setIsImproving] = useState(false);
+  const [error, setError] = useState<GeminiError | null>(null);
   const [history, setHistory] = useState<string[]>(() => {
     const saved = localStorage.getItem('search-history');
     return saved ? JSON.parse(saved) : [];
@@ -50,17 +61,19 @@ const SearchLab: React.FC = () => {
     setIsLoading(true);
     setResult(null);
     setSources([]);
+    setError(null);
     addToHistory(searchQuery);
 
     try {
       const ai = getAI();
-      const response = await ai.models.generateContent({
-        model: "gemini-3-flash-preview",
+      const requested = resolveModel('search', models);
+      const response = await callGemini(() => withModelFallback(requested, model => ai.models.generateContent({
+        model,
         contents: searchQuery,
         config: {
           tools: [{ googleSearch: {} }],
         },
-      });
+      })), { model: requested });
 
       setResult(response.text || "No response text.");
       const groundingChunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks;
@@ -69,7 +82,7 @@ const SearchLab: React.FC = () => {
       }
     } catch (err) {
       console.error(err);
-      setResult("Error performing search.");
+      setError(classifyError(err));
     } finally {
       setIsLoading(false);
     }
@@ -86,6 +99,8 @@ const SearchLab: React.FC = () => {
     <div className="flex flex-col h-full max-w-5xl mx-auto">
       {/* Results Area */}
       <div className="flex-1 overflow-y-auto p-4 md:p-8 space-y-8">
+        <ErrorBanner error={error} onDismiss={() => setError(null)} onSelectKey={onSelectKey} onRetry={handleSearch} />
+
         {!result && !isLoading && (
           <div className="h-full flex flex-col items-center justify-center text-slate-400 dark:text-slate-500 space-y-8 py-12">
             <div className="flex flex-col items-center space-y-4">
@@ -143,9 +158,7 @@ const SearchLab: React.FC = () => {
           <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 animate-fadeIn">
             <div className="lg:col-span-2 bg-white dark:bg-slate-800/30 rounded-3xl p-6 md:p-8 border border-slate-200 dark:border-slate-800 shadow-sm">
               <h3 className="text-xs font-black text-slate-400 dark:text-slate-500 uppercase tracking-widest mb-6">Grounded Insights</h3>
-              <div className="prose dark:prose-invert max-w-none whitespace-pre-wrap leading-relaxed text-slate-800 dark:text-slate-200">
-                {result}
-              </div>
+              <MarkdownView content={result} className="leading-relaxed text-slate-800 dark:text-slate-200" />
             </div>
             
             <div className="bg-slate-50 dark:bg-slate-900/50 rounded-3xl p-6 border border-slate-200 dark:border-slate-800 h-fit">
@@ -187,6 +200,7 @@ const SearchLab: React.FC = () => {
           </div>
         )}
         <div className="flex gap-3">
+          <ModelPicker slot="search" value={resolveModel('search', models)} onChange={m => onModelChange('search', m)} className="rounded-2xl" />
           <div className="relative flex-1">
             <input
               type="text"
@@ -0,0 +1,117 @@
+import React from 'react';
+import { TranscriptSegment, listSpeakers, renameSpeaker } from '../services/transcription';
+import { formatClock } from '../services/liveTranscript';
+
+interface SegmentTableProps {
+  segments: TranscriptSegment[];
+  onChange: (segments: TranscriptSegment[]) => void;
+  positionSec?: number;
+  onSeek?: (sec: number) => void;
+}
+
+const cellInput = 'w-full bg-transparent rounded-lg px-2 py-1 resize-none outline-none focus:bg-slate-900 focus:ring-1 focus:ring-[var(--primary)] transition-all';
+
+// Editable speaker-turn view of a transcript. Renaming a speaker to an existing name merges the two.
+const SegmentTable: React.FC<SegmentTableProps> = ({ segments, onChange, positionSec = -1, onSeek }) => {
+  const speakers = listSpeakers(segments);
+  const hasSpeakers = speakers.length > 0;
+  const hasLanguage = segments.some(s => s.language);
+  const hasTranslation = segments.some(s => s.translation !== undefined);
+
+  const updateSegment = (index: number, update: Partial<TranscriptSegment>) => {
+    onChange(segments.map((s, i) => i === index ? { ...s, ...update } : s));
+  };
+
+  const handleRename = (from: string, to: string) => {
+    const name = to.trim();
+    if (name && name !== from) onChange(renameSpeaker(segments, from, name));
+  };
+
+  return (
+    <div className="space-y-4">
+      {hasSpeakers && (
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-[10px] font-black uppercase tracking-widest text-slate-500 mr-1">Speakers</span>
+          {speakers.map(speaker => (
+            <input
+              key={speaker}
+              defaultValue={speaker}
+              onBlur={(e) => handleRename(speaker, e.target.value)}
+              onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+              className="bg-slate-900 border border-slate-700 rounded-lg px-2 py-1 text-xs font-bold w-32 outline-none focus:ring-1 focus:ring-[var(--primary)]"
+              title="Rename speaker"
+            />
+          ))}
+        </div>
+      )}
+
+      <div className="max-h-[32rem] overflow-y-auto pr-1">
+        <table className="w-full text-sm">
+          <thead className="sticky top-0 bg-slate-900 text-[10px] font-black uppercase tracking-widest text-slate-500 text-left">
+            <tr>
+              <th className="py-2 pr-2 w-24">Time</th>
+              {hasSpeakers && <th className="py-2 pr-2 w-36">Speaker</th>}
+              <th className="py-2 pr-2">Text</th>
+              {hasTranslation && <th className="py-2 pr-2">Translation</th>}
+              {hasLanguage && <th className="py-2 w-12">Lang</th>}
+            </tr>
+          </thead>
+          <tbody>
+            {segments.map((s, i) => (
+              <tr
+                key={i}
+                className={`align-top border-t border-slate-800 transition-colors ${
+                  positionSec >= s.start && positionSec < s.end ? 'bg-[var(--primary-glow)]' : ''
+                }`}
+              >
+                <td className="py-1 pr-2">
+                  <button
+                    onClick={() => onSeek?.(s.start)}
+                    disabled={!onSeek}
+                    className="font-mono text-xs text-slate-500 hover:text-[var(--primary)] pt-1.5"
+                    title="Play from here"
+                  >
+                    {formatClock(s.start * 1000)}–{formatClock(s.end * 1000)}
+                  </button>
+                </td>
+                {hasSpeakers && (
+                  <td className="py-1 pr-2">
+                    <select
+                      value={s.speaker ?? ''}
+                      onChange={(e) => updateSegment(i, { speaker: e.target.value || undefined })}
+                      className="w-full bg-slate-900 border border-slate-700 rounded-lg px-2 py-1 text-xs font-bold outline-none"
+                    >
+                      <option value="">—</option>
+                      {speakers.map(name => <option key={name} value={name}>{name}</option>)}
+                    </select>
+                  </td>
+                )}
+                <td className="py-1 pr-2">
+                  <textarea
+                    value={s.text}
+                    rows={Math.max(1, Math.ceil(s.text.length / 60))}
+                    onChange={(e) => updateSegment(i, { text: e.target.value })}
+                    className={`${cellInput} text-slate-200`}
+                  />
+                </td>
+                {hasTranslation && (
+                  <td className="py-1 pr-2">
+                    <textarea
+                      value={s.translation ?? ''}
+                      rows={Math.max(1, Math.ceil((s.translation ?? '').length / 60))}
+                      onChange={(e) => updateSegment(i, { translation: e.target.value })}
+                      className={`${cellInput} text-slate-400 italic`}
+                    />
+                  </td>
+                )}
+                {hasLanguage && <td className="py-1 pt-2 text-xs font-bold uppercase text-slate-500">{s.language}</td>}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default SegmentTable;
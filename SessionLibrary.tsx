@@ -0,0 +1,170 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { ModelPreferences, ModelSlot } from '../services/gemini';
+import { LiveSessionRecord } from '../services/sessions';
+import { formatClock, toPlainText, SpeakerLabels, TranscriptFormat, TRANSCRIPT_FORMATS, Utterance } from '../services/liveTranscript';
+import { toLayout, RecordingLayout } from '../services/sessionRecorder';
+import { downloadBlob, downloadText, fileTimestamp } from '../services/download';
+import MeetingReportPanel from './MeetingReportPanel';
+
+interface SessionLibraryProps {
+  sessions: LiveSessionRecord[];
+  labels: SpeakerLabels;
+  onDelete: (session: LiveSessionRecord) => void;
+  models: ModelPreferences;
+  onModelChange: (slot: ModelSlot, model: string) => void;
+  onSelectKey?: () => void;
+  className?: string;
+}
+
+// Utterances whose text arrived in a single chunk still stay highlighted for a moment
+const MIN_HIGHLIGHT_MS = 1000;
+
+const isSpokenAt = (u: Utterance, ms: number) => ms >= u.startMs && ms <= Math.max(u.endMs, u.startMs + MIN_HIGHLIGHT_MS);
+
+const SessionLibrary: React.FC<SessionLibraryProps> = ({ sessions, labels, onDelete, models, onModelChange, onSelectKey, className = '' }) => {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [audioUrl, setAudioUrl] = useState<string | null>(null);
+  const [positionMs, setPositionMs] = useState(0);
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const selected = sessions.find(s => s.id === selectedId) ?? null;
+
+  // Playback uses the mixed layout; the stored two-track file pans each speaker hard left or right
+  useEffect(() => {
+    if (!selected) return;
+    let url: string | null = null;
+    let cancelled = false;
+    setPositionMs(0);
+    toLayout(selected.audio, 'mixed')
+      .then(blob => {
+        if (cancelled) return;
+        url = URL.createObjectURL(blob);
+        setAudioUrl(url);
+      })
+      .catch(err => console.error("Failed to load session audio", err));
+    return () => {
+      cancelled = true;
+      if (url) URL.revokeObjectURL(url);
+      setAudioUrl(null);
+    };
+  }, [selected?.id]);
+
+  const seekTo = (ms: number) => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    audio.currentTime = ms / 1000;
+    audio.play().catch(() => {});
+  };
+
+  const handleDelete = (session: LiveSessionRecord) => {
+    if (!confirm(`Delete "${session.title}"?`)) return;
+    if (session.id === selectedId) setSelectedId(null);
+    onDelete(session);
+  };
+
+  const baseName = (session: LiveSessionRecord) => `live-session-${fileTimestamp(new Date(session.startedAt))}`;
+
+  const downloadAudio = async (session: LiveSessionRecord, layout: RecordingLayout) => {
+    try {
+      const blob = await toLayout(session.audio, layout);
+      downloadBlob(blob, `${baseName(session)}${layout === 'twoTrack' ? '-2track' : ''}.wav`);
+    } catch (err) {
+      console.error("Failed to export session audio", err);
+    }
+  };
+
+  const downloadTranscript = (session: LiveSessionRecord, format: TranscriptFormat) => {
+    downloadText(format.build(session.transcript, labels, session.startedAt), `${baseName(session)}.${format.extension}`, format.mimeType);
+  };
+
+  return (
+    <div className={`bg-slate-800/50 rounded-3xl p-8 border border-slate-700 shadow-xl ${className}`}>
+      <h3 className="text-lg font-bold mb-4">Recorded Sessions</h3>
+      <div className="grid grid-cols-1 md:grid-cols-[14rem_1fr] gap-6">
+        <div className="space-y-1 max-h-96 overflow-y-auto">
+          {sessions.map(session => (
+            <div
+              key={session.id}
+              onClick={() => setSelectedId(session.id)}
+              className={`group p-3 rounded-xl cursor-pointer transition-all ${
+                session.id === selectedId ? 'bg-white/5 text-[var(--primary)]' : 'text-slate-400 hover:bg-white/5 hover:text-slate-200'
+              }`}
+            >
+              <div className="flex items-center justify-between gap-2">
+                <span className="text-xs font-bold truncate">{new Date(session.startedAt).toLocaleString()}</span>
+                <button
+                  onClick={(e) => { e.stopPropagation(); handleDelete(session); }}
+                  className="opacity-0 group-hover:opacity-100 text-slate-500 hover:text-red-400 text-xs transition-all"
+                  title="Delete"
+                >
+                  🗑️
+                </button>
+              </div>
+              <p className="text-[10px] text-slate-500 mt-0.5">{formatClock(session.durationMs)} · {session.voice}</p>
+            </div>
+          ))}
+        </div>
+
+        {selected ? (
+          <div className="space-y-4 min-w-0">
+            <audio
+              ref={audioRef}
+              src={audioUrl ?? undefined}
+              controls
+              onTimeUpdate={(e) => setPositionMs(e.currentTarget.currentTime * 1000)}
+              className="w-full"
+            />
+            <div className="flex flex-wrap gap-1">
+              <button onClick={() => downloadAudio(selected, 'mixed')} className="px-2 py-1 rounded-lg border border-slate-700 text-[10px] font-bold text-slate-400 hover:text-white transition-all" title="Both speakers in one mono track">
+                ⬇ WAV
+              </button>
+              <button onClick={() => downloadAudio(selected, 'twoTrack')} className="px-2 py-1 rounded-lg border border-slate-700 text-[10px] font-bold text-slate-400 hover:text-white transition-all" title="You on the left channel, Gemini on the right">
+                ⬇ 2-Track WAV
+              </button>
+              {TRANSCRIPT_FORMATS.map(f => (
+                <button
+                  key={f.extension}
+                  onClick={() => downloadTranscript(selected, f)}
+                  className="px-2 py-1 rounded-lg border border-slate-700 text-[10px] font-bold text-slate-400 hover:text-white transition-all"
+                >
+                  ⬇ {f.label}
+                </button>
+              ))}
+            </div>
+            <div className="max-h-72 overflow-y-auto space-y-2 pr-1">
+              {selected.transcript.filter((e): e is Utterance => e.kind === 'utterance').map((u, i) => (
+                <button
+                  key={i}
+                  onClick={() => seekTo(u.startMs)}
+                  className={`w-full text-left p-2 rounded-lg text-sm transition-all border ${
+                    isSpokenAt(u, positionMs) ? 'border-[var(--primary)] bg-[var(--primary-glow)] text-white' : 'border-transparent text-slate-300 hover:bg-white/5'
+                  }`}
+                >
+                  <span className="text-[10px] font-black uppercase tracking-widest opacity-60 mr-2">
+                    {formatClock(u.startMs)} · {labels[u.speaker]}
+                  </span>
+                  {u.text.trim()}
+                </button>
+              ))}
+            </div>
+          </div>
+        ) : (
+          <div className="flex items-center justify-center text-sm text-slate-500">Select a session to play it back.</div>
+        )}
+      </div>
+
+      {selected && (
+        <MeetingReportPanel
+          key={selected.id}
+          transcript={toPlainText(selected.transcript, labels)}
+          title={selected.title}
+          models={models}
+          onModelChange={onModelChange}
+          onSelectKey={onSelectKey}
+          className="mt-6 bg-slate-900/40"
+        />
+      )}
+    </div>
+  );
+};
+
+export default SessionLibrary;
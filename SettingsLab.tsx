@@ -1,7 +1,10 @@
 
 import React, { useState, useEffect, useRef } from 'react';
 import { UserSettings, THEME_COLORS } from '../../App';
-import { getAI, decode, decodeAudioData } from '../../services/gemini';
+import { getAI, decode, decodeAudioData, resolveModel, withModelFallback, MODEL_SLOTS, ModelSlot } from '../../services/gemini';
+import { callGemini, classifyError, GeminiError } from '../../services/errors';
+import ModelPicker from '../ModelPicker';
+import ErrorBanner from '../ErrorBanner';
 import { Modality } from '@google/genai';
 
 interface SettingsLabProps {
@@ -13,6 +16,7 @@ interface SettingsLabProps {
 const SettingsLab: React.FC<SettingsLabProps> = ({ settings, setSettings, onSelectKey }) => {
   const [isPreviewing, setIsPreviewing] = useState(false);
   const [saveStatus, setSaveStatus] = useState<'saved' | 'saving'>('saved');
+  const [error, setError] = useState<GeminiError | null>(null);
   const colorInputRef = useRef<HTMLInputElement>(null);
   const voices = ['Zephyr', 'Puck', 'Charon', 'Kore', 'Fenrir'];
 
@@ -26,16 +30,22 @@ const SettingsLab: React.FC<SettingsLabProps> = ({ settings, setSettings, onSele
     setSettings(prev => ({ ...prev, [key]: value }));
   };
 
+  const updateModel = (slot: ModelSlot, model: string) => {
+    setSettings(prev => ({ ...prev, models: { ...prev.models, [slot]: model } }));
+  };
+
   const isPredefined = THEME_COLORS.some(c => c.value === settings.accentColor);
 
   const previewVoice = async () => {
     if (isPreviewing) return;
     setIsPreviewing(true);
+    setError(null);
 
     try {
       const ai = getAI();
-      const response = await ai.models.generateContent({
-        model: "gemini-2.5-flash-preview-tts",
+      const requested = resolveModel('tts', settings.models);
+      const response = await callGemini(() => withModelFallback(requested, model => ai.models.generateContent({
+        model,
         contents: [{ parts: [{ text: `Say cheerfully: Hello ${settings.userName || 'there'}, I am your AI assistant using the ${settings.preferredVoice} voice. I'm ready to help you.` }] }],
         config: {
           responseModalities: [Modality.AUDIO],
@@ -45,7 +55,7 @@ const SettingsLab: React.FC<SettingsLabProps> = ({ settings, setSettings, onSele
             },
           },
         },
-      });
+      })), { model: requested });
 
       const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
       if (base64Audio) {
@@ -66,6 +76,7 @@ const SettingsLab: React.FC<SettingsLabProps> = ({ settings, setSettings, onSele
       }
     } catch (err) {
       console.error("Voice preview failed:", err);
+      setError(classifyError(err));
       setIsPreviewing(false);
     }
   };
@@ -205,6 +216,7 @@ const SettingsLab: React.FC<SettingsLabProps> = ({ settings, setSettings, onSele
         <h3 className="text-xl font-bold flex items-center gap-2">
           <span>⚙️</span> Lab Preferences
         </h3>
+        <ErrorBanner error={error} onDismiss={() => setError(null)} onSelectKey={onSelectKey} onRetry={previewVoice} />
         
         <div className="grid md:grid-cols-2 gap-8">
           <div className="space-y-4">
@@ -271,6 +283,30 @@ const SettingsLab: React.FC<SettingsLabProps> = ({ settings, setSettings, onSele
           </div>
         </div>
       </section>
+      <section className="bg-slate-100 dark:bg-slate-800/50 rounded-3xl p-8 border border-slate-200 dark:border-slate-700 shadow-xl space-y-6 transition-colors duration-300">
+        <div className="flex items-center justify-between">
+          <h3 className="text-xl font-bold flex items-center gap-2">
+            <span>🧩</span> Default Models
+          </h3>
+          <button
+            onClick={() => updateSetting('models', {})}
+            className="text-[10px] font-bold text-slate-400 hover:text-[var(--primary)] uppercase tracking-wider transition-colors"
+          >
+            Reset to defaults
+          </button>
+        </div>
+        <p className="text-sm text-slate-600 dark:text-slate-400 leading-relaxed">
+          Each lab only lists models with the capabilities it needs. If a preview model is renamed or retired, requests fall back to the next model in its chain automatically.
+        </p>
+        <div className="grid md:grid-cols-2 gap-4">
+          {(Object.keys(MODEL_SLOTS) as ModelSlot[]).map(slot => (
+            <div key={slot} className="flex items-center justify-between gap-4 bg-white dark:bg-slate-900 rounded-xl px-4 py-3 border border-slate-200 dark:border-slate-700">
+              <span className="text-xs font-bold text-slate-500 dark:text-slate-400">{MODEL_SLOTS[slot].label}</span>
+              <ModelPicker slot={slot} value={resolveModel(slot, settings.models)} onChange={m => updateModel(slot, m)} />
+            </div>
+          ))}
+        </div>
+      </section>
       <style>{`
         @keyframes voice {
           from { height: 4px; }
@@ -18,6 +18,8 @@ const Sidebar: React.FC<SidebarProps> = ({ activeLab, onSelectLab, isOpen, onClo
     { type: LabType.IMAGE, icon: '🎨' },
     { type: LabType.VIDEO, icon: '🎬' },
     { type: LabType.ANALYSIS, icon: '🧠' },
+    { type: LabType.ARENA, icon: '⚔️' },
+    { type: LabType.USAGE, icon: '📊' },
     { type: LabType.TRANSCRIPTION, icon: '📝' },
     { type: LabType.SETTINGS, icon: '⚙️' },
   ];
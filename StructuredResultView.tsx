@@ -0,0 +1,117 @@
+import React, { useState } from 'react';
+import { toTable, childPath } from '../services/structuredOutput';
+
+interface StructuredResultViewProps {
+  value: unknown;
+  // Paths with validation issues are highlighted in the tree
+  issuePaths?: Set<string>;
+}
+
+type ResultView = 'tree' | 'table' | 'raw';
+
+const VIEWS: { id: ResultView; label: string }[] = [
+  { id: 'tree', label: 'Tree' },
+  { id: 'table', label: 'Table' },
+  { id: 'raw', label: 'Raw' },
+];
+
+const Scalar: React.FC<{ value: unknown }> = ({ value }) => {
+  if (value === null) return <span className="text-slate-500 italic">null</span>;
+  if (typeof value === 'string') return <span className="text-emerald-300 break-words">"{value}"</span>;
+  if (typeof value === 'number') return <span className="text-amber-300">{value}</span>;
+  if (typeof value === 'boolean') return <span className="text-sky-300">{String(value)}</span>;
+  return <span className="text-slate-500">{String(value)}</span>;
+};
+
+const TreeNode: React.FC<{ name: string; value: unknown; path: string; issuePaths: Set<string>; depth: number }> = ({ name, value, path, issuePaths, depth }) => {
+  const hasIssue = issuePaths.has(path);
+  const label = (
+    <span className={`font-bold ${hasIssue ? 'text-red-400' : 'text-slate-300'}`} title={hasIssue ? 'See validation issues' : undefined}>
+      {name}
+    </span>
+  );
+
+  if (value === null || typeof value !== 'object') {
+    return (
+      <div className="py-0.5 pl-4">
+        {label}<span className="text-slate-600">: </span><Scalar value={value} />
+      </div>
+    );
+  }
+
+  const isArray = Array.isArray(value);
+  const entries = isArray ? (value as unknown[]).map((v, i) => [String(i), v] as const) : Object.entries(value as Record<string, unknown>);
+  return (
+    <details open={depth < 2} className="pl-4">
+      <summary className="py-0.5 cursor-pointer select-none">
+        {label}
+        <span className="text-[10px] text-slate-500 ml-2">{isArray ? `[${entries.length}]` : `{${entries.length}}`}</span>
+      </summary>
+      <div className="border-l border-slate-800 ml-1">
+        {entries.map(([key, child]) => (
+          <TreeNode
+            key={key}
+            name={key}
+            value={child}
+            path={isArray ? `${path}[${key}]` : childPath(path, key)}
+            issuePaths={issuePaths}
+            depth={depth + 1}
+          />
+        ))}
+      </div>
+    </details>
+  );
+};
+
+// Tree, table and raw JSON views of a structured output result
+const StructuredResultView: React.FC<StructuredResultViewProps> = ({ value, issuePaths = new Set() }) => {
+  const [view, setView] = useState<ResultView>('tree');
+  const table = view === 'table' ? toTable(value) : null;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex gap-1">
+        {VIEWS.map(v => (
+          <button
+            key={v.id}
+            onClick={() => setView(v.id)}
+            className={`px-3 py-1 rounded-lg text-[10px] font-bold uppercase tracking-widest transition-all ${
+              view === v.id ? 'bg-[var(--primary)] text-white' : 'text-slate-500 hover:text-slate-300'
+            }`}
+          >
+            {v.label}
+          </button>
+        ))}
+      </div>
+
+      {view === 'tree' && (
+        <div className="font-mono text-xs -ml-4">
+          <TreeNode name="$" value={value} path="$" issuePaths={issuePaths} depth={0} />
+        </div>
+      )}
+
+      {table && (
+        <div className="overflow-x-auto">
+          <table className="w-full text-xs">
+            <thead className="text-[10px] font-black uppercase tracking-widest text-slate-500 text-left">
+              <tr>{table.columns.map(c => <th key={c} className="py-2 pr-4 whitespace-nowrap">{c}</th>)}</tr>
+            </thead>
+            <tbody>
+              {table.rows.map((row, i) => (
+                <tr key={i} className="border-t border-slate-800 align-top">
+                  {row.map((cell, j) => <td key={j} className="py-1.5 pr-4 text-slate-300">{cell}</td>)}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {view === 'raw' && (
+        <pre className="font-mono text-xs text-slate-300 whitespace-pre-wrap break-words">{JSON.stringify(value, null, 2)}</pre>
+      )}
+    </div>
+  );
+};
+
+export default StructuredResultView;
@@ -0,0 +1,113 @@
+import React, { useState } from 'react';
+import { ConversationThread } from '../types';
+
+interface ThreadListProps {
+  threads: ConversationThread[];
+  activeId: string | null;
+  onSelect: (thread: ConversationThread) => void;
+  onNew: () => void;
+  onRename: (thread: ConversationThread, title: string) => void;
+  onDelete: (thread: ConversationThread) => void;
+}
+
+const ThreadList: React.FC<ThreadListProps> = ({ threads, activeId, onSelect, onNew, onRename, onDelete }) => {
+  const [search, setSearch] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState('');
+
+  const term = search.trim().toLowerCase();
+  const filtered = term
+    ? threads.filter(t =>
+        t.title.toLowerCase().includes(term) ||
+        t.messages.some(m => m.content.toLowerCase().includes(term))
+      )
+    : threads;
+
+  const startRename = (e: React.MouseEvent, thread: ConversationThread) => {
+    e.stopPropagation();
+    setEditingId(thread.id);
+    setDraftTitle(thread.title);
+  };
+
+  const commitRename = (thread: ConversationThread) => {
+    const title = draftTitle.trim();
+    if (title && title !== thread.title) onRename(thread, title);
+    setEditingId(null);
+  };
+
+  const handleDelete = (e: React.MouseEvent, thread: ConversationThread) => {
+    e.stopPropagation();
+    if (confirm(`Delete "${thread.title}"?`)) onDelete(thread);
+  };
+
+  return (
+    <div className="flex flex-col h-full bg-slate-800/30 rounded-3xl border border-slate-800 overflow-hidden">
+      <div className="p-4 border-b border-slate-800 space-y-3">
+        <button
+          onClick={onNew}
+          className="w-full hover:brightness-110 py-2.5 rounded-xl text-xs font-bold text-white transition-all shadow-lg"
+          style={{ backgroundColor: 'var(--primary)', boxShadow: '0 4px 12px var(--primary-glow)' }}
+        >
+          + New Conversation
+        </button>
+        <input
+          type="text"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search conversations..."
+          className="w-full bg-slate-900 border border-slate-700 rounded-xl px-3 py-2 text-xs focus:outline-none focus:ring-2 transition-all"
+          style={{ '--tw-ring-color': 'var(--primary)' } as any}
+        />
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-2 space-y-1">
+        {filtered.length === 0 && (
+          <p className="text-[10px] text-slate-500 uppercase font-bold tracking-widest text-center py-8">
+            {term ? 'No matches' : 'No conversations yet'}
+          </p>
+        )}
+        {filtered.map(thread => (
+          <div
+            key={thread.id}
+            onClick={() => onSelect(thread)}
+            className={`group p-3 rounded-xl cursor-pointer transition-all ${
+              thread.id === activeId ? 'bg-white/5 text-[var(--primary)]' : 'text-slate-400 hover:bg-white/5 hover:text-slate-200'
+            }`}
+          >
+            {editingId === thread.id ? (
+              <input
+                autoFocus
+                value={draftTitle}
+                onClick={(e) => e.stopPropagation()}
+                onChange={(e) => setDraftTitle(e.target.value)}
+                onBlur={() => commitRename(thread)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') commitRename(thread);
+                  if (e.key === 'Escape') setEditingId(null);
+                }}
+                className="w-full bg-slate-900 border border-slate-700 rounded-lg px-2 py-1 text-xs text-slate-100 outline-none"
+              />
+            ) : (
+              <div className="flex items-center justify-between gap-2">
+                <span className="text-xs font-bold truncate">{thread.title}</span>
+                <div className="flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity shrink-0">
+                  <button onClick={(e) => startRename(e, thread)} className="p-1 hover:text-white" title="Rename">✏️</button>
+                  <button onClick={(e) => handleDelete(e, thread)} className="p-1 hover:text-red-400" title="Delete">
+                    <svg className="w-3 h-3" fill="currentColor" viewBox="0 0 24 24">
+                      <path d="M6 19c0 1.1.9 2 2 2h8c1.1 0 2-.9 2-2V7H6v12zM19 4h-3.5l-1-1h-5l-1 1H5v2h14V4z" />
+                    </svg>
+                  </button>
+                </div>
+              </div>
+            )}
+            <div className="text-[9px] text-slate-500 mt-1 uppercase tracking-wider">
+              {new Date(thread.updatedAt).toLocaleDateString()} · {thread.messages.length} msgs
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ThreadList;
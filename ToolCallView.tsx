@@ -0,0 +1,43 @@
+import React from 'react';
+import { ToolInvocation } from '../types';
+
+interface ToolCallViewProps {
+  invocation: ToolInvocation;
+  className?: string;
+}
+
+const formatValue = (value: unknown) => JSON.stringify(value, null, 2) ?? 'undefined';
+
+// Collapsed to a one-line summary; the full arguments and result are one click away
+const ToolCallView: React.FC<ToolCallViewProps> = ({ invocation, className = '' }) => {
+  const isPending = invocation.result === undefined && invocation.error === undefined;
+  const summary = Object.values(invocation.args).map(v => JSON.stringify(v)).join(', ');
+
+  return (
+    <details className={`group rounded-xl border bg-slate-950/40 text-xs ${invocation.error ? 'border-red-500/40' : 'border-slate-700'} ${className}`}>
+      <summary className="flex items-center gap-2 px-3 py-2 cursor-pointer select-none list-none">
+        <span>{isPending ? '⏳' : invocation.error ? '⚠️' : '🔧'}</span>
+        <code className="font-bold text-[var(--primary)]">{invocation.name}</code>
+        <code className="text-slate-400 truncate flex-1 min-w-0">({summary})</code>
+        {invocation.durationMs !== undefined && <span className="text-[10px] text-slate-500 shrink-0">{invocation.durationMs} ms</span>}
+        <span className="text-slate-500 transition-transform group-open:rotate-90">▸</span>
+      </summary>
+      <div className="border-t border-slate-800 px-3 py-2 space-y-2">
+        <div>
+          <p className="text-[10px] font-black uppercase tracking-widest text-slate-500 mb-1">Arguments</p>
+          <pre className="whitespace-pre-wrap break-all text-slate-300">{formatValue(invocation.args)}</pre>
+        </div>
+        {!isPending && (
+          <div>
+            <p className={`text-[10px] font-black uppercase tracking-widest mb-1 ${invocation.error ? 'text-red-400' : 'text-slate-500'}`}>
+              {invocation.error ? 'Error' : 'Result'}
+            </p>
+            <pre className="whitespace-pre-wrap break-all text-slate-300">{invocation.error ?? formatValue(invocation.result)}</pre>
+          </div>
+        )}
+      </div>
+    </details>
+  );
+};
+
+export default ToolCallView;
@@ -1,118 +1,348 @@
 
-import React, { useState, useRef } from 'react';
-import { getAI, encode } from '../../services/gemini';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { resolveModel, ModelPreferences, ModelSlot } from '../../services/gemini';
+import { classifyError, GeminiError } from '../../services/errors';
+import { startAudioCapture, concatPCM, encodeWav, AudioCapture } from '../../services/audioCapture';
+import { prepareChunks, transcribeChunk, stitchKeyed, applyEdits, diffEdits, NO_EDITS, TranscriptEdits, segmentsToText, AudioChunk, TranscriptSegment, TranscriptionOptions, SegmentFormat, SEGMENT_FORMATS } from '../../services/transcription';
+import { mapWithConcurrency } from '../../services/concurrency';
+import { downloadText } from '../../services/download';
+import ModelPicker from '../ModelPicker';
+import ErrorBanner from '../ErrorBanner';
+import SegmentTable from '../SegmentTable';
+import MeetingReportPanel from '../MeetingReportPanel';
 
-const TranscriptionLab: React.FC = () => {
+// Parallel chunk requests; higher values mostly run into rate limits
+const CONCURRENCY = 3;
+const SPEAKER_COUNTS = [0, 1, 2, 3, 4, 5, 6];
+const TRANSLATION_LANGUAGES = ['English', 'Spanish', 'French', 'German', 'Italian', 'Portuguese', 'Dutch', 'Japanese', 'Korean', 'Chinese', 'Hindi', 'Arabic', 'Russian'];
+
+type ChunkStatus = 'pending' | 'running' | 'done' | 'error';
+
+interface ChunkState {
+  status: ChunkStatus;
+  segments?: TranscriptSegment[];
+}
+
+interface SourceMedia {
+  name: string;
+  url: string;
+  isVideo: boolean;
+}
+
+const CHUNK_COLORS: Record<ChunkStatus, string> = {
+  pending: 'bg-slate-700',
+  running: 'bg-[var(--primary)] animate-pulse',
+  done: 'bg-emerald-500',
+  error: 'bg-red-500',
+};
+
+interface TranscriptionLabProps {
+  onSelectKey: () => void;
+  models: ModelPreferences;
+  onModelChange: (slot: ModelSlot, model: string) => void;
+}
+
+const TranscriptionLab: React.FC<TranscriptionLabProps> = ({ onSelectKey, models, onModelChange }) => {
   const [isRecording, setIsRecording] = useState(false);
-  const [transcription, setTranscription] = useState('');
   const [isLoading, setIsLoading] = useState(false);
-  const [authError, setAuthError] = useState(false);
-  
-  const mediaRecorderRef = useRef<MediaRecorder | null>(null);
-  const chunksRef = useRef<Blob[]>([]);
+  const [status, setStatus] = useState('');
+  const [error, setError] = useState<GeminiError | null>(null);
+  const [source, setSource] = useState<SourceMedia | null>(null);
+  const [chunkStates, setChunkStates] = useState<ChunkState[]>([]);
+  const [positionSec, setPositionSec] = useState(0);
+  const [isDragging, setIsDragging] = useState(false);
+  const [edits, setEdits] = useState<TranscriptEdits>(NO_EDITS);
+  const [options, setOptions] = useState<TranscriptionOptions>({ diarize: true, speakerCount: 0, detectLanguage: false, targetLanguage: '' });
+
+  const captureRef = useRef<AudioCapture | null>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const chunksRef = useRef<Int16Array[]>([]);
+  // The chunks of the current source, kept so failed ones can be retried
+  const audioChunksRef = useRef<AudioChunk[]>([]);
+  const mediaRef = useRef<HTMLMediaElement | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  // Retries reuse the options the source was first transcribed with, so chunks stay comparable
+  const runOptionsRef = useRef<TranscriptionOptions>(options);
+
+  // Stitched again whenever a chunk finishes; manual edits are laid over the result
+  const stitched = useMemo(
+    () => stitchKeyed(audioChunksRef.current, chunkStates.map(c => c.segments)),
+    [chunkStates],
+  );
+  const segments = useMemo(() => applyEdits(stitched, edits), [stitched, edits]);
+  const failedCount = chunkStates.filter(c => c.status === 'error').length;
+  const doneCount = chunkStates.filter(c => c.status === 'done').length;
+
+  useEffect(() => () => { if (source) URL.revokeObjectURL(source.url); }, [source]);
+
+  // Leaving the lab mid-recording drops the recording and releases the microphone
+  useEffect(() => () => {
+    captureRef.current?.stop().catch(err => console.warn("Error stopping audio capture:", err));
+    captureRef.current = null;
+    streamRef.current?.getTracks().forEach(track => track.stop());
+    streamRef.current = null;
+  }, []);
 
   const startRecording = async () => {
     try {
-      setAuthError(false);
+      setError(null);
       const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-      mediaRecorderRef.current = new MediaRecorder(stream);
+      streamRef.current = stream;
       chunksRef.current = [];
-
-      mediaRecorderRef.current.ondataavailable = (e) => {
-        if (e.data.size > 0) chunksRef.current.push(e.data);
-      };
-
-      mediaRecorderRef.current.onstop = async () => {
-        const audioBlob = new Blob(chunksRef.current, { type: 'audio/webm' });
-        await processTranscription(audioBlob);
-      };
-
-      mediaRecorderRef.current.start();
+      captureRef.current = await startAudioCapture(stream, {
+        targetRate: 16000,
+        onChunk: (pcm) => chunksRef.current.push(pcm),
+      });
       setIsRecording(true);
     } catch (err) {
       console.error(err);
-      alert("Microphone access denied.");
+      setError(classifyError(err));
+      streamRef.current?.getTracks().forEach(track => track.stop());
+      streamRef.current = null;
     }
   };
 
-  const stopRecording = () => {
-    if (mediaRecorderRef.current && isRecording) {
-      mediaRecorderRef.current.stop();
-      setIsRecording(false);
-    }
+  const stopRecording = async () => {
+    if (!captureRef.current || !isRecording) return;
+    setIsRecording(false);
+    await captureRef.current.stop();
+    captureRef.current = null;
+    streamRef.current?.getTracks().forEach(track => track.stop());
+    streamRef.current = null;
+    const wav = encodeWav(concatPCM(chunksRef.current), 16000);
+    await processTranscription(new File([wav], `recording-${Date.now()}.wav`, { type: 'audio/wav' }));
+  };
+
+  const updateChunk = (index: number, update: ChunkState) => {
+    setChunkStates(prev => prev.map((c, i) => i === index ? update : c));
   };
 
-  const processTranscription = async (blob: Blob) => {
+  // Runs the given chunks and leaves failures marked so they can be retried on their own
+  const runChunks = async (indices: number[]) => {
+    const model = resolveModel('transcription', models);
+    let firstError: GeminiError | null = null;
     setIsLoading(true);
-    setTranscription('Transcribing your audio...');
+    setError(null);
+    await mapWithConcurrency(indices, CONCURRENCY, async (index) => {
+      updateChunk(index, { status: 'running' });
+      try {
+        const result = await transcribeChunk(audioChunksRef.current[index], model, runOptionsRef.current);
+        updateChunk(index, { status: 'done', segments: result });
+      } catch (err) {
+        console.error(`Transcription of chunk ${index + 1} failed:`, err);
+        firstError ??= classifyError(err);
+        updateChunk(index, { status: 'error' });
+      }
+    });
+    setError(firstError);
+    setIsLoading(false);
+    setStatus('');
+  };
+
+  const processTranscription = async (file: File) => {
+    if (isLoading) return;
+    setError(null);
+    setIsLoading(true);
+    setChunkStates([]);
+    setEdits(NO_EDITS);
+    audioChunksRef.current = [];
+    setSource({ name: file.name, url: URL.createObjectURL(file), isVideo: file.type.startsWith('video') });
+    setStatus('Preparing audio...');
+    runOptionsRef.current = options;
 
     try {
-      const reader = new FileReader();
-      reader.readAsArrayBuffer(blob);
-      reader.onloadend = async () => {
-        const arrayBuffer = reader.result as ArrayBuffer;
-        const base64 = encode(new Uint8Array(arrayBuffer));
-        
-        const ai = getAI();
-        // Using native audio model for better modality support
-        const response = await ai.models.generateContent({
-          model: 'gemini-2.5-flash-native-audio-preview-12-2025',
-          contents: {
-            parts: [
-              { inlineData: { data: base64, mimeType: 'audio/webm' } },
-              { text: "Transcribe this audio exactly. Just the text." }
-            ]
-          }
-        });
-        
-        setTranscription(response.text || "Could not transcribe audio.");
-      };
-    } catch (err: any) {
+      // A longer overlap gives speaker alignment between chunks more speech to match on
+      const chunks = await prepareChunks(file, { overlapSec: options.diarize ? 10 : 5 });
+      if (chunks.length === 0) throw new GeminiError('invalidArgument', 'The file does not contain any audio.');
+      audioChunksRef.current = chunks;
+      setChunkStates(chunks.map(() => ({ status: 'pending' })));
+      setStatus(`Transcribing ${chunks.length} chunk${chunks.length > 1 ? 's' : ''}...`);
+      await runChunks(chunks.map(c => c.index));
+    } catch (err) {
       console.error("Transcription error:", err);
-      if (err?.message?.includes('403')) {
-        setAuthError(true);
-        setTranscription("Permission Denied: Please select a paid API key.");
-      } else {
-        setTranscription("Transcription failed.");
-      }
-    } finally {
+      setError(classifyError(err));
       setIsLoading(false);
+      setStatus('');
     }
   };
 
+  const handleRetryFailed = () => {
+    if (isLoading) return;
+    runChunks(chunkStates.flatMap((c, i) => c.status === 'error' ? [i] : []));
+  };
+
+  const handleFiles = (files: FileList | null) => {
+    const file = files?.[0];
+    if (file && (file.type.startsWith('audio') || file.type.startsWith('video'))) processTranscription(file);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    handleFiles(e.dataTransfer.files);
+  };
+
+  const seekTo = (sec: number) => {
+    const media = mediaRef.current;
+    if (!media) return;
+    media.currentTime = sec;
+    media.play().catch(() => {});
+  };
+
+  const handleExport = (format: SegmentFormat) => {
+    const baseName = source?.name.replace(/\.[^.]+$/, '') || 'transcript';
+    downloadText(format.build(segments, source?.name), `${baseName}.${format.extension}`, format.mimeType);
+  };
+
   return (
     <div className="p-8 max-w-4xl mx-auto space-y-8">
-      <div className="bg-slate-800/50 rounded-3xl p-12 border border-slate-700 shadow-xl flex flex-col items-center text-center">
+      <div
+        onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={handleDrop}
+        className={`bg-slate-800/50 rounded-3xl p-12 border shadow-xl flex flex-col items-center text-center transition-colors ${isDragging ? 'border-[var(--primary)]' : 'border-slate-700'}`}
+      >
         <h2 className="text-2xl font-bold mb-4">Audio Transcription</h2>
-        <p className="text-slate-400 mb-8 max-w-md">Record your voice and let Gemini 2.5 Flash native audio model provide a high-accuracy transcription.</p>
-
-        <button
-          onClick={isRecording ? stopRecording : startRecording}
-          className={`w-24 h-24 rounded-full flex items-center justify-center text-3xl transition-all duration-300 shadow-2xl ${
-            isRecording 
-              ? 'bg-red-500 animate-pulse' 
-              : 'bg-indigo-600 hover:bg-indigo-700'
-          }`}
-        >
-          {isRecording ? '⏹️' : '🎤'}
-        </button>
+        <p className="text-slate-400 mb-4 max-w-md">Record your voice or drop in an audio or video file of any length for a timestamped transcript.</p>
+        <ModelPicker slot="transcription" value={resolveModel('transcription', models)} onChange={m => onModelChange('transcription', m)} className="mb-8" />
+
+        <div className="flex items-center gap-6">
+          <button
+            onClick={isRecording ? stopRecording : startRecording}
+            disabled={isLoading}
+            className={`w-24 h-24 rounded-full flex items-center justify-center text-3xl transition-all duration-300 shadow-2xl disabled:opacity-50 ${
+              isRecording
+                ? 'bg-red-500 animate-pulse'
+                : 'bg-indigo-600 hover:bg-indigo-700'
+            }`}
+          >
+            {isRecording ? '⏹️' : '🎤'}
+          </button>
+          <span className="text-xs font-bold uppercase tracking-widest text-slate-500">or</span>
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isLoading || isRecording}
+            className="w-24 h-24 rounded-full flex items-center justify-center text-3xl border-2 border-dashed border-slate-600 hover:border-[var(--primary)] transition-all disabled:opacity-50"
+            title="Upload audio or video"
+          >
+            📁
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="audio/*,video/*"
+            onChange={(e) => { handleFiles(e.target.files); e.target.value = ''; }}
+            className="hidden"
+          />
+        </div>
         <p className="mt-6 font-medium text-slate-300">
-          {isRecording ? 'Recording... click to stop' : 'Click to start recording'}
+          {isRecording ? 'Recording... click to stop' : status || 'Click to record, or drop a file here'}
         </p>
 
-        {authError && (
-          <div className="mt-6 p-4 bg-red-500/10 border border-red-500/50 rounded-xl text-red-400 text-sm max-w-md">
-            <strong>403 Access Error:</strong> This model requires a premium project API key. Go to Settings or the Image Lab to select a valid key.
+        <div className="mt-8 flex flex-wrap items-center justify-center gap-3 text-xs font-bold text-slate-300">
+          <label className="flex items-center gap-2 bg-slate-900 border border-slate-700 rounded-xl px-3 py-2 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={options.diarize}
+              onChange={(e) => setOptions(o => ({ ...o, diarize: e.target.checked }))}
+              className="accent-[var(--primary)]"
+            />
+            Identify speakers
+          </label>
+          {options.diarize && (
+            <select
+              value={options.speakerCount}
+              onChange={(e) => setOptions(o => ({ ...o, speakerCount: Number(e.target.value) }))}
+              className="bg-slate-900 border border-slate-700 rounded-xl px-3 py-2 outline-none"
+              title="Expected number of speakers"
+            >
+              {SPEAKER_COUNTS.map(n => <option key={n} value={n}>{n === 0 ? 'Auto speakers' : `${n} speaker${n > 1 ? 's' : ''}`}</option>)}
+            </select>
+          )}
+          <label className="flex items-center gap-2 bg-slate-900 border border-slate-700 rounded-xl px-3 py-2 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={options.detectLanguage}
+              onChange={(e) => setOptions(o => ({ ...o, detectLanguage: e.target.checked }))}
+              className="accent-[var(--primary)]"
+            />
+            Detect language
+          </label>
+          <select
+            value={options.targetLanguage}
+            onChange={(e) => setOptions(o => ({ ...o, targetLanguage: e.target.value }))}
+            className="bg-slate-900 border border-slate-700 rounded-xl px-3 py-2 outline-none"
+            title="Translate the transcript"
+          >
+            <option value="">No translation</option>
+            {TRANSLATION_LANGUAGES.map(l => <option key={l} value={l}>Translate to {l}</option>)}
+          </select>
+        </div>
+
+        {chunkStates.length > 1 && (
+          <div className="mt-4 w-full max-w-md">
+            <div className="flex gap-0.5 h-1.5 rounded-full overflow-hidden">
+              {chunkStates.map((c, i) => <div key={i} className={`flex-1 ${CHUNK_COLORS[c.status]}`} title={`Chunk ${i + 1}: ${c.status}`} />)}
+            </div>
+            <p className="text-[10px] font-bold uppercase tracking-widest text-slate-500 mt-2">
+              {doneCount} / {chunkStates.length} chunks
+              {failedCount > 0 && !isLoading && (
+                <button onClick={handleRetryFailed} className="ml-3 text-red-400 hover:text-red-300 underline">
+                  Retry {failedCount} failed
+                </button>
+              )}
+            </p>
           </div>
         )}
+
+        <ErrorBanner error={error} onDismiss={() => setError(null)} onSelectKey={onSelectKey} onRetry={failedCount > 0 ? handleRetryFailed : undefined} className="mt-6 max-w-md w-full text-left" />
       </div>
 
       <div className="bg-slate-900/50 rounded-3xl p-8 border border-slate-800 min-h-[200px]">
-        <h3 className="text-sm font-semibold text-slate-500 uppercase tracking-widest mb-4">Transcription Result</h3>
-        <div className={`text-xl leading-relaxed ${isLoading ? 'text-slate-600 animate-pulse' : 'text-slate-200'}`}>
-          {transcription || "Your text will appear here once you finish recording."}
+        <div className="flex items-center justify-between gap-4 mb-4">
+          <h3 className="text-sm font-semibold text-slate-500 uppercase tracking-widest">Transcription Result</h3>
+          <div className="flex gap-1">
+            {SEGMENT_FORMATS.map(f => (
+              <button
+                key={f.extension}
+                onClick={() => handleExport(f)}
+                disabled={segments.length === 0}
+                className="px-2 py-1 rounded-lg border border-slate-700 text-[10px] font-bold text-slate-400 hover:text-white disabled:opacity-40 transition-all"
+                title={`Download as .${f.extension}`}
+              >
+                ⬇ {f.label}
+              </button>
+            ))}
+          </div>
         </div>
+
+        {source && (
+          source.isVideo ? (
+            <video ref={el => { mediaRef.current = el; }} src={source.url} controls onTimeUpdate={(e) => setPositionSec(e.currentTarget.currentTime)} className="w-full max-h-72 rounded-2xl bg-black mb-4" />
+          ) : (
+            <audio ref={el => { mediaRef.current = el; }} src={source.url} controls onTimeUpdate={(e) => setPositionSec(e.currentTarget.currentTime)} className="w-full mb-4" />
+          )
+        )}
+
+        {segments.length > 0 ? (
+          <SegmentTable segments={segments} onChange={(edited) => setEdits(diffEdits(stitched, edited))} positionSec={positionSec} onSeek={source ? seekTo : undefined} />
+        ) : (
+          <div className={`text-xl leading-relaxed ${isLoading ? 'text-slate-600 animate-pulse' : 'text-slate-200'}`}>
+            {isLoading ? 'Transcribing your audio...' : failedCount > 0 ? 'Transcription failed.' : chunkStates.length > 0 ? 'No speech was found.' : 'Your text will appear here once you finish recording.'}
+          </div>
+        )}
       </div>
+
+      {segments.length > 0 && !isLoading && (
+        <MeetingReportPanel
+          key={source?.url}
+          transcript={segmentsToText(segments)}
+          title={source?.name.replace(/\.[^.]+$/, '') ?? 'Transcript'}
+          models={models}
+          onModelChange={onModelChange}
+          onSelectKey={onSelectKey}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,323 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { UserSettings } from '../../App';
+import { MODELS } from '../../services/gemini';
+import {
+  listUsage, clearUsage, subscribeUsage, summarizeUsage, bucketUsage, budgetStatus, usageToTable, startOfMonth,
+  DEFAULT_PRICES, BUDGET_WARNING_RATIO, SESSION_ID, ModelPrice, UsageEvent,
+} from '../../services/usage';
+import { tableToCSV } from '../../services/structuredOutput';
+import { downloadText, fileTimestamp } from '../../services/download';
+
+interface UsageLabProps {
+  settings: UserSettings;
+  setSettings: React.Dispatch<React.SetStateAction<UserSettings>>;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const RANGES = [
+  { id: 'day', label: '24h', ms: 24 * HOUR_MS },
+  { id: 'week', label: '7d', ms: 7 * 24 * HOUR_MS },
+  { id: 'month', label: '30d', ms: 30 * 24 * HOUR_MS },
+  { id: 'all', label: 'All', ms: Infinity },
+] as const;
+
+type RangeId = typeof RANGES[number]['id'];
+type Breakdown = 'lab' | 'model';
+
+const PRICE_FIELDS: { key: keyof ModelPrice; label: string }[] = [
+  { key: 'input', label: 'Input' },
+  { key: 'cachedInput', label: 'Cached' },
+  { key: 'output', label: 'Output' },
+];
+
+const usd = (value: number) => value === 0 ? '$0.00' : value < 0.01 ? `$${value.toFixed(4)}` : `$${value.toFixed(2)}`;
+const compact = (value: number) => Intl.NumberFormat('en', { notation: 'compact', maximumFractionDigits: 1 }).format(value);
+
+const UsageLab: React.FC<UsageLabProps> = ({ settings, setSettings }) => {
+  const [events, setEvents] = useState<UsageEvent[]>([]);
+  const [range, setRange] = useState<RangeId>('week');
+  const [breakdown, setBreakdown] = useState<Breakdown>('lab');
+  const [metric, setMetric] = useState<'cost' | 'tokens'>('cost');
+
+  const prices = useMemo(() => ({ ...DEFAULT_PRICES, ...settings.prices }), [settings.prices]);
+  const rangeMs = RANGES.find(r => r.id === range)!.ms;
+
+  useEffect(() => {
+    let cancelled = false;
+    const unsubscribe = subscribeUsage(event => setEvents(prev => [...prev, event]));
+    // Budgets are monthly at most, so the month is always loaded even for shorter ranges
+    const since = rangeMs === Infinity ? 0 : Math.min(Date.now() - rangeMs, startOfMonth());
+    listUsage(since)
+      .then(loaded => {
+        if (cancelled) return;
+        const latest = loaded.reduce((max, e) => Math.max(max, e.timestamp), 0);
+        setEvents(prev => [...loaded, ...prev.filter(e => e.timestamp > latest)]);
+      })
+      .catch(err => console.error("Failed to load usage:", err));
+    return () => { cancelled = true; unsubscribe(); };
+  }, [rangeMs]);
+
+  const from = rangeMs === Infinity ? (events[0]?.timestamp ?? Date.now()) : Date.now() - rangeMs;
+  const inRange = useMemo(() => events.filter(e => e.timestamp >= from), [events, from]);
+  const totals = useMemo(() => summarizeUsage(inRange, prices, () => 'all')[0], [inRange, prices]);
+  const sessionCost = useMemo(() => summarizeUsage(events.filter(e => e.sessionId === SESSION_ID), prices, () => 'session')[0]?.cost ?? 0, [events, prices]);
+  const rows = useMemo(() => summarizeUsage(inRange, prices, e => e[breakdown]), [inRange, prices, breakdown]);
+  const buckets = useMemo(() => bucketUsage(inRange, prices, range === 'day' ? 'hour' : 'day', from), [inRange, prices, range, from]);
+  const budgets = budgetStatus(events, prices, settings.budget);
+  const peak = Math.max(...buckets.map(b => metric === 'cost' ? b.cost : b.tokens), 0);
+
+  // Every known model gets a price row, plus any the API reported under another name
+  const priceRows = useMemo(() => {
+    const ids = new Set([...Object.keys(DEFAULT_PRICES), ...MODELS.filter(m => m.capabilities.includes('text')).map(m => m.id), ...Object.keys(settings.prices)]);
+    events.forEach(e => { if (!Object.keys(prices).some(id => e.model.startsWith(id))) ids.add(e.model); });
+    return [...ids];
+  }, [events, prices, settings.prices]);
+
+  const updatePrice = (model: string, key: keyof ModelPrice, value: string) => {
+    const current = prices[model] ?? { input: 0, output: 0, cachedInput: 0 };
+    setSettings(prev => ({ ...prev, prices: { ...prev.prices, [model]: { ...current, [key]: Math.max(0, Number(value) || 0) } } }));
+  };
+
+  const updateBudget = (period: 'daily' | 'monthly', value: string) => {
+    setSettings(prev => ({ ...prev, budget: { ...prev.budget, [period]: Math.max(0, Number(value) || 0) } }));
+  };
+
+  const handleClear = async () => {
+    if (!window.confirm('Delete all recorded usage?')) return;
+    try {
+      await clearUsage();
+      setEvents([]);
+    } catch (err) {
+      console.error("Failed to clear usage:", err);
+    }
+  };
+
+  return (
+    <div className="p-8 max-w-6xl mx-auto space-y-8 animate-fadeIn">
+      <div className="flex flex-wrap items-center gap-2">
+        <div className="flex bg-slate-900 rounded-lg p-0.5 border border-slate-700 mr-auto">
+          {RANGES.map(r => (
+            <button
+              key={r.id}
+              onClick={() => setRange(r.id)}
+              className={`px-3 py-1 rounded-md text-[10px] font-bold uppercase tracking-widest transition-all ${range === r.id ? 'bg-slate-700 text-white' : 'text-slate-500 hover:text-slate-300'}`}
+            >
+              {r.label}
+            </button>
+          ))}
+        </div>
+        <button
+          onClick={() => downloadText(tableToCSV(usageToTable(inRange, prices)), `usage-${fileTimestamp()}.csv`, 'text/csv')}
+          disabled={inRange.length === 0}
+          className="px-2 py-1 rounded-lg border border-slate-700 text-[10px] font-bold text-slate-400 hover:text-white disabled:opacity-40 transition-all"
+        >
+          ⬇ CSV
+        </button>
+        <button
+          onClick={handleClear}
+          disabled={events.length === 0}
+          className="px-2 py-1 rounded-lg border border-slate-700 text-[10px] font-bold text-slate-400 hover:text-red-400 disabled:opacity-40 transition-all"
+        >
+          Clear
+        </button>
+      </div>
+
+      {budgets.filter(b => b.ratio >= BUDGET_WARNING_RATIO).map(b => (
+        <div
+          key={b.period}
+          role="alert"
+          className={`p-4 rounded-2xl border text-sm ${b.ratio >= 1 ? 'bg-red-500/10 border-red-500/30 text-red-300' : 'bg-amber-500/10 border-amber-500/30 text-amber-300'}`}
+        >
+          <p className="font-bold">{b.ratio >= 1 ? `${b.period === 'daily' ? 'Daily' : 'Monthly'} budget exceeded` : `${Math.round(b.ratio * 100)}% of the ${b.period} budget used`}</p>
+          <p className="text-xs opacity-80">An estimated {usd(b.spent)} of {usd(b.limit)} spent {b.period === 'daily' ? 'today' : 'this month'}.</p>
+        </div>
+      ))}
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {[
+          { label: 'Calls', value: compact(totals?.calls ?? 0) },
+          { label: 'Tokens', value: compact(totals?.totalTokens ?? 0) },
+          { label: 'Est. Cost', value: usd(totals?.cost ?? 0), hint: `This session: ${usd(sessionCost)}` },
+          { label: 'Avg Latency', value: totals?.avgLatencyMs !== undefined ? `${(totals.avgLatencyMs / 1000).toFixed(2)}s` : '—' },
+        ].map(card => (
+          <div key={card.label} className="bg-slate-800/50 rounded-2xl p-5 border border-slate-700">
+            <div className="text-[10px] font-bold uppercase tracking-widest text-slate-500">{card.label}</div>
+            <div className="text-2xl font-black text-slate-100 mt-1">{card.value}</div>
+            {card.hint && <div className="text-[10px] text-slate-500 mt-1">{card.hint}</div>}
+          </div>
+        ))}
+      </div>
+
+      <section className="bg-slate-800/50 rounded-3xl p-6 border border-slate-700 space-y-4">
+        <div className="flex items-center justify-between">
+          <h3 className="text-sm font-semibold text-slate-400 uppercase tracking-wider">Usage Over Time</h3>
+          <div className="flex bg-slate-900 rounded-lg p-0.5 border border-slate-700">
+            {(['cost', 'tokens'] as const).map(m => (
+              <button
+                key={m}
+                onClick={() => setMetric(m)}
+                className={`px-2.5 py-1 rounded-md text-[10px] font-bold uppercase tracking-widest transition-all ${metric === m ? 'bg-slate-700 text-white' : 'text-slate-500 hover:text-slate-300'}`}
+              >
+                {m}
+              </button>
+            ))}
+          </div>
+        </div>
+        <div className="flex items-end gap-px h-40">
+          {buckets.map(b => {
+            const value = metric === 'cost' ? b.cost : b.tokens;
+            const label = new Date(b.start).toLocaleString(undefined, range === 'day' ? { hour: 'numeric' } : { month: 'short', day: 'numeric' });
+            return (
+              <div
+                key={b.start}
+                title={`${label}: ${usd(b.cost)} · ${b.tokens.toLocaleString()} tokens · ${b.calls} calls`}
+                className="flex-1 min-w-[2px] rounded-t bg-[var(--primary)] hover:brightness-125 transition-all"
+                style={{ height: peak > 0 ? `${Math.max(value > 0 ? 2 : 0, (value / peak) * 100)}%` : 0 }}
+              />
+            );
+          })}
+        </div>
+        {buckets.length > 0 && (
+          <div className="flex justify-between text-[10px] text-slate-500">
+            <span>{new Date(buckets[0].start).toLocaleString()}</span>
+            <span>Peak {metric === 'cost' ? usd(peak) : `${compact(peak)} tokens`}</span>
+          </div>
+        )}
+      </section>
+
+      <section className="bg-slate-800/50 rounded-3xl p-6 border border-slate-700 space-y-4">
+        <div className="flex items-center justify-between">
+          <h3 className="text-sm font-semibold text-slate-400 uppercase tracking-wider">Breakdown</h3>
+          <div className="flex bg-slate-900 rounded-lg p-0.5 border border-slate-700">
+            {(['lab', 'model'] as const).map(b => (
+              <button
+                key={b}
+                onClick={() => setBreakdown(b)}
+                className={`px-2.5 py-1 rounded-md text-[10px] font-bold uppercase tracking-widest transition-all ${breakdown === b ? 'bg-slate-700 text-white' : 'text-slate-500 hover:text-slate-300'}`}
+              >
+                By {b}
+              </button>
+            ))}
+          </div>
+        </div>
+        {rows.length === 0 ? (
+          <p className="text-sm text-slate-500">No Gemini calls recorded in this range yet.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="text-left text-[10px] uppercase tracking-widest text-slate-500">
+                  <th className="py-2 pr-3">{breakdown === 'lab' ? 'Lab' : 'Model'}</th>
+                  <th className="py-2 pr-3 text-right">Calls</th>
+                  <th className="py-2 pr-3 text-right">Input</th>
+                  <th className="py-2 pr-3 text-right">Cached</th>
+                  <th className="py-2 pr-3 text-right">Output</th>
+                  <th className="py-2 pr-3 text-right">Thinking</th>
+                  <th className="py-2 pr-3 text-right">Latency</th>
+                  <th className="py-2 text-right">Est. Cost</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map(r => (
+                  <tr key={r.key} className="border-t border-slate-800 text-slate-300">
+                    <td className="py-2 pr-3 font-bold">{r.key}</td>
+                    <td className="py-2 pr-3 text-right font-mono">{r.calls}</td>
+                    <td className="py-2 pr-3 text-right font-mono">{compact(r.promptTokens)}</td>
+                    <td className="py-2 pr-3 text-right font-mono">{compact(r.cachedTokens)}</td>
+                    <td className="py-2 pr-3 text-right font-mono">{compact(r.candidatesTokens)}</td>
+                    <td className="py-2 pr-3 text-right font-mono">{compact(r.thoughtsTokens)}</td>
+                    <td className="py-2 pr-3 text-right font-mono">{r.avgLatencyMs !== undefined ? `${(r.avgLatencyMs / 1000).toFixed(2)}s` : '—'}</td>
+                    <td className="py-2 text-right font-mono" title={r.unpriced > 0 ? `${r.unpriced} calls have no price and are not included` : undefined}>
+                      {usd(r.cost)}{r.unpriced > 0 && <span className="text-amber-400"> *</span>}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </section>
+
+      <div className="grid md:grid-cols-3 gap-8">
+        <section className="bg-slate-800/50 rounded-3xl p-6 border border-slate-700 space-y-4">
+          <h3 className="text-sm font-semibold text-slate-400 uppercase tracking-wider">Budget Alerts</h3>
+          <p className="text-xs text-slate-500">Warns at {Math.round(BUDGET_WARNING_RATIO * 100)}% of a budget. Leave at 0 to turn a limit off.</p>
+          {(['daily', 'monthly'] as const).map(period => {
+            const status = budgets.find(b => b.period === period);
+            return (
+              <div key={period} className="space-y-1.5">
+                <label className="flex items-center justify-between text-xs font-bold text-slate-300 capitalize">
+                  {period} (USD)
+                  <input
+                    type="number"
+                    min={0}
+                    step={0.5}
+                    value={settings.budget[period] || ''}
+                    onChange={(e) => updateBudget(period, e.target.value)}
+                    placeholder="Off"
+                    className="w-24 bg-slate-900 border border-slate-700 rounded-lg px-2 py-1 text-right font-mono outline-none"
+                  />
+                </label>
+                {status && (
+                  <div className="h-1.5 bg-slate-900 rounded-full overflow-hidden" title={`${usd(status.spent)} of ${usd(status.limit)}`}>
+                    <div
+                      className={`h-full rounded-full ${status.ratio >= 1 ? 'bg-red-500' : status.ratio >= BUDGET_WARNING_RATIO ? 'bg-amber-500' : 'bg-emerald-500'}`}
+                      style={{ width: `${Math.min(100, status.ratio * 100)}%` }}
+                    />
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </section>
+
+        <section className="md:col-span-2 bg-slate-800/50 rounded-3xl p-6 border border-slate-700 space-y-4">
+          <div className="flex items-center justify-between">
+            <h3 className="text-sm font-semibold text-slate-400 uppercase tracking-wider">Prices (USD per 1M tokens)</h3>
+            <button
+              onClick={() => setSettings(prev => ({ ...prev, prices: {} }))}
+              disabled={Object.keys(settings.prices).length === 0}
+              className="px-2 py-1 rounded-lg border border-slate-700 text-[10px] font-bold text-slate-400 hover:text-white disabled:opacity-40 transition-all"
+            >
+              Reset
+            </button>
+          </div>
+          <p className="text-xs text-slate-500">Costs are estimates from these list prices. Thinking tokens count as output.</p>
+          <div className="max-h-72 overflow-y-auto">
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="text-left text-[10px] uppercase tracking-widest text-slate-500">
+                  <th className="py-2 pr-3">Model</th>
+                  {PRICE_FIELDS.map(f => <th key={f.key} className="py-2 pr-3 text-right">{f.label}</th>)}
+                </tr>
+              </thead>
+              <tbody>
+                {priceRows.map(model => (
+                  <tr key={model} className="border-t border-slate-800">
+                    <td className={`py-1.5 pr-3 font-mono ${settings.prices[model] ? 'text-[var(--primary)]' : 'text-slate-300'}`}>{model}</td>
+                    {PRICE_FIELDS.map(f => (
+                      <td key={f.key} className="py-1.5 pr-3 text-right">
+                        <input
+                          type="number"
+                          min={0}
+                          step={0.01}
+                          value={prices[model]?.[f.key] ?? ''}
+                          onChange={(e) => updatePrice(model, f.key, e.target.value)}
+                          placeholder="—"
+                          className="w-20 bg-slate-900 border border-slate-700 rounded-lg px-2 py-1 text-right font-mono text-slate-300 outline-none"
+                        />
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </section>
+      </div>
+    </div>
+  );
+};
+
+export default UsageLab;
@@ -0,0 +1,111 @@
+import React from 'react';
+import { Variation } from '../services/imageVariations';
+
+interface VariationGridProps {
+  variations: Variation[];
+  selectedIds: string[];
+  onToggle: (id: string) => void;
+  onSelectAll: (ids: string[]) => void;
+  onView: (variation: Variation) => void;
+  onUseAsSource: (variation: Variation) => void;
+  onSave: () => void;
+  onDownload: () => void;
+  onClose: () => void;
+}
+
+// Results of a variations run; tiles fill in as their calls finish
+const VariationGrid: React.FC<VariationGridProps> = (props) => {
+  const { variations, selectedIds, onToggle, onSelectAll, onView, onUseAsSource, onSave, onDownload, onClose } = props;
+  const done = variations.filter(v => v.status === 'done');
+  const selected = done.filter(v => selectedIds.includes(v.id));
+  const unsaved = selected.filter(v => v.savedId === undefined);
+  const pending = variations.filter(v => v.status === 'pending').length;
+  const columns = variations.length <= 4 ? 'grid-cols-2' : variations.length <= 9 ? 'grid-cols-3' : 'grid-cols-4';
+
+  return (
+    <div className="w-full h-full flex flex-col gap-3 p-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-[10px] font-black uppercase tracking-widest text-slate-500 mr-auto">
+          {pending > 0 ? `${done.length}/${variations.length} ready` : `${selected.length} of ${done.length} selected`}
+        </span>
+        <button
+          onClick={() => onSelectAll(selected.length === done.length ? [] : done.map(v => v.id))}
+          disabled={done.length === 0}
+          className="px-3 py-1.5 rounded-lg border border-slate-200 dark:border-slate-700 text-[10px] font-black uppercase tracking-widest text-slate-500 hover:text-slate-900 dark:hover:text-white disabled:opacity-40 transition-all"
+        >
+          {selected.length === done.length && done.length > 0 ? 'Select None' : 'Select All'}
+        </button>
+        <button
+          onClick={onSave}
+          disabled={unsaved.length === 0}
+          className="px-3 py-1.5 rounded-lg border border-slate-200 dark:border-slate-700 text-[10px] font-black uppercase tracking-widest text-slate-500 hover:text-slate-900 dark:hover:text-white disabled:opacity-40 transition-all"
+        >
+          Save {unsaved.length > 0 && unsaved.length} to History
+        </button>
+        <button
+          onClick={onDownload}
+          disabled={selected.length === 0}
+          className="px-3 py-1.5 rounded-lg border border-slate-200 dark:border-slate-700 text-[10px] font-black uppercase tracking-widest text-slate-500 hover:text-slate-900 dark:hover:text-white disabled:opacity-40 transition-all"
+        >
+          ⬇ ZIP
+        </button>
+        <button onClick={onClose} className="px-3 py-1.5 rounded-lg border border-slate-200 dark:border-slate-700 text-[10px] font-black uppercase tracking-widest text-slate-500 hover:text-slate-900 dark:hover:text-white transition-all">
+          Close
+        </button>
+      </div>
+
+      <div className={`flex-1 min-h-0 overflow-y-auto grid ${columns} gap-2 content-start no-scrollbar`}>
+        {variations.map(v => {
+          const isSelected = selectedIds.includes(v.id);
+          return (
+            <div
+              key={v.id}
+              onClick={() => v.status === 'done' && onToggle(v.id)}
+              className={`group relative aspect-square rounded-xl overflow-hidden border-2 bg-slate-100 dark:bg-slate-800 ${isSelected ? 'border-[var(--primary)]' : 'border-transparent'} ${v.status === 'done' ? 'cursor-pointer' : ''}`}
+            >
+              {v.status === 'pending' && (
+                <div className="w-full h-full flex items-center justify-center text-3xl animate-pulse">🎨</div>
+              )}
+              {v.status === 'error' && (
+                <div className="w-full h-full flex flex-col items-center justify-center gap-1 p-2 text-center">
+                  <span className="text-xl">⚠️</span>
+                  <span className="text-[9px] text-red-400 line-clamp-3">{v.error}</span>
+                </div>
+              )}
+              {v.status === 'done' && v.url && (
+                <>
+                  <img src={v.url} alt={v.prompt} className="w-full h-full object-cover" />
+                  <span className={`absolute top-1.5 left-1.5 w-4 h-4 rounded-full border-2 border-white flex items-center justify-center text-[9px] text-white ${isSelected ? 'bg-[var(--primary)]' : 'bg-black/30'}`}>
+                    {isSelected && '✓'}
+                  </span>
+                  {v.savedId !== undefined && (
+                    <span className="absolute top-1.5 right-1.5 px-1.5 rounded bg-black/60 text-white text-[8px] font-black uppercase">Saved</span>
+                  )}
+                  <div className="absolute inset-x-0 bottom-0 p-1.5 bg-gradient-to-t from-black/80 to-transparent opacity-0 group-hover:opacity-100 transition-opacity">
+                    <p className="text-[9px] text-white line-clamp-2 mb-1">{v.prompt}</p>
+                    <div className="flex gap-1">
+                      <button
+                        onClick={(e) => { e.stopPropagation(); onView(v); }}
+                        className="flex-1 px-1.5 py-0.5 rounded bg-white/90 text-slate-900 text-[9px] font-bold"
+                      >
+                        View
+                      </button>
+                      <button
+                        onClick={(e) => { e.stopPropagation(); onUseAsSource(v); }}
+                        className="flex-1 px-1.5 py-0.5 rounded bg-white/90 text-slate-900 text-[9px] font-bold"
+                      >
+                        Use as Source
+                      </button>
+                    </div>
+                  </div>
+                </>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default VariationGrid;
@@ -0,0 +1,80 @@
+import React, { useState } from 'react';
+
+interface CompareImage {
+  url: string;
+  label: string;
+}
+
+interface VersionCompareProps {
+  before: CompareImage;
+  after: CompareImage;
+  onClose: () => void;
+}
+
+// Two image versions either next to each other or stacked with a draggable divider
+const VersionCompare: React.FC<VersionCompareProps> = ({ before, after, onClose }) => {
+  const [view, setView] = useState<'side' | 'slider'>('slider');
+  const [position, setPosition] = useState(50);
+
+  return (
+    <div className="w-full h-full flex flex-col gap-3 p-4">
+      <div className="flex items-center gap-2">
+        <div className="flex bg-slate-100 dark:bg-slate-800 p-1 rounded-xl border border-slate-200 dark:border-slate-700">
+          {(['slider', 'side'] as const).map(v => (
+            <button
+              key={v}
+              onClick={() => setView(v)}
+              className={`px-3 py-1.5 rounded-lg text-[10px] font-black uppercase tracking-widest transition-all ${view === v ? 'bg-[var(--primary)] text-white' : 'text-slate-500 hover:text-slate-900 dark:hover:text-white'}`}
+            >
+              {v === 'slider' ? 'Slider' : 'Side by Side'}
+            </button>
+          ))}
+        </div>
+        <button onClick={onClose} className="ml-auto px-3 py-1.5 rounded-lg border border-slate-200 dark:border-slate-700 text-[10px] font-black uppercase tracking-widest text-slate-500 hover:text-slate-900 dark:hover:text-white transition-all">
+          Close
+        </button>
+      </div>
+
+      {view === 'side' ? (
+        <div className="flex-1 min-h-0 grid grid-cols-2 gap-3">
+          {[before, after].map((image, i) => (
+            <figure key={i} className="flex flex-col min-h-0">
+              <img src={image.url} alt={image.label} className="flex-1 min-h-0 w-full object-contain" />
+              <figcaption className="text-[10px] font-bold text-slate-500 text-center mt-1 truncate">{image.label}</figcaption>
+            </figure>
+          ))}
+        </div>
+      ) : (
+        <div className="flex-1 min-h-0 flex flex-col items-center justify-center gap-2">
+          <div className="relative max-w-full max-h-full select-none">
+            <img src={before.url} alt={before.label} draggable={false} className="block max-w-full max-h-[56vh] object-contain" />
+            {/* The newer version is drawn over the older one and clipped at the divider */}
+            <img
+              src={after.url}
+              alt={after.label}
+              draggable={false}
+              className="absolute inset-0 w-full h-full object-fill"
+              style={{ clipPath: `inset(0 ${100 - position}% 0 0)` }}
+            />
+            <div className="absolute inset-y-0 w-0.5 bg-white shadow-[0_0_6px_rgba(0,0,0,0.6)] pointer-events-none" style={{ left: `${position}%` }} />
+            <input
+              type="range"
+              min={0}
+              max={100}
+              value={position}
+              onChange={(e) => setPosition(Number(e.target.value))}
+              aria-label="Divider position"
+              className="absolute inset-0 w-full h-full opacity-0 cursor-ew-resize"
+            />
+          </div>
+          <div className="w-full flex justify-between text-[10px] font-bold text-slate-500">
+            <span className="truncate">◀ {after.label}</span>
+            <span className="truncate">{before.label} ▶</span>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default VersionCompare;
@@ -0,0 +1,80 @@
+import React from 'react';
+import { childrenOf, ImageHistoryItem } from '../services/imageHistory';
+
+interface VersionTreeProps {
+  items: ImageHistoryItem[];
+  activeId: number | null;
+  compareIds: number[];
+  onSelect: (item: ImageHistoryItem) => void;
+  onContinue: (item: ImageHistoryItem) => void;
+  onToggleCompare: (id: number) => void;
+  onDelete: (id: number) => void;
+}
+
+const MODE_LABELS: Record<ImageHistoryItem['mode'], string> = {
+  generate: 'Generated',
+  edit: 'Edit',
+  source: 'Upload',
+};
+
+// Branching view of Creative Studio's versions; every edit sits under the image it came from
+const VersionTree: React.FC<VersionTreeProps> = (props) => {
+  const { items, activeId, compareIds, onSelect, onContinue, onToggleCompare, onDelete } = props;
+
+  const renderNode = (item: ImageHistoryItem): React.ReactNode => {
+    const children = childrenOf(items, item.id);
+    const comparing = compareIds.includes(item.id);
+    return (
+      <li key={item.id}>
+        <div
+          onClick={() => onSelect(item)}
+          className={`group flex gap-2 p-1.5 rounded-xl border cursor-pointer transition-all ${item.id === activeId ? 'border-[var(--primary)] bg-[var(--primary-glow)]' : 'border-transparent hover:bg-slate-100 dark:hover:bg-slate-800'}`}
+        >
+          <img src={item.thumbUrl} className="w-12 h-12 rounded-lg object-cover shrink-0 border border-slate-200 dark:border-slate-700" alt="" />
+          <div className="flex-1 min-w-0">
+            <p className="text-[10px] font-bold line-clamp-2 leading-tight">{item.prompt || 'Untitled'}</p>
+            <div className="flex items-center gap-1 mt-1">
+              <span className="text-[7px] text-slate-400 uppercase font-black mr-auto">
+                {MODE_LABELS[item.mode]}
+                {item.references && ` · ${item.references.length} ref${item.references.length === 1 ? '' : 's'}`}
+                {children.length > 1 && ` · ${children.length} branches`}
+              </span>
+              <button
+                onClick={(e) => { e.stopPropagation(); onContinue(item); }}
+                title={children.length > 0 ? 'Fork a new branch from this version' : 'Continue editing this version'}
+                className="px-1.5 py-0.5 rounded text-[9px] font-bold text-slate-400 hover:text-[var(--primary)]"
+              >
+                {children.length > 0 ? '⑂ Fork' : '✎ Edit'}
+              </button>
+              <button
+                onClick={(e) => { e.stopPropagation(); onToggleCompare(item.id); }}
+                title="Select for comparison"
+                className={`px-1.5 py-0.5 rounded text-[9px] font-bold ${comparing ? 'text-[var(--primary)]' : 'text-slate-400 hover:text-[var(--primary)]'}`}
+              >
+                ⇆
+              </button>
+              <button
+                onClick={(e) => { e.stopPropagation(); onDelete(item.id); }}
+                title="Delete this version"
+                className="p-0.5 text-slate-400 hover:text-red-400"
+              >
+                <svg className="w-3 h-3" fill="currentColor" viewBox="0 0 24 24">
+                  <path d="M6 19c0 1.1.9 2 2 2h8c1.1 0 2-.9 2-2V7H6v12zM19 4h-3.5l-1-1h-5l-1 1H5v2h14V4z" />
+                </svg>
+              </button>
+            </div>
+          </div>
+        </div>
+        {children.length > 0 && (
+          <ul className="ml-4 pl-2 border-l border-slate-200 dark:border-slate-700 space-y-1 mt-1">
+            {children.map(renderNode)}
+          </ul>
+        )}
+      </li>
+    );
+  };
+
+  return <ul className="space-y-2">{childrenOf(items, undefined).map(renderNode)}</ul>;
+};
+
+export default VersionTree;
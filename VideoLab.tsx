@@ -1,13 +1,18 @@
 
 import React, { useState } from 'react';
-import { getAI, fileToBase64, improvePrompt } from '../../services/gemini';
+import { getAI, fileToBase64, improvePrompt, resolveModel, withModelFallback, ModelPreferences, ModelSlot } from '../../services/gemini';
+import { callGemini, classifyError, GeminiError } from '../../services/errors';
+import ModelPicker from '../ModelPicker';
+import ErrorBanner from '../ErrorBanner';
 
 interface VideoLabProps {
   onSelectKey: () => void;
   hasKey: boolean;
+  models: ModelPreferences;
+  onModelChange: (slot: ModelSlot, model: string) => void;
 }
 
-const VideoLab: React.FC<VideoLabProps> = ({ onSelectKey, hasKey }) => {
+const VideoLab: React.FC<VideoLabProps> = ({ onSelectKey, hasKey, models, onModelChange }) => {
   const [prompt, setPrompt] = useState('');
   const [aspectRatio, setAspectRatio] = useState<'16:9' | '9:16'>('16:9');
   const [resolution, setResolution] = useState<'720p' | '1080p'>('720p');
@@ -17,6 +22,7 @@ const VideoLab: React.FC<VideoLabProps> = ({ onSelectKey, hasKey }) => {
   const [loadingStep, setLoadingStep] = useState('');
   const [sourceImage, setSourceImage] = useState<File | null>(null);
   const [sourcePreview, setSourcePreview] = useState<string | null>(null);
+  const [error, setError] = useState<GeminiError | null>(null);
 
   const handleImprove = async () => {
     if (!prompt.trim() || isImproving) return;
@@ -43,14 +49,15 @@ const VideoLab: React.FC<VideoLabProps> = ({ onSelectKey, hasKey }) => {
 
     setIsLoading(true);
     setVideoUrl(null);
+    setError(null);
     setLoadingStep("Starting video generation...");
 
     try {
       const ai = getAI();
       const base64Img = sourceImage ? await fileToBase64(sourceImage) : undefined;
       
-      let operation = await ai.models.generateVideos({
-        model: 'veo-3.1-fast-generate-preview',
+      let operation = await callGemini(() => withModelFallback(resolveModel('video', models), model => ai.models.generateVideos({
+        model,
         prompt: prompt || 'Animate this image beautifully',
         image: base64Img ? {
           imageBytes: base64Img,
@@ -61,7 +68,7 @@ const VideoLab: React.FC<VideoLabProps> = ({ onSelectKey, hasKey }) => {
           resolution,
           aspectRatio
         }
-      });
+      })));
 
       const messages = [
         "Thinking about the frames...",
@@ -77,18 +84,26 @@ const VideoLab: React.FC<VideoLabProps> = ({ onSelectKey, hasKey }) => {
         setLoadingStep(messages[msgIndex % messages.length]);
         msgIndex++;
         await new Promise(resolve => setTimeout(resolve, 10000));
-        operation = await ai.operations.getVideosOperation({ operation: operation });
+        operation = await callGemini(() => ai.operations.getVideosOperation({ operation: operation }));
+      }
+
+      if (operation.error) {
+        throw classifyError(new Error(`${operation.error.code ?? ''} ${operation.error.message ?? 'Video generation failed.'}`));
       }
 
       const downloadLink = operation.response?.generatedVideos?.[0]?.video?.uri;
       if (downloadLink) {
-        const fetchResp = await fetch(`${downloadLink}&key=${process.env.API_KEY}`);
+        const fetchResp = await callGemini(async () => {
+          const resp = await fetch(`${downloadLink}&key=${process.env.API_KEY}`);
+          if (!resp.ok) throw Object.assign(new Error(`Video download failed: ${resp.statusText}`), { status: resp.status });
+          return resp;
+        });
         const blob = await fetchResp.blob();
         setVideoUrl(URL.createObjectURL(blob));
       }
     } catch (err) {
       console.error(err);
-      alert("Error generating video. Make sure your API key is correct.");
+      setError(classifyError(err));
     } finally {
       setIsLoading(false);
       setLoadingStep("");
@@ -109,6 +124,8 @@ const VideoLab: React.FC<VideoLabProps> = ({ onSelectKey, hasKey }) => {
         </div>
       )}
 
+      <ErrorBanner error={error} onDismiss={() => setError(null)} onSelectKey={onSelectKey} onRetry={handleGenerate} />
+
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
         <div className="space-y-6">
           <div className="space-y-2 relative">
@@ -143,6 +160,11 @@ const VideoLab: React.FC<VideoLabProps> = ({ onSelectKey, hasKey }) => {
             </div>
           </div>
 
+          <div className="space-y-2">
+            <label className="text-sm font-semibold text-slate-400 uppercase">Model</label>
+            <ModelPicker slot="video" value={resolveModel('video', models)} onChange={m => onModelChange('video', m)} className="w-full p-3 rounded-xl text-sm" />
+          </div>
+
           <div className="grid grid-cols-2 gap-4">
             <div className="space-y-2">
               <label className="text-sm font-semibold text-slate-400 uppercase">Aspect Ratio</label>
@@ -0,0 +1,56 @@
+import React, { useEffect, useRef } from 'react';
+import { TimelineEntry } from '../services/videoAnalysis';
+import { formatClock } from '../services/liveTranscript';
+
+interface VideoTimelineViewProps {
+  entries: TimelineEntry[];
+  // Playback position in seconds, used to highlight the active scene
+  currentTime: number;
+  onSeek: (seconds: number) => void;
+}
+
+// Scene list for a video; clicking a scene seeks the player to its start
+const VideoTimelineView: React.FC<VideoTimelineViewProps> = ({ entries, currentTime, onSeek }) => {
+  const activeRef = useRef<HTMLButtonElement>(null);
+  // The last scene that has started, so gaps between scenes keep the previous one highlighted
+  const active = entries.reduce((found, e, i) => (e.start <= currentTime ? i : found), -1);
+
+  useEffect(() => {
+    activeRef.current?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+  }, [active]);
+
+  if (entries.length === 0) return <p className="text-slate-500">No scenes found.</p>;
+
+  return (
+    <div className="space-y-1">
+      {entries.map((e, i) => (
+        <button
+          key={i}
+          ref={i === active ? activeRef : undefined}
+          onClick={() => onSeek(e.start)}
+          className={`w-full text-left flex gap-3 px-3 py-2 rounded-xl border transition-all ${i === active ? 'bg-white/10 border-[var(--primary)]' : 'border-transparent hover:bg-white/5'}`}
+        >
+          <span className="font-mono text-[10px] text-slate-500 shrink-0 pt-0.5 w-20">
+            {formatClock(e.start * 1000)}–{formatClock(e.end * 1000)}
+          </span>
+          <span className="flex-1 min-w-0 space-y-1">
+            <span className="flex items-center gap-1.5 text-xs font-bold text-slate-200">
+              {e.keyMoment && <span className="text-amber-400" title="Key moment">★</span>}
+              {e.title}
+            </span>
+            <span className="block text-xs text-slate-400">{e.description}</span>
+            {e.onScreenText.length > 0 && (
+              <span className="flex flex-wrap gap-1">
+                {e.onScreenText.map((t, j) => (
+                  <span key={j} className="px-1.5 py-0.5 rounded bg-slate-800 border border-slate-700 text-[10px] font-mono text-slate-300">{t}</span>
+                ))}
+              </span>
+            )}
+          </span>
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export default VideoTimelineView;
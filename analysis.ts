@@ -0,0 +1,68 @@
+import { getAI, getModelInfo, withModelFallback } from './gemini';
+import { callGemini, GeminiError } from './errors';
+import { filePart } from './documents';
+import { UploadStatus } from './fileUpload';
+import { JsonSchema, SchemaIssue, SCHEMA_PRESETS, toGeminiSchema, validateAgainstSchema } from './structuredOutput';
+
+// The single-file request behind AnalysisLab, shared with the batch queue so every file in a
+// batch is analysed exactly like a single upload with the same settings
+
+export interface AnalysisOptions {
+  model: string;
+  depth: 'standard' | 'fast';
+  outputMode: 'text' | 'json';
+  customPrompt: string;
+  // Only used in JSON mode
+  presetId?: string;
+  schema?: JsonSchema;
+}
+
+export interface AnalysisResult {
+  text?: string;
+  data?: unknown;
+  issues?: SchemaIssue[];
+}
+
+// `onStatus` reports Files API progress for media too large to send inline
+export async function analyzeMedia(file: Blob, options: AnalysisOptions, signal?: AbortSignal, onStatus?: (status: UploadStatus) => void): Promise<AnalysisResult> {
+  const { depth, outputMode, customPrompt, presetId, schema } = options;
+  if (outputMode === 'json' && !schema) throw new GeminiError('invalidArgument', 'JSON mode needs a response schema.');
+
+  const ai = getAI();
+  const part = await filePart(file, onStatus);
+  const isVideo = file.type.startsWith('video');
+  const kind = isVideo ? 'video' : file.type.startsWith('image') ? 'image' : 'document';
+
+  const canThink = (model: string) => depth === 'standard' && !!getModelInfo(model)?.capabilities.includes('thinking');
+  const focus = isVideo ? 'Describe the key actions and themes.'
+    : kind === 'document' ? 'Summarize its structure, key points and any figures or tables.'
+    : 'Describe the contents, text, and overall sentiment.';
+  const defaultPrompt = `Please analyze this ${kind} in detail. ${focus}`;
+  const presetPrompt = SCHEMA_PRESETS.find(p => p.id === presetId)?.prompt;
+  const basePrompt = outputMode === 'json'
+    ? `${presetPrompt ?? 'Extract the data described by the response schema.'} Leave fields empty rather than guessing when the ${kind} does not show them.`
+    : defaultPrompt;
+  const finalPrompt = customPrompt.trim() ? `${customPrompt}\n\n(Context: This is a ${kind} analysis request)` : basePrompt;
+  const jsonConfig = outputMode === 'json' ? { responseMimeType: 'application/json', responseSchema: toGeminiSchema(schema!) } : {};
+
+  const response = await callGemini(() => withModelFallback(options.model, model => ai.models.generateContent({
+    model,
+    contents: {
+      parts: [
+        part,
+        { text: finalPrompt }
+      ]
+    },
+    config: { ...jsonConfig, ...(canThink(model) ? { thinkingConfig: { thinkingBudget: 4000 } } : {}), abortSignal: signal }
+  })), { model: options.model });
+
+  if (outputMode === 'text') return { text: response.text || "No insights found." };
+
+  let data: unknown;
+  try {
+    data = JSON.parse(response.text ?? '');
+  } catch (err) {
+    throw new GeminiError('server', 'The model returned malformed JSON.', { cause: err });
+  }
+  return { data, issues: validateAgainstSchema(data, schema!) };
+}
@@ -0,0 +1,225 @@
+import { GenerateContentResponse, Part } from '@google/genai';
+import { getAI, getModelInfo } from './gemini';
+import { callGemini, assertNotBlocked } from './errors';
+import { mediaPart, MAX_INLINE_BYTES } from './fileUpload';
+import { openDB, promisifyRequest } from './db';
+
+// Side-by-side comparison of models or configs on one prompt, with votes kept locally to
+// build a leaderboard per prompt category
+
+export const ARENA_CATEGORIES = ['General', 'Coding', 'Writing', 'Reasoning', 'Math', 'Vision', 'Extraction'];
+
+export interface ArenaContender {
+  id: string;
+  model: string;
+  // Sampling temperature; the model default when unset
+  temperature?: number;
+  // 0 turns thinking off; the model default when unset
+  thinkingBudget?: number;
+}
+
+export interface ArenaStats {
+  latencyMs: number;
+  // Time to the first streamed text, which is what a user waits for
+  ttftMs?: number;
+  promptTokens?: number;
+  outputTokens?: number;
+  thoughtsTokens?: number;
+  totalTokens?: number;
+}
+
+export interface ArenaResponse {
+  text: string;
+  stats?: ArenaStats;
+  // Message of the error that ended this contender's stream, if any
+  error?: string;
+}
+
+// Stable name for a contender's configuration; leaderboard rows are grouped by it
+export function contenderLabel(contender: Omit<ArenaContender, 'id'>): string {
+  const settings = [
+    contender.temperature !== undefined ? `t=${contender.temperature}` : '',
+    contender.thinkingBudget === 0 ? 'no thinking' : contender.thinkingBudget ? `thinking ${contender.thinkingBudget}` : '',
+  ].filter(Boolean);
+  const name = getModelInfo(contender.model)?.label ?? contender.model;
+  return settings.length > 0 ? `${name} (${settings.join(', ')})` : name;
+}
+
+// Attachments are shared by every contender, so they are encoded or uploaded once
+export async function attachmentParts(files: File[]): Promise<Part[]> {
+  const forceUpload = files.reduce((sum, f) => sum + f.size, 0) > MAX_INLINE_BYTES;
+  return Promise.all(files.map(f => mediaPart(f, f.type, { forceUpload })));
+}
+
+export async function streamContender(
+  contender: ArenaContender,
+  parts: Part[],
+  onText: (text: string) => void,
+  signal?: AbortSignal,
+): Promise<ArenaStats> {
+  const ai = getAI();
+  const started = performance.now();
+  let ttftMs: number | undefined;
+  let text = '';
+  let last: GenerateContentResponse | undefined;
+
+  // No model fallback here: the vote is recorded against this contender's model, so a
+  // different model must never answer in its place
+  const stream = await callGemini(() => ai.models.generateContentStream({
+    model: contender.model,
+    contents: { parts },
+    config: {
+      ...(contender.temperature !== undefined ? { temperature: contender.temperature } : {}),
+      ...(contender.thinkingBudget !== undefined ? { thinkingConfig: { thinkingBudget: contender.thinkingBudget } } : {}),
+      abortSignal: signal,
+    },
+  }), { model: contender.model });
+
+  for await (const chunk of stream) {
+    assertNotBlocked(chunk);
+    const delta = chunk.text ?? '';
+    if (delta && ttftMs === undefined) ttftMs = performance.now() - started;
+    text += delta;
+    onText(text);
+    last = chunk;
+  }
+
+  // Usage is cumulative, so the final chunk carries the totals
+  const usage = last?.usageMetadata;
+  return {
+    latencyMs: performance.now() - started,
+    ttftMs,
+    promptTokens: usage?.promptTokenCount,
+    outputTokens: usage?.candidatesTokenCount,
+    thoughtsTokens: usage?.thoughtsTokenCount,
+    totalTokens: usage?.totalTokenCount,
+  };
+}
+
+// 'tie' when all contenders did equally well, 'none' when all were bad
+export type ArenaVote = string | 'tie' | 'none';
+
+export interface ArenaBattle {
+  id: string;
+  createdAt: number;
+  prompt: string;
+  category: string;
+  attachmentNames: string[];
+  contenders: (ArenaContender & { label: string; response: ArenaResponse })[];
+  vote: ArenaVote;
+}
+
+const DB_NAME = 'GeminiLabArena';
+const STORE_NAME = 'battles';
+
+const initDB = () => openDB(DB_NAME, 1, (db) => {
+  if (!db.objectStoreNames.contains(STORE_NAME)) {
+    db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+  }
+});
+
+export async function listBattles(): Promise<ArenaBattle[]> {
+  const db = await initDB();
+  const store = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME);
+  const battles = await promisifyRequest(store.getAll()) as ArenaBattle[];
+  return battles.sort((a, b) => b.createdAt - a.createdAt);
+}
+
+export async function saveBattle(battle: ArenaBattle): Promise<void> {
+  const db = await initDB();
+  const store = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME);
+  await promisifyRequest(store.put(battle));
+}
+
+export async function clearBattles(): Promise<void> {
+  const db = await initDB();
+  const store = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME);
+  await promisifyRequest(store.clear());
+}
+
+export interface LeaderboardRow {
+  label: string;
+  battles: number;
+  wins: number;
+  ties: number;
+  losses: number;
+  winRate: number;
+  rating: number;
+  avgLatencyMs?: number;
+  avgTtftMs?: number;
+  avgOutputTokens?: number;
+}
+
+const ELO_K = 32;
+const average = (values: (number | undefined)[]) => {
+  const known = values.filter((v): v is number => v !== undefined);
+  return known.length > 0 ? known.reduce((a, b) => a + b, 0) / known.length : undefined;
+};
+
+// Contenders with the same label in one battle are the same configuration and count once,
+// with the best score any of them got; a battle left with fewer than two configurations is skipped.
+function scoredEntries(battle: ArenaBattle): { label: string; score: number; stats?: ArenaStats }[] {
+  const byLabel = new Map<string, { label: string; score: number; stats?: ArenaStats }>();
+  for (const c of battle.contenders) {
+    if (c.response.error) continue;
+    const score = battle.vote === 'tie' ? 0.5 : battle.vote === c.id ? 1 : 0;
+    const entry = byLabel.get(c.label);
+    if (!entry) byLabel.set(c.label, { label: c.label, score, stats: c.response.stats });
+    else entry.score = Math.max(entry.score, score);
+  }
+  return [...byLabel.values()];
+}
+
+// Win rate counts ties as half a win. The rating is Elo over every pair in a battle, replayed
+// oldest first; contenders that errored are left out of that battle.
+export function buildLeaderboard(battles: ArenaBattle[], category?: string): LeaderboardRow[] {
+  const rows = new Map<string, LeaderboardRow & { stats: ArenaStats[] }>();
+  const row = (label: string) => {
+    let r = rows.get(label);
+    if (!r) {
+      r = { label, battles: 0, wins: 0, ties: 0, losses: 0, winRate: 0, rating: 1000, stats: [] };
+      rows.set(label, r);
+    }
+    return r;
+  };
+
+  const ordered = battles.filter(b => !category || b.category === category).sort((a, b) => a.createdAt - b.createdAt);
+  for (const battle of ordered) {
+    // Score per configuration: 1 for the winner, 0.5 for everyone on a tie, 0 otherwise
+    const scored = scoredEntries(battle);
+    if (scored.length < 2) continue;
+
+    for (const c of scored) {
+      const r = row(c.label);
+      r.battles++;
+      if (battle.vote === 'tie') r.ties++;
+      else if (c.score === 1) r.wins++;
+      else r.losses++;
+      if (c.stats) r.stats.push(c.stats);
+    }
+
+    if (battle.vote === 'none') continue;
+    const deltas = new Map<string, number>();
+    for (const a of scored) {
+      for (const b of scored) {
+        if (a === b) continue;
+        const ra = row(a.label).rating, rb = row(b.label).rating;
+        const expected = 1 / (1 + 10 ** ((rb - ra) / 400));
+        const actual = a.score === b.score ? 0.5 : a.score > b.score ? 1 : 0;
+        deltas.set(a.label, (deltas.get(a.label) ?? 0) + ELO_K * (actual - expected) / (scored.length - 1));
+      }
+    }
+    deltas.forEach((delta, label) => { row(label).rating += delta; });
+  }
+
+  return [...rows.values()]
+    .map(({ stats, ...r }) => ({
+      ...r,
+      rating: Math.round(r.rating),
+      winRate: r.battles > 0 ? (r.wins + r.ties / 2) / r.battles : 0,
+      avgLatencyMs: average(stats.map(s => s.latencyMs)),
+      avgTtftMs: average(stats.map(s => s.ttftMs)),
+      avgOutputTokens: average(stats.map(s => s.outputTokens)),
+    }))
+    .sort((a, b) => b.rating - a.rating || b.winRate - a.winRate);
+}
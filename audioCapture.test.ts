@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { LinearResampler, floatTo16BitPCM } from './audioCapture';
+
+const ramp = (length: number, start = 0) => Float32Array.from({ length }, (_, i) => start + i);
+
+// Feeds `input` to a fresh resampler in blocks of the given sizes and joins the output
+const resampleInBlocks = (input: Float32Array, fromRate: number, toRate: number, sizes: number[]) => {
+  const resampler = new LinearResampler(fromRate, toRate);
+  const out: number[] = [];
+  let offset = 0;
+  for (let i = 0; offset < input.length; i++) {
+    const size = sizes[i % sizes.length];
+    out.push(...resampler.process(input.subarray(offset, offset + size)));
+    offset += size;
+  }
+  return out;
+};
+
+describe('LinearResampler', () => {
+  it('keeps every third sample when going from 48 kHz to 16 kHz', () => {
+    const output = new LinearResampler(48000, 16000).process(ramp(480));
+    expect(output.length).toBe(160);
+    expect(Array.from(output)).toEqual(Array.from({ length: 160 }, (_, i) => i * 3));
+  });
+
+  it('gives the same samples whether the input arrives in one block or many', () => {
+    const input = ramp(4800);
+    const whole = Array.from(new LinearResampler(48000, 16000).process(input));
+    // 128 is the AudioWorklet render quantum; the odd sizes put block edges at every phase
+    for (const sizes of [[128], [100, 77, 303], [1], [2, 5]]) {
+      expect(resampleInBlocks(input, 48000, 16000, sizes)).toEqual(whole);
+    }
+    expect(whole.length).toBe(1600);
+  });
+
+  it('interpolates across block boundaries for non-integer ratios', () => {
+    const input = ramp(4410);
+    const output = resampleInBlocks(input, 44100, 16000, [128]);
+    const ratio = 44100 / 16000;
+    expect(output.length).toBe(Math.floor(4409 / ratio) + 1);
+    output.forEach((value, i) => expect(value).toBeCloseTo(i * ratio, 2));
+  });
+
+  it('passes input through unchanged when the rates match', () => {
+    const input = Float32Array.from([0.1, -0.2, 0.3]);
+    const output = new LinearResampler(16000, 16000).process(input);
+    expect(Array.from(output)).toEqual(Array.from(input));
+    expect(output).not.toBe(input);
+  });
+
+  it('returns nothing for an empty block and keeps its place', () => {
+    const resampler = new LinearResampler(48000, 16000);
+    expect(resampler.process(new Float32Array(0)).length).toBe(0);
+    expect(Array.from(resampler.process(ramp(6)))).toEqual([0, 3]);
+  });
+});
+
+describe('floatTo16BitPCM', () => {
+  it('maps full scale to the int16 limits', () => {
+    expect(Array.from(floatTo16BitPCM(Float32Array.from([-1, 0, 1])))).toEqual([-32768, 0, 32767]);
+  });
+
+  it('clamps samples beyond ±1 instead of wrapping', () => {
+    expect(Array.from(floatTo16BitPCM(Float32Array.from([-1.5, 2, 100, -100])))).toEqual([-32768, 32767, 32767, -32768]);
+  });
+
+  it('rounds to the nearest step', () => {
+    // 0.5 * 32767 = 16383.5 and 0.25 * 32767 = 8191.75; truncation would give 16383 and 8191
+    expect(Array.from(floatTo16BitPCM(Float32Array.from([0.5, 0.25, -0.25, 0.00002])))).toEqual([16384, 8192, -8192, 1]);
+  });
+});
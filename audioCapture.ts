@@ -0,0 +1,196 @@
+// Microphone capture that runs off the main thread in an AudioWorklet.
+// The resampler and PCM converter below are plain code shared with the worklet via toString(),
+// so they must not reference anything outside their own bodies.
+
+export class LinearResampler {
+  private ratio: number;
+  private position: number;
+  private lastSample: number;
+
+  constructor(fromRate: number, toRate: number) {
+    this.ratio = fromRate / toRate;
+    // Position of the next output sample, relative to the start of the next input block.
+    // -1 refers to the last sample of the previous block.
+    this.position = 0;
+    this.lastSample = 0;
+  }
+
+  process(input: Float32Array): Float32Array {
+    if (this.ratio === 1) return input.slice();
+
+    // Positions past the last sample need the next block to interpolate, so they wait for it
+    const last = input.length - 1;
+    const count = this.position <= last ? Math.floor((last - this.position) / this.ratio) + 1 : 0;
+    const output = new Float32Array(count);
+    let pos = this.position;
+
+    for (let i = 0; i < count; i++) {
+      const index = Math.floor(pos);
+      const frac = pos - index;
+      const a = index < 0 ? this.lastSample : input[index];
+      const b = index < last ? input[index + 1] : a;
+      output[i] = a + (b - a) * frac;
+      pos += this.ratio;
+    }
+
+    if (input.length > 0) {
+      this.position = pos - input.length;
+      this.lastSample = input[last];
+    }
+    return output;
+  }
+}
+
+// Clamps to [-1, 1] first; unclamped `sample * 32768` wraps around on loud input.
+// Int16Array truncates toward zero, so samples are rounded before they are stored.
+export function floatTo16BitPCM(input: Float32Array): Int16Array {
+  const output = new Int16Array(input.length);
+  for (let i = 0; i < input.length; i++) {
+    const s = Math.max(-1, Math.min(1, input[i]));
+    output[i] = Math.round(s < 0 ? s * 0x8000 : s * 0x7fff);
+  }
+  return output;
+}
+
+export function downmixToMono(channels: Float32Array[]): Float32Array {
+  if (channels.length === 1) return channels[0];
+  const output = new Float32Array(channels[0].length);
+  for (const channel of channels) {
+    for (let i = 0; i < output.length; i++) output[i] += channel[i] / channels.length;
+  }
+  return output;
+}
+
+const PROCESSOR_NAME = 'pcm16-capture';
+
+const workletSource = () => `
+const LinearResampler = ${LinearResampler.toString()};
+const floatTo16BitPCM = ${floatTo16BitPCM.toString()};
+const downmixToMono = ${downmixToMono.toString()};
+
+class Pcm16CaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const { targetRate, batchSize } = options.processorOptions;
+    this.resampler = new LinearResampler(sampleRate, targetRate);
+    this.batchSize = batchSize;
+    this.batch = new Int16Array(batchSize);
+    this.filled = 0;
+    this.port.onmessage = (e) => { if (e.data === 'flush') this.flush(); };
+  }
+
+  flush() {
+    if (this.filled === 0) return;
+    const chunk = this.batch.slice(0, this.filled);
+    this.port.postMessage(chunk, [chunk.buffer]);
+    this.filled = 0;
+  }
+
+  process(inputs) {
+    const channels = inputs[0];
+    if (!channels || channels.length === 0) return true;
+    const pcm = floatTo16BitPCM(this.resampler.process(downmixToMono(channels)));
+    let offset = 0;
+    while (offset < pcm.length) {
+      const n = Math.min(pcm.length - offset, this.batchSize - this.filled);
+      this.batch.set(pcm.subarray(offset, offset + n), this.filled);
+      this.filled += n;
+      offset += n;
+      if (this.filled === this.batchSize) {
+        this.port.postMessage(this.batch, [this.batch.buffer]);
+        this.batch = new Int16Array(this.batchSize);
+        this.filled = 0;
+      }
+    }
+    return true;
+  }
+}
+
+registerProcessor('${PROCESSOR_NAME}', Pcm16CaptureProcessor);
+`;
+
+let workletUrl: string | null = null;
+
+export interface AudioCaptureOptions {
+  targetRate?: number;
+  // How much audio to collect before each onChunk call
+  batchMs?: number;
+  onChunk: (pcm: Int16Array) => void;
+}
+
+export interface AudioCapture {
+  context: AudioContext;
+  source: MediaStreamAudioSourceNode;
+  sampleRate: number;
+  stop: () => Promise<void>;
+}
+
+export async function startAudioCapture(stream: MediaStream, { targetRate = 16000, batchMs = 100, onChunk }: AudioCaptureOptions): Promise<AudioCapture> {
+  // Runs at the device's native rate; the worklet resamples to targetRate itself
+  const context = new (window.AudioContext || window.webkitAudioContext)();
+  if (!workletUrl) {
+    workletUrl = URL.createObjectURL(new Blob([workletSource()], { type: 'application/javascript' }));
+  }
+  await context.audioWorklet.addModule(workletUrl);
+
+  const source = context.createMediaStreamSource(stream);
+  const node = new AudioWorkletNode(context, PROCESSOR_NAME, {
+    processorOptions: { targetRate, batchSize: Math.round(targetRate * batchMs / 1000) },
+  });
+  node.port.onmessage = (e: MessageEvent<Int16Array>) => onChunk(e.data);
+
+  // The node outputs silence; connecting it keeps the graph pulling audio through it
+  source.connect(node);
+  node.connect(context.destination);
+
+  return {
+    context,
+    source,
+    sampleRate: targetRate,
+    stop: async () => {
+      node.port.postMessage('flush');
+      // Give the flushed tail a moment to arrive before tearing the graph down
+      await new Promise(resolve => setTimeout(resolve, 50));
+      node.port.onmessage = null;
+      source.disconnect();
+      node.disconnect();
+      await context.close();
+    },
+  };
+}
+
+export function concatPCM(chunks: Int16Array[]): Int16Array {
+  const total = chunks.reduce((sum, c) => sum + c.length, 0);
+  const output = new Int16Array(total);
+  let offset = 0;
+  for (const chunk of chunks) {
+    output.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return output;
+}
+
+// Wraps interleaved 16-bit PCM in a RIFF/WAVE header
+export function encodeWav(samples: Int16Array, sampleRate: number, numChannels = 1): Blob {
+  const header = new DataView(new ArrayBuffer(44));
+  const dataSize = samples.length * 2;
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) header.setUint8(offset + i, value.charCodeAt(i));
+  };
+
+  writeString(0, 'RIFF');
+  header.setUint32(4, 36 + dataSize, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  header.setUint32(16, 16, true);
+  header.setUint16(20, 1, true);
+  header.setUint16(22, numChannels, true);
+  header.setUint32(24, sampleRate, true);
+  header.setUint32(28, sampleRate * numChannels * 2, true);
+  header.setUint16(32, numChannels * 2, true);
+  header.setUint16(34, 16, true);
+  writeString(36, 'data');
+  header.setUint32(40, dataSize, true);
+
+  return new Blob([header.buffer, samples], { type: 'audio/wav' });
+}
@@ -0,0 +1,125 @@
+import { openDB, promisifyRequest } from './db';
+import { AnalysisOptions, AnalysisResult } from './analysis';
+import { toTable, Tabular } from './structuredOutput';
+
+// Batch analysis runs are persisted as they go so a reload can pick up where it stopped.
+// Items keep their source file as a Blob; a batch of photos can take a lot of space, so
+// finished batches should be cleared once their results are exported.
+
+export type BatchItemStatus = 'pending' | 'running' | 'done' | 'error' | 'cancelled';
+
+export interface BatchJob {
+  id: string;
+  createdAt: number;
+  // Snapshot taken when the batch starts so every file gets the same prompt and mode
+  options?: AnalysisOptions;
+  concurrency: number;
+  perMinute: number;
+}
+
+export interface BatchItem {
+  id: string;
+  jobId: string;
+  // Relative path for folder uploads, otherwise the file name
+  path: string;
+  file: Blob;
+  status: BatchItemStatus;
+  attempts: number;
+  result?: AnalysisResult;
+  error?: string;
+  durationMs?: number;
+}
+
+const DB_NAME = 'GeminiLabBatches';
+const JOB_STORE = 'jobs';
+const ITEM_STORE = 'items';
+
+const initDB = () => openDB(DB_NAME, 1, (db) => {
+  if (!db.objectStoreNames.contains(JOB_STORE)) {
+    db.createObjectStore(JOB_STORE, { keyPath: 'id' });
+  }
+  if (!db.objectStoreNames.contains(ITEM_STORE)) {
+    db.createObjectStore(ITEM_STORE, { keyPath: 'id' }).createIndex('jobId', 'jobId');
+  }
+});
+
+export async function getLatestJob(): Promise<BatchJob | null> {
+  const db = await initDB();
+  const store = db.transaction(JOB_STORE, 'readonly').objectStore(JOB_STORE);
+  const jobs = await promisifyRequest(store.getAll()) as BatchJob[];
+  return jobs.sort((a, b) => b.createdAt - a.createdAt)[0] ?? null;
+}
+
+export async function saveJob(job: BatchJob): Promise<void> {
+  const db = await initDB();
+  const store = db.transaction(JOB_STORE, 'readwrite').objectStore(JOB_STORE);
+  await promisifyRequest(store.put(job));
+}
+
+export async function listItems(jobId: string): Promise<BatchItem[]> {
+  const db = await initDB();
+  const index = db.transaction(ITEM_STORE, 'readonly').objectStore(ITEM_STORE).index('jobId');
+  const items = await promisifyRequest(index.getAll(jobId)) as BatchItem[];
+  return items.sort((a, b) => a.path.localeCompare(b.path, undefined, { numeric: true }));
+}
+
+export async function saveItems(items: BatchItem[]): Promise<void> {
+  const db = await initDB();
+  const tx = db.transaction(ITEM_STORE, 'readwrite');
+  items.forEach(item => tx.objectStore(ITEM_STORE).put(item));
+  await new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+}
+
+export async function deleteItem(id: string): Promise<void> {
+  const db = await initDB();
+  const store = db.transaction(ITEM_STORE, 'readwrite').objectStore(ITEM_STORE);
+  await promisifyRequest(store.delete(id));
+}
+
+export async function deleteJob(jobId: string): Promise<void> {
+  const db = await initDB();
+  const tx = db.transaction([JOB_STORE, ITEM_STORE], 'readwrite');
+  tx.objectStore(JOB_STORE).delete(jobId);
+  const keys = await promisifyRequest(tx.objectStore(ITEM_STORE).index('jobId').getAllKeys(jobId));
+  keys.forEach(key => tx.objectStore(ITEM_STORE).delete(key));
+  await new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+}
+
+// One row per file for text results; JSON results contribute one row per extracted record
+// (e.g. per receipt line), each prefixed with the file it came from
+export function batchToTable(items: BatchItem[]): Tabular {
+  const parts = items.map(item => {
+    const { data, text, issues } = item.result ?? {};
+    const table = data !== undefined ? toTable(data) : text !== undefined ? { columns: ['result'], rows: [[text]] } : { columns: [], rows: [] };
+    const note = item.error ?? (issues?.length ? `${issues.length} schema issue(s)` : '');
+    return { item, table, note };
+  });
+  const columns = [...new Set(parts.flatMap(p => p.table.columns))];
+  const rows = parts.flatMap(({ item, table, note }) => {
+    const records = table.rows.length > 0 ? table.rows : [[]];
+    return records.map(r => [
+      item.path,
+      item.status,
+      ...columns.map(c => { const i = table.columns.indexOf(c); return i >= 0 ? r[i] ?? '' : ''; }),
+      note,
+    ]);
+  });
+  return { columns: ['file', 'status', ...columns, 'note'], rows };
+}
+
+export function batchToJSONL(items: BatchItem[]): string {
+  return items.map(item => JSON.stringify({
+    file: item.path,
+    status: item.status,
+    ...(item.result?.data !== undefined ? { data: item.result.data } : { text: item.result?.text }),
+    ...(item.result?.issues?.length ? { issues: item.result.issues } : {}),
+    ...(item.error ? { error: item.error } : {}),
+    durationMs: item.durationMs,
+  })).join('\n') + '\n';
+}
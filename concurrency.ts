@@ -0,0 +1,107 @@
+// Runs fn over items with at most `limit` calls in flight, keeping results in input order.
+// Rejections are not collected here; callers that want partial results catch inside fn.
+export async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T, index: number) => Promise<R>): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+export interface TaskQueueOptions {
+  concurrency: number;
+  // Maximum task starts in any 60 s window; 0 disables the limit
+  perMinute: number;
+}
+
+interface QueuedTask {
+  id: string;
+  run: (signal: AbortSignal) => Promise<void>;
+}
+
+// A long-lived queue for jobs that arrive over time, e.g. a batch the user keeps adding
+// files to. Each task gets its own AbortSignal so it can be cancelled individually.
+export class TaskQueue {
+  private options: TaskQueueOptions;
+  private pending: QueuedTask[] = [];
+  private running = new Map<string, AbortController>();
+  private starts: number[] = [];
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(options: TaskQueueOptions) {
+    this.options = options;
+  }
+
+  setOptions(options: Partial<TaskQueueOptions>) {
+    this.options = { ...this.options, ...options };
+    this.pump();
+  }
+
+  add(id: string, run: (signal: AbortSignal) => Promise<void>) {
+    if (this.has(id)) return;
+    this.pending.push({ id, run });
+    this.pump();
+  }
+
+  has(id: string): boolean {
+    return this.running.has(id) || this.pending.some(t => t.id === id);
+  }
+
+  // Drops a waiting task or aborts a running one; returns false if the id is unknown
+  cancel(id: string): boolean {
+    const index = this.pending.findIndex(t => t.id === id);
+    if (index >= 0) {
+      this.pending.splice(index, 1);
+      return true;
+    }
+    const controller = this.running.get(id);
+    controller?.abort();
+    return !!controller;
+  }
+
+  cancelAll() {
+    this.pending = [];
+    this.running.forEach(c => c.abort());
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+  }
+
+  get size(): number {
+    return this.pending.length + this.running.size;
+  }
+
+  private pump() {
+    if (this.timer) return;
+    const { concurrency, perMinute } = this.options;
+    while (this.pending.length > 0 && this.running.size < concurrency) {
+      if (perMinute > 0) {
+        const now = Date.now();
+        this.starts = this.starts.filter(t => now - t < 60_000);
+        if (this.starts.length >= perMinute) {
+          this.timer = setTimeout(() => { this.timer = null; this.pump(); }, this.starts[0] + 60_000 - now);
+          return;
+        }
+        this.starts.push(now);
+      }
+      this.start(this.pending.shift()!);
+    }
+  }
+
+  private start(task: QueuedTask) {
+    const controller = new AbortController();
+    this.running.set(task.id, controller);
+    task.run(controller.signal)
+      .catch(err => console.error(`Task ${task.id} failed`, err))
+      .finally(() => {
+        this.running.delete(task.id);
+        this.pump();
+      });
+  }
+}
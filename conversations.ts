@@ -0,0 +1,53 @@
+import { openDB, promisifyRequest } from './db';
+import { ChatMessage, ConversationThread } from '../types';
+
+const DB_NAME = 'GeminiLabConversations';
+const STORE_NAME = 'threads';
+
+const initDB = () => openDB(DB_NAME, 1, (db) => {
+  if (!db.objectStoreNames.contains(STORE_NAME)) {
+    db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+  }
+});
+
+export async function listThreads(): Promise<ConversationThread[]> {
+  const db = await initDB();
+  const store = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME);
+  const threads = await promisifyRequest(store.getAll()) as ConversationThread[];
+  return threads.sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export async function saveThread(thread: ConversationThread): Promise<void> {
+  const db = await initDB();
+  const store = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME);
+  await promisifyRequest(store.put(thread));
+}
+
+export async function deleteThread(id: string): Promise<void> {
+  const db = await initDB();
+  const store = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME);
+  await promisifyRequest(store.delete(id));
+}
+
+export function titleFromMessage(text: string): string {
+  const firstLine = text.trim().split('\n')[0];
+  return firstLine.length > 48 ? `${firstLine.slice(0, 48)}…` : firstLine || 'New conversation';
+}
+
+export function toMessageParts(message: ChatMessage) {
+  return [
+    ...(message.attachments ?? []).map(a => ({ inlineData: { data: a.data, mimeType: a.mimeType } })),
+    ...(message.content ? [{ text: message.content }] : []),
+  ];
+}
+
+// Rebuilds the chat history expected by ai.chats.create so a resumed thread keeps its context.
+// Tool calls are not replayed; the final answers already carry their results.
+export function toChatHistory(messages: ChatMessage[]) {
+  return messages
+    .filter(m => m.content || m.attachments?.length)
+    .map(m => ({
+      role: m.role === 'user' ? 'user' : 'model',
+      parts: toMessageParts(m),
+    }));
+}
@@ -0,0 +1,147 @@
+import { Content, Part, Type } from '@google/genai';
+import { getAI, withModelFallback } from './gemini';
+import { callGemini, GeminiError } from './errors';
+import { mediaPart, MAX_INLINE_BYTES, UploadStatus } from './fileUpload';
+
+// Document inputs for AnalysisLab. PDFs go to the model as inline files so it can see page
+// layout; text formats are read locally and sent as text.
+
+export type DocumentKind = 'pdf' | 'text';
+
+export const DOCUMENT_ACCEPT = '.pdf,.txt,.md,.markdown,.csv,.html,.htm,application/pdf,text/plain,text/markdown,text/csv,text/html';
+
+const TEXT_EXTENSIONS = ['txt', 'md', 'markdown', 'csv', 'html', 'htm'];
+
+export function documentKind(file: File): DocumentKind | null {
+  const extension = file.name.split('.').pop()?.toLowerCase() ?? '';
+  if (file.type === 'application/pdf' || extension === 'pdf') return 'pdf';
+  if (file.type.startsWith('text/') || TEXT_EXTENSIONS.includes(extension)) return 'text';
+  return null;
+}
+
+export interface LoadedDocument {
+  id: string;
+  name: string;
+  kind: DocumentKind;
+  file: File;
+  // Extracted text for text documents; HTML is reduced to its visible text
+  text?: string;
+}
+
+const htmlToText = (html: string) => {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  doc.querySelectorAll('script, style, noscript').forEach(el => el.remove());
+  return (doc.body?.textContent ?? '').replace(/\n{3,}/g, '\n\n').trim();
+};
+
+export async function loadDocument(file: File): Promise<LoadedDocument> {
+  const kind = documentKind(file);
+  if (!kind) throw new GeminiError('invalidArgument', `${file.name} is not a supported document type.`);
+  const base = { id: crypto.randomUUID(), name: file.name, kind, file };
+  if (kind === 'pdf') return base;
+  const raw = await file.text();
+  return { ...base, text: /\.html?$/i.test(file.name) || file.type === 'text/html' ? htmlToText(raw) : raw };
+}
+
+// A text document becomes a text part; anything else is sent as media with its MIME type
+export async function filePart(file: File | Blob, onStatus?: (status: UploadStatus) => void): Promise<Part> {
+  const kind = file instanceof File ? documentKind(file) : null;
+  if (kind === 'text') {
+    const doc = await loadDocument(file as File);
+    return { text: doc.text ?? '' };
+  }
+  return mediaPart(file, kind === 'pdf' ? 'application/pdf' : file.type, { onStatus });
+}
+
+export interface Citation {
+  id: number;
+  document: string;
+  // 1-based PDF page, or 0 when the document has no pages
+  page: number;
+  // Heading, row range or other locator for text documents
+  section: string;
+  quote: string;
+}
+
+export interface DocumentAnswer {
+  question: string;
+  answer: string;
+  citations: Citation[];
+}
+
+const ANSWER_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    answer: { type: Type.STRING, description: 'Markdown answer with citation markers like [1] or [2][3] after each supported claim.' },
+    citations: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          id: { type: Type.INTEGER, description: 'Number used in the answer markers.' },
+          document: { type: Type.STRING, description: 'Exact file name of the cited document.' },
+          page: { type: Type.INTEGER, description: '1-based page number in a PDF, or 0 for text documents.' },
+          section: { type: Type.STRING, description: 'Nearest heading, or row/line range for text documents; empty for PDFs if unclear.' },
+          quote: { type: Type.STRING, description: 'Short verbatim quote from the source that supports the claim.' },
+        },
+        required: ['id', 'document', 'page', 'section', 'quote'],
+        propertyOrdering: ['id', 'document', 'page', 'section', 'quote'],
+      },
+    },
+  },
+  required: ['answer', 'citations'],
+  propertyOrdering: ['answer', 'citations'],
+};
+
+async function documentParts(documents: LoadedDocument[]): Promise<Part[]> {
+  // The inline limit applies to the whole request, so several PDFs that fit one by one may still need uploading
+  const pdfBytes = documents.filter(d => d.kind === 'pdf').reduce((sum, d) => sum + d.file.size, 0);
+  const forceUpload = pdfBytes > MAX_INLINE_BYTES;
+  const parts: Part[] = [];
+  for (const [i, doc] of documents.entries()) {
+    parts.push({ text: `Document ${i + 1}: "${doc.name}"` });
+    parts.push(doc.kind === 'pdf'
+      ? await mediaPart(doc.file, 'application/pdf', { forceUpload })
+      : { text: doc.text ?? '' });
+  }
+  return parts;
+}
+
+// Answers one question over all documents; earlier turns are replayed so follow-ups work
+export async function askDocuments(documents: LoadedDocument[], history: DocumentAnswer[], question: string, model: string, instructions = ''): Promise<DocumentAnswer> {
+  if (documents.length === 0) throw new GeminiError('invalidArgument', 'Add at least one document first.');
+  const ai = getAI();
+  const docs = await documentParts(documents);
+  const contents: Content[] = [
+    { role: 'user', parts: [...docs, { text: 'Use only these documents to answer my questions.' }] },
+    { role: 'model', parts: [{ text: 'Understood. I will answer from the documents and cite them.' }] },
+    ...history.flatMap((turn): Content[] => [
+      { role: 'user', parts: [{ text: turn.question }] },
+      { role: 'model', parts: [{ text: JSON.stringify({ answer: turn.answer, citations: turn.citations }) }] },
+    ]),
+    { role: 'user', parts: [{ text: question }] },
+  ];
+
+  const response = await callGemini(() => withModelFallback(model, m => ai.models.generateContent({
+    model: m,
+    contents,
+    config: {
+      systemInstruction: `Answer questions strictly from the provided documents. Cite every factual claim with a numbered marker and list each source in "citations" with the document's exact file name and page number. If the documents do not contain the answer, say so.${instructions.trim() ? `\n\n${instructions.trim()}` : ''}`,
+      responseMimeType: 'application/json',
+      responseSchema: ANSWER_SCHEMA,
+    },
+  })), { model: model });
+
+  try {
+    const parsed = JSON.parse(response.text ?? '{}');
+    return { question, answer: String(parsed.answer ?? ''), citations: Array.isArray(parsed.citations) ? parsed.citations : [] };
+  } catch (err) {
+    throw new GeminiError('server', 'The model returned a malformed answer.', { cause: err });
+  }
+}
+
+// Turns "[1]" and "[2, 3]" markers into #cite-N links that the answer view can intercept
+export function linkCitations(answer: string): string {
+  return answer.replace(/\[(\d+(?:\s*,\s*\d+)*)\](?!\()/g, (_, ids: string) =>
+    ids.split(',').map(id => `[[${id.trim()}]](#cite-${id.trim()})`).join(''));
+}
@@ -0,0 +1,20 @@
+// Saves generated content through a temporary object URL and a synthetic link click
+
+export function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Revoking right away can cancel the download in some browsers
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+export function downloadText(text: string, filename: string, mimeType = 'text/plain'): void {
+  downloadBlob(new Blob([text], { type: `${mimeType};charset=utf-8` }), filename);
+}
+
+// A filesystem-safe timestamp for default file names, e.g. 2025-01-31-14-05-09
+export function fileTimestamp(date = new Date()): string {
+  return date.toISOString().slice(0, 19).replace(/[:T]/g, '-');
+}
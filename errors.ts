@@ -0,0 +1,161 @@
+import { trackUsage } from './usage';
+
+export type GeminiErrorKind =
+  | 'auth'
+  | 'quota'
+  | 'safety'
+  | 'invalidArgument'
+  | 'notFound'
+  | 'network'
+  | 'server'
+  | 'device'
+  | 'unknown';
+
+const TRANSIENT_KINDS: GeminiErrorKind[] = ['quota', 'network', 'server'];
+
+const DEFAULT_MESSAGES: Record<GeminiErrorKind, string> = {
+  auth: "Your current API key doesn't have permission for this model. Select a key from a billing-enabled project.",
+  quota: 'The rate limit or quota for this key was exceeded. Wait a moment and try again.',
+  safety: 'The request or response was blocked by safety filters. Try rephrasing your prompt.',
+  invalidArgument: 'The request was rejected as invalid. Check the input and settings.',
+  notFound: 'The selected model is not available. Pick another model in Settings.',
+  network: 'Could not reach the Gemini API. Check your connection.',
+  server: 'The Gemini service is temporarily unavailable. Please try again shortly.',
+  device: 'Access to the microphone or camera was denied.',
+  unknown: 'Something went wrong. Please try again.',
+};
+
+export class GeminiError extends Error {
+  kind: GeminiErrorKind;
+  status?: number;
+  retryAfterMs?: number;
+  cause?: unknown;
+
+  constructor(kind: GeminiErrorKind, message?: string, options: { status?: number; retryAfterMs?: number; cause?: unknown } = {}) {
+    super(message ?? DEFAULT_MESSAGES[kind]);
+    this.name = 'GeminiError';
+    this.kind = kind;
+    this.status = options.status;
+    this.retryAfterMs = options.retryAfterMs;
+    this.cause = options.cause;
+  }
+
+  get retryable(): boolean {
+    return TRANSIENT_KINDS.includes(this.kind);
+  }
+}
+
+// 429 bodies carry a RetryInfo detail such as "retryDelay": "31s"
+const parseRetryAfter = (message: string): number | undefined => {
+  const match = message.match(/retry(?:Delay|[ -]after)"?\s*[:=]?\s*"?(\d+(?:\.\d+)?)\s*s/i);
+  return match ? Math.ceil(parseFloat(match[1]) * 1000) : undefined;
+};
+
+const BLOCKING_FINISH_REASONS = ['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'IMAGE_SAFETY', 'IMAGE_PROHIBITED_CONTENT'];
+
+// Canonical API status codes as whole upper-case words, so a message that merely mentions a
+// quota or something internal isn't mistaken for one
+const API_STATUS_PATTERN = /\b(PERMISSION_DENIED|UNAUTHENTICATED|RESOURCE_EXHAUSTED|NOT_FOUND|INVALID_ARGUMENT|UNAVAILABLE|INTERNAL|DEADLINE_EXCEEDED)\b/;
+
+// The API's finishReason/blockReason values as whole upper-case words, so ordinary text such
+// as "blocked" in an unrelated message doesn't count as a safety block
+const BLOCK_REASON_PATTERN = new RegExp(`\\b(${BLOCKING_FINISH_REASONS.join('|')})\\b`);
+
+// The API's error object, `{ code: 429, status: 'RESOURCE_EXHAUSTED', ... }`. Errors may carry it
+// as a field; the SDK's ApiError only has the response body, JSON after the status line, in its message.
+function apiErrorBody(e: any, raw: string): { code?: unknown; status?: unknown } | undefined {
+  if (e?.error && typeof e.error === 'object') return e.error;
+  const json = raw.indexOf('{');
+  if (json < 0) return undefined;
+  try {
+    return JSON.parse(raw.slice(json))?.error;
+  } catch {
+    return undefined;
+  }
+}
+
+export function classifyError(err: unknown): GeminiError {
+  if (err instanceof GeminiError) return err;
+
+  const e = err as any;
+  const raw = String(e?.message ?? e ?? '');
+  const body = apiErrorBody(e, raw);
+  const status: number | undefined = typeof e?.status === 'number' ? e.status
+    : typeof body?.code === 'number' ? body.code
+    : undefined;
+  // The canonical code such as RESOURCE_EXHAUSTED, from the body or else as a whole word in the message
+  const code = typeof body?.status === 'string' ? body.status : raw.match(API_STATUS_PATTERN)?.[1];
+  const options = { status, cause: err };
+
+  if (e?.name === 'NotAllowedError' || e?.name === 'NotFoundError' || e?.name === 'NotReadableError') {
+    return new GeminiError('device', undefined, options);
+  }
+  if (status === 401 || status === 403 || code === 'PERMISSION_DENIED' || code === 'UNAUTHENTICATED' || /API key not valid/.test(raw)) {
+    return new GeminiError('auth', undefined, options);
+  }
+  if (status === 429 || code === 'RESOURCE_EXHAUSTED') {
+    return new GeminiError('quota', undefined, { ...options, retryAfterMs: parseRetryAfter(raw) });
+  }
+  if (status === 404 || code === 'NOT_FOUND') {
+    return new GeminiError('notFound', undefined, options);
+  }
+  if (BLOCK_REASON_PATTERN.test(raw)) {
+    return new GeminiError('safety', undefined, options);
+  }
+  if (status === 400 || code === 'INVALID_ARGUMENT') {
+    return new GeminiError('invalidArgument', undefined, options);
+  }
+  if ((status && status >= 500) || code === 'UNAVAILABLE' || code === 'INTERNAL' || code === 'DEADLINE_EXCEEDED' || /overloaded/i.test(raw)) {
+    return new GeminiError('server', undefined, options);
+  }
+  if ((e instanceof TypeError && /fetch|network/i.test(raw)) || /Failed to fetch|NetworkError|network error|ECONNRESET|ETIMEDOUT/i.test(raw)) {
+    return new GeminiError('network', undefined, options);
+  }
+  return new GeminiError('unknown', undefined, options);
+}
+
+// Safety blocks arrive as successful responses, so they are turned into errors here
+export function assertNotBlocked(response: unknown): void {
+  const r = response as any;
+  const blockReason = r?.promptFeedback?.blockReason;
+  const finishReason = r?.candidates?.[0]?.finishReason;
+  if (blockReason || BLOCKING_FINISH_REASONS.includes(finishReason)) {
+    throw new GeminiError('safety', undefined, { cause: blockReason ?? finishReason });
+  }
+}
+
+export interface RetryOptions {
+  retries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  onRetry?: (error: GeminiError, attempt: number, delayMs: number) => void;
+  // Model the call asks for; usage is recorded against it when the response doesn't name one
+  model?: string;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Wraps a Gemini call: failures become GeminiErrors and transient ones are retried
+// with exponential backoff and full jitter, or after the server's retry hint when it sends one.
+export async function callGemini<T>(call: () => Promise<T>, options: RetryOptions = {}): Promise<T> {
+  const { retries = 3, baseDelayMs = 1000, maxDelayMs = 30000, onRetry, model } = options;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      const startedAt = performance.now();
+      const result = await call();
+      assertNotBlocked(result);
+      return trackUsage(result, startedAt, model);
+    } catch (err) {
+      const error = classifyError(err);
+      const hinted = error.retryAfterMs;
+      // A hint longer than we are willing to wait usually means the daily quota is gone
+      if (!error.retryable || attempt >= retries || (hinted !== undefined && hinted > maxDelayMs)) throw error;
+
+      const delayMs = hinted ?? Math.random() * Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+      console.warn(`Gemini ${error.kind} error, retrying in ${Math.round(delayMs)}ms (attempt ${attempt + 1}/${retries})`);
+      onRetry?.(error, attempt + 1, delayMs);
+      await sleep(delayMs);
+    }
+  }
+}
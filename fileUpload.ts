@@ -0,0 +1,64 @@
+import { FileState, Part } from '@google/genai';
+import { getAI, fileToBase64 } from './gemini';
+import { callGemini, GeminiError } from './errors';
+
+// Inline request payloads are capped at 20 MB; base64 adds a third on top of the raw bytes,
+// so anything larger goes through the Files API instead
+export const MAX_INLINE_BYTES = 14 * 1024 * 1024;
+
+// Uploaded files are deleted by the service after 48 hours
+const UPLOAD_TTL_MS = 47 * 60 * 60 * 1000;
+const POLL_INTERVAL_MS = 2000;
+
+interface UploadedFile {
+  uri: string;
+  mimeType: string;
+  uploadedAt: number;
+}
+
+// Keyed by the Blob itself so retries and follow-up questions reuse the same upload
+const uploads = new WeakMap<Blob, Promise<UploadedFile>>();
+
+export type UploadStatus = 'uploading' | 'processing';
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+async function upload(file: Blob, mimeType: string, onStatus?: (status: UploadStatus) => void): Promise<UploadedFile> {
+  const ai = getAI();
+  onStatus?.('uploading');
+  let remote = await callGemini(() => ai.files.upload({
+    file,
+    config: { mimeType, displayName: file instanceof File ? file.name : undefined },
+  }));
+  // Video needs server-side processing before it can be referenced in a prompt
+  while (remote.state === FileState.PROCESSING) {
+    onStatus?.('processing');
+    await sleep(POLL_INTERVAL_MS);
+    remote = await callGemini(() => ai.files.get({ name: remote.name! }));
+  }
+  if (remote.state === FileState.FAILED || !remote.uri) {
+    throw new GeminiError('server', remote.error?.message ?? 'The uploaded file could not be processed.');
+  }
+  return { uri: remote.uri, mimeType: remote.mimeType ?? mimeType, uploadedAt: Date.now() };
+}
+
+export async function uploadFile(file: Blob, mimeType = file.type, onStatus?: (status: UploadStatus) => void): Promise<UploadedFile> {
+  const cached = uploads.get(file);
+  if (cached) {
+    const uploaded = await cached.catch(() => null);
+    if (uploaded && Date.now() - uploaded.uploadedAt < UPLOAD_TTL_MS) return uploaded;
+  }
+  const pending = upload(file, mimeType, onStatus);
+  uploads.set(file, pending);
+  return pending;
+}
+
+// Small files are inlined; large ones, or all of them when `forceUpload` is set because a
+// request carries several, are referenced by Files API URI
+export async function mediaPart(file: Blob, mimeType = file.type, options: { forceUpload?: boolean; onStatus?: (status: UploadStatus) => void } = {}): Promise<Part> {
+  if (!options.forceUpload && file.size <= MAX_INLINE_BYTES) {
+    return { inlineData: { data: await fileToBase64(file), mimeType } };
+  }
+  const uploaded = await uploadFile(file, mimeType, options.onStatus);
+  return { fileData: { fileUri: uploaded.uri, mimeType } };
+}
@@ -0,0 +1,32 @@
+export type VideoSource = 'camera' | 'screen';
+
+export interface FrameCaptureOptions {
+  fps: number;
+  maxWidth: number;
+  quality?: number;
+  // Receives each frame as base64 JPEG without the data: URL prefix
+  onFrame: (base64: string) => void;
+}
+
+export function openVideoSource(source: VideoSource, maxWidth: number): Promise<MediaStream> {
+  return source === 'camera'
+    ? navigator.mediaDevices.getUserMedia({ video: { width: { ideal: maxWidth } } })
+    : navigator.mediaDevices.getDisplayMedia({ video: true });
+}
+
+// Samples the element on a timer and downscales each frame so the Live API gets a steady, small feed
+export function startFrameCapture(video: HTMLVideoElement, { fps, maxWidth, quality = 0.7, onFrame }: FrameCaptureOptions): () => void {
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d');
+
+  const timer = setInterval(() => {
+    if (!ctx || video.readyState < HTMLMediaElement.HAVE_CURRENT_DATA || !video.videoWidth) return;
+    const scale = Math.min(1, maxWidth / video.videoWidth);
+    canvas.width = Math.round(video.videoWidth * scale);
+    canvas.height = Math.round(video.videoHeight * scale);
+    ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+    onFrame(canvas.toDataURL('image/jpeg', quality).split(',')[1]);
+  }, 1000 / fps);
+
+  return () => clearInterval(timer);
+}
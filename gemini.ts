@@ -1,23 +1,138 @@
 
 import { GoogleGenAI } from "@google/genai";
+import { callGemini, classifyError } from "./errors";
 
 export function getAI() {
   return new GoogleGenAI({ apiKey: process.env.API_KEY });
 }
 
+export type ModelCapability =
+  | 'text'
+  | 'vision'
+  | 'audioInput'
+  | 'imageOutput'
+  | 'audioOutput'
+  | 'live'
+  | 'video'
+  | 'thinking'
+  | 'googleSearch'
+  | 'googleMaps';
+
+export interface ModelInfo {
+  id: string;
+  label: string;
+  capabilities: ModelCapability[];
+  // Tried next when this model returns 404 (renamed or retired preview)
+  fallback?: string;
+}
+
+export const MODELS: ModelInfo[] = [
+  { id: 'gemini-3-pro-preview', label: 'Gemini 3 Pro', capabilities: ['text', 'vision', 'audioInput', 'thinking', 'googleSearch'], fallback: 'gemini-2.5-pro' },
+  { id: 'gemini-3-flash-preview', label: 'Gemini 3 Flash', capabilities: ['text', 'vision', 'audioInput', 'thinking', 'googleSearch'], fallback: 'gemini-2.5-flash' },
+  { id: 'gemini-2.5-pro', label: 'Gemini 2.5 Pro', capabilities: ['text', 'vision', 'audioInput', 'thinking', 'googleSearch', 'googleMaps'] },
+  { id: 'gemini-2.5-flash', label: 'Gemini 2.5 Flash', capabilities: ['text', 'vision', 'audioInput', 'thinking', 'googleSearch', 'googleMaps'], fallback: 'gemini-flash-latest' },
+  { id: 'gemini-flash-latest', label: 'Gemini Flash (Latest)', capabilities: ['text', 'vision', 'audioInput', 'thinking', 'googleSearch', 'googleMaps'] },
+  { id: 'gemini-flash-lite-latest', label: 'Gemini Flash Lite (Latest)', capabilities: ['text', 'vision', 'audioInput', 'googleSearch'], fallback: 'gemini-2.5-flash-lite' },
+  { id: 'gemini-2.5-flash-lite', label: 'Gemini 2.5 Flash Lite', capabilities: ['text', 'vision', 'audioInput', 'googleSearch'] },
+  { id: 'gemini-3-pro-image-preview', label: 'Gemini 3 Pro Image', capabilities: ['vision', 'imageOutput'], fallback: 'gemini-2.5-flash-image' },
+  { id: 'gemini-2.5-flash-image', label: 'Gemini 2.5 Flash Image', capabilities: ['vision', 'imageOutput'] },
+  { id: 'veo-3.1-fast-generate-preview', label: 'Veo 3.1 Fast', capabilities: ['video'], fallback: 'veo-3.1-generate-preview' },
+  { id: 'veo-3.1-generate-preview', label: 'Veo 3.1', capabilities: ['video'] },
+  // Live-only: these take audio and text through a Live session, never through generateContent
+  { id: 'gemini-2.5-flash-native-audio-preview-12-2025', label: 'Gemini 2.5 Flash Native Audio', capabilities: ['live', 'audioOutput'], fallback: 'gemini-live-2.5-flash-preview' },
+  { id: 'gemini-live-2.5-flash-preview', label: 'Gemini Live 2.5 Flash', capabilities: ['live', 'audioOutput'] },
+  { id: 'gemini-2.5-flash-preview-tts', label: 'Gemini 2.5 Flash TTS', capabilities: ['audioOutput'], fallback: 'gemini-2.5-pro-preview-tts' },
+  { id: 'gemini-2.5-pro-preview-tts', label: 'Gemini 2.5 Pro TTS', capabilities: ['audioOutput'] },
+];
+
+// A slot is one place in the app that needs a model; labs with two modes get two slots
+export type ModelSlot =
+  | 'prompt'
+  | 'chat'
+  | 'chatFast'
+  | 'search'
+  | 'maps'
+  | 'imageGenerate'
+  | 'imageEdit'
+  | 'video'
+  | 'analysis'
+  | 'analysisFast'
+  | 'live'
+  | 'transcription'
+  | 'summary'
+  | 'tts';
+
+export const MODEL_SLOTS: Record<ModelSlot, { label: string; capability: ModelCapability; defaultModel: string }> = {
+  prompt: { label: 'Prompt Improver', capability: 'text', defaultModel: 'gemini-3-flash-preview' },
+  chat: { label: 'Chatbot (Pro)', capability: 'text', defaultModel: 'gemini-3-pro-preview' },
+  chatFast: { label: 'Chatbot (Fast)', capability: 'text', defaultModel: 'gemini-3-flash-preview' },
+  search: { label: 'Search Lab', capability: 'googleSearch', defaultModel: 'gemini-3-flash-preview' },
+  maps: { label: 'Maps Lab', capability: 'googleMaps', defaultModel: 'gemini-2.5-flash' },
+  imageGenerate: { label: 'Image Generation', capability: 'imageOutput', defaultModel: 'gemini-3-pro-image-preview' },
+  imageEdit: { label: 'Image Editing', capability: 'imageOutput', defaultModel: 'gemini-2.5-flash-image' },
+  video: { label: 'Video Generation', capability: 'video', defaultModel: 'veo-3.1-fast-generate-preview' },
+  analysis: { label: 'Analysis (Deep)', capability: 'vision', defaultModel: 'gemini-3-pro-preview' },
+  analysisFast: { label: 'Analysis (Fast)', capability: 'vision', defaultModel: 'gemini-flash-lite-latest' },
+  live: { label: 'Live API', capability: 'live', defaultModel: 'gemini-2.5-flash-native-audio-preview-12-2025' },
+  transcription: { label: 'Transcription', capability: 'audioInput', defaultModel: 'gemini-2.5-flash' },
+  summary: { label: 'Meeting Summary', capability: 'text', defaultModel: 'gemini-3-flash-preview' },
+  tts: { label: 'Voice Preview', capability: 'audioOutput', defaultModel: 'gemini-2.5-flash-preview-tts' },
+};
+
+export type ModelPreferences = Partial<Record<ModelSlot, string>>;
+
+let modelPreferences: ModelPreferences = {};
+
+// App keeps this in sync with UserSettings so helpers outside React (improvePrompt) see the user's picks
+export function setModelPreferences(prefs: ModelPreferences) {
+  modelPreferences = prefs;
+}
+
+export function getModelInfo(id: string): ModelInfo | undefined {
+  return MODELS.find(m => m.id === id);
+}
+
+export function modelsWithCapability(capability: ModelCapability): ModelInfo[] {
+  return MODELS.filter(m => m.capabilities.includes(capability));
+}
+
+export function resolveModel(slot: ModelSlot, prefs: ModelPreferences = modelPreferences): string {
+  return prefs[slot] || MODEL_SLOTS[slot].defaultModel;
+}
+
+// Runs `call` against `model`, walking the registry's fallback chain while the API reports 404
+export async function withModelFallback<T>(model: string, call: (model: string) => Promise<T>): Promise<T> {
+  const tried = new Set<string>();
+  let current: string | undefined = model;
+  let lastError: unknown;
+  while (current && !tried.has(current)) {
+    tried.add(current);
+    try {
+      return await call(current);
+    } catch (err) {
+      if (classifyError(err).kind !== 'notFound') throw err;
+      console.warn(`Model ${current} not found, trying fallback.`);
+      lastError = err;
+      current = getModelInfo(current)?.fallback;
+    }
+  }
+  throw lastError;
+}
+
 export async function improvePrompt(text: string): Promise<string> {
   if (!text || text.trim().length < 2) return text;
   
   try {
     const ai = getAI();
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-flash-preview',
+    const requested = resolveModel('prompt');
+    const response = await callGemini(() => withModelFallback(requested, model => ai.models.generateContent({
+      model,
       contents: `You are an expert prompt engineer. Rewrite the following user input to be significantly more effective, detailed, and optimized for an AI model (like a search engine, image generator, or chatbot). 
       Maintain the original intent but make it clearer and more descriptive. 
       Return ONLY the improved text and nothing else.
       
       User Input: "${text}"`,
-    });
+    })), { model: requested });
     return response.text?.trim() || text;
   } catch (err) {
     console.error("Failed to improve prompt:", err);
@@ -63,7 +178,7 @@ export async function decodeAudioData(
   return buffer;
 }
 
-export async function fileToBase64(file: File): Promise<string> {
+export async function fileToBase64(file: Blob): Promise<string> {
   return new Promise((resolve, reject) => {
     const reader = new FileReader();
     reader.readAsDataURL(file);
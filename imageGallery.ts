@@ -0,0 +1,138 @@
+import { addImage, dataUrlToBlob, ImageHistoryItem, ImageMetadata, ImageReference, SavedReference, toReference } from './imageHistory';
+import { createZip, readZip } from './zip';
+
+// Gallery views over Creative Studio's saved images: search, tags, storage use and ZIP archives
+
+export interface GalleryFilter {
+  query: string;
+  tags: string[];
+  favoritesOnly: boolean;
+}
+
+export const EMPTY_FILTER: GalleryFilter = { query: '', tags: [], favoritesOnly: false };
+
+export function normalizeTag(tag: string): string {
+  return tag.trim().toLowerCase().replace(/^#/, '').replace(/\s+/g, '-');
+}
+
+// Every word of the query must appear somewhere in the prompt, tags, model or reference names
+export function searchImages(items: ImageHistoryItem[], filter: GalleryFilter): ImageHistoryItem[] {
+  const words = filter.query.toLowerCase().split(/\s+/).filter(Boolean);
+  return items.filter(item => {
+    if (filter.favoritesOnly && !item.favorite) return false;
+    if (!filter.tags.every(t => item.tags.includes(t))) return false;
+    if (words.length === 0) return true;
+    const text = [item.prompt, item.model ?? '', ...item.tags, ...(item.references ?? []).map(r => r.name)].join(' ').toLowerCase();
+    return words.every(w => text.includes(w));
+  });
+}
+
+// Tags in use, most used first
+export function tagCounts(items: ImageHistoryItem[]): { tag: string; count: number }[] {
+  const counts = new Map<string, number>();
+  items.forEach(i => i.tags.forEach(t => counts.set(t, (counts.get(t) ?? 0) + 1)));
+  return [...counts].map(([tag, count]) => ({ tag, count })).sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+}
+
+export function imageBytes(item: ImageHistoryItem): number {
+  return item.blob.size + (item.thumbnail?.size ?? 0);
+}
+
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 ** 2) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 ** 3) return `${(bytes / 1024 ** 2).toFixed(1)} MB`;
+  return `${(bytes / 1024 ** 3).toFixed(2)} GB`;
+}
+
+// Origin-wide usage and quota; null where the browser doesn't report them
+export async function storageEstimate(): Promise<{ usage: number; quota: number } | null> {
+  if (!navigator.storage?.estimate) return null;
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return quota > 0 ? { usage, quota } : null;
+}
+
+// Images a cleanup would remove: anything older than the cutoff that isn't a favorite
+export function cleanupCandidates(items: ImageHistoryItem[], olderThanDays: number, now = Date.now()): ImageHistoryItem[] {
+  const cutoff = now - olderThanDays * 24 * 60 * 60 * 1000;
+  return items.filter(i => !i.favorite && i.timestamp < cutoff);
+}
+
+const MANIFEST_NAME = 'manifest.json';
+const MANIFEST_FORMAT = 'gemini-lab-gallery';
+
+// Version 1 archives carried each reference inline as a data URL in `url`
+type ManifestReference = SavedReference & { file?: string; url?: string };
+
+type ManifestImage = Omit<ImageMetadata, 'references'> & { id: number; file: string; references?: ManifestReference[] };
+
+interface GalleryManifest {
+  format: typeof MANIFEST_FORMAT;
+  version: 1 | 2;
+  exportedAt: string;
+  images: ManifestImage[];
+}
+
+const extensionOf = (blob: Blob) => blob.type.split('/')[1]?.replace('jpeg', 'jpg') || 'png';
+
+// Archive entries carry no MIME type, so it comes back from the extension
+const typedImage = (blob: Blob, name: string) => new Blob([blob], { type: `image/${name.split('.').pop()?.replace('jpg', 'jpeg') || 'png'}` });
+
+const referenceFile = (ref: ImageReference) => `references/${ref.id}.${extensionOf(ref.blob)}`;
+
+// Image files, each reference image once, and a manifest with everything needed to rebuild the
+// entries, version links included
+export async function exportGallery(items: ImageHistoryItem[]): Promise<Blob> {
+  const images: ManifestImage[] = items.map(({ url, thumbUrl, blob, thumbnail, references, ...meta }) => ({
+    ...meta,
+    file: `images/${meta.id}.${extensionOf(blob)}`,
+    references: references?.map(ref => ({ id: ref.id, name: ref.name, role: ref.role, file: referenceFile(ref) })),
+  }));
+  const references = new Map(items.flatMap(i => i.references ?? []).map(ref => [ref.id, ref]));
+  const manifest: GalleryManifest = { format: MANIFEST_FORMAT, version: 2, exportedAt: new Date().toISOString(), images };
+  return createZip([
+    { name: MANIFEST_NAME, data: JSON.stringify(manifest, null, 2) },
+    ...items.map((item, i) => ({ name: images[i].file, data: item.blob, date: new Date(item.timestamp) })),
+    ...[...references.values()].map(ref => ({ name: referenceFile(ref), data: ref.blob })),
+  ]);
+}
+
+// Adds every image in an exported archive as a new entry. Ids are reassigned, and a version
+// whose parent wasn't exported becomes a root.
+export async function importGallery(file: Blob): Promise<ImageHistoryItem[]> {
+  const entries = await readZip(file);
+  const manifestFile = entries.get(MANIFEST_NAME);
+  if (!manifestFile) throw new Error(`The archive has no ${MANIFEST_NAME}`);
+  const manifest = JSON.parse(await manifestFile.text()) as GalleryManifest;
+  if (manifest.format !== MANIFEST_FORMAT || !Array.isArray(manifest.images)) throw new Error('The archive is not a gallery export');
+
+  // Read once per id, since many images can share a reference. One whose image isn't in the archive is left out.
+  const referenceBlobs = new Map<string, Blob | undefined>();
+  const loadReference = ({ id, name, role, file, url }: ManifestReference): ImageReference | undefined => {
+    if (!referenceBlobs.has(id)) {
+      const stored = file ? entries.get(file) : undefined;
+      referenceBlobs.set(id, typeof url === 'string' ? dataUrlToBlob(url) : stored && file ? typedImage(stored, file) : undefined);
+    }
+    const blob = referenceBlobs.get(id);
+    return blob ? toReference({ id, name, role }, blob) : undefined;
+  };
+
+  const newIds = new Map<number, number>();
+  const imported: ImageHistoryItem[] = [];
+  // Oldest first, so a parent is always added before its edits
+  for (const { id, file: name, references, ...meta } of [...manifest.images].sort((a, b) => a.timestamp - b.timestamp)) {
+    const blob = entries.get(name);
+    if (!blob) continue;
+    const loaded = (Array.isArray(references) ? references : []).map(loadReference).filter((r): r is ImageReference => !!r);
+    const item = await addImage(typedImage(blob, name), {
+      ...meta,
+      references: loaded.length > 0 ? loaded : undefined,
+      tags: Array.isArray(meta.tags) ? meta.tags : [],
+      favorite: !!meta.favorite,
+      parentId: meta.parentId !== undefined ? newIds.get(meta.parentId) : undefined,
+    });
+    newIds.set(id, item.id);
+    imported.push(item);
+  }
+  return imported;
+}
@@ -0,0 +1,321 @@
+import { Content, GenerateContentResponse, Part } from '@google/genai';
+import { openDB, promisifyRequest } from './db';
+import { fileToBase64 } from './gemini';
+
+// Creative Studio's saved images. Each edit points at the image it was made from, so the store
+// holds a tree of versions; images saved before that existed are simply roots.
+
+export type ImageVersionMode = 'generate' | 'edit' | 'source';
+
+export type ReferenceRole = 'subject' | 'style' | 'background' | 'character';
+
+export const REFERENCE_ROLES: { id: ReferenceRole; label: string; instruction: string }[] = [
+  { id: 'subject', label: 'Subject', instruction: 'include this subject, keeping its shape, details and colors' },
+  { id: 'style', label: 'Style', instruction: 'match its artistic style, palette and lighting, not its content' },
+  { id: 'background', label: 'Background', instruction: 'use it as the scene or backdrop' },
+  { id: 'character', label: 'Character', instruction: 'keep this character\'s identity, face and outfit consistent' },
+];
+
+// How a saved image lists a reference; the image itself is stored once per id, however many
+// results it was sent with
+export interface SavedReference {
+  id: string;
+  name: string;
+  role: ReferenceRole;
+}
+
+// An extra image sent with a request. The Blob is kept so a saved result can be reproduced.
+export interface ImageReference extends SavedReference {
+  blob: Blob;
+  // Object URL for display
+  url: string;
+}
+
+export interface ImageMetadata {
+  prompt: string;
+  timestamp: number;
+  // 'source' marks an uploaded image that edits branch from
+  mode: ImageVersionMode;
+  parentId?: number;
+  model?: string;
+  // Thought signature of the returned image part, replayed so multi-turn edits keep the model's context
+  signature?: string;
+  // Reference images in the order they were sent
+  references?: ImageReference[];
+  // Settings of the generate call; edits and uploads keep the source's framing
+  aspectRatio?: string;
+  imageSize?: string;
+  // Pixel size, read when the image is saved
+  width?: number;
+  height?: number;
+  tags: string[];
+  favorite: boolean;
+}
+
+interface ImageFiles {
+  id: number;
+  blob: Blob;
+  thumbnail?: Blob;
+}
+
+// Record layout in IndexedDB
+interface StoredImage extends Omit<ImageMetadata, 'references'>, ImageFiles {
+  references?: SavedReference[];
+}
+
+interface StoredReference {
+  id: string;
+  blob: Blob;
+}
+
+// A loaded record with object URLs for the image and its thumbnail, and its references' images
+export interface ImageHistoryItem extends ImageMetadata, ImageFiles {
+  url: string;
+  thumbUrl: string;
+}
+
+export type NewImage = Omit<ImageMetadata, 'tags' | 'favorite'> & Partial<Pick<ImageMetadata, 'tags' | 'favorite'>>;
+
+const DB_NAME = 'GeminiLabImages';
+const STORE_NAME = 'history';
+const REFERENCE_STORE = 'references';
+
+// Longest edge of the thumbnails shown in the history and gallery
+export const THUMBNAIL_SIZE = 256;
+
+export function dataUrlToBlob(url: string): Blob {
+  const [, mimeType = 'image/png', data = ''] = url.match(/^data:([^;]+);base64,(.*)$/) ?? [];
+  return new Blob([Uint8Array.from(atob(data), c => c.charCodeAt(0))], { type: mimeType });
+}
+
+const initDB = () => openDB(DB_NAME, 3, (db, tx) => {
+  if (!db.objectStoreNames.contains(REFERENCE_STORE)) db.createObjectStore(REFERENCE_STORE, { keyPath: 'id' });
+  if (!db.objectStoreNames.contains(STORE_NAME)) {
+    db.createObjectStore(STORE_NAME, { keyPath: 'id', autoIncrement: true });
+    return;
+  }
+  // Version 1 kept every image as a data URL, and version 2 still kept each reference image as
+  // one inside every record that used it; all of them move to Blobs. Thumbnails are left out
+  // because the upgrade transaction can't wait for an image to decode.
+  const references = tx.objectStore(REFERENCE_STORE);
+  const request = tx.objectStore(STORE_NAME).openCursor();
+  request.onsuccess = () => {
+    const cursor = request.result;
+    if (!cursor) return;
+    const { url, ...rest } = cursor.value;
+    const record = typeof url === 'string' ? { tags: [], favorite: false, ...rest, blob: dataUrlToBlob(url) } : rest;
+    const legacyReferences = (record.references ?? []).filter((r: { url?: unknown }) => typeof r.url === 'string');
+    legacyReferences.forEach((r: { id: string; url: string }) => references.put({ id: r.id, blob: dataUrlToBlob(r.url) }));
+    if (legacyReferences.length > 0) record.references = record.references.map(({ id, name, role }: SavedReference) => ({ id, name, role }));
+    if (typeof url === 'string' || legacyReferences.length > 0) cursor.update(record);
+    cursor.continue();
+  };
+});
+
+// Object URLs live as long as the record, so reopening the lab reuses them instead of leaking new ones
+const objectUrls = new Map<number, { url: string; thumbUrl: string }>();
+
+// Reference images get one object URL per id, shared by every result that was sent them
+const referenceUrls = new Map<string, string>();
+
+export function toReference(saved: SavedReference, blob: Blob): ImageReference {
+  let url = referenceUrls.get(saved.id);
+  if (!url) {
+    url = URL.createObjectURL(blob);
+    referenceUrls.set(saved.id, url);
+  }
+  return { ...saved, blob, url };
+}
+
+export function newReference(file: Blob, name: string, role: ReferenceRole): ImageReference {
+  return toReference({ id: crypto.randomUUID(), name, role }, file);
+}
+
+const withUrls = (record: StoredImage, referenceBlobs: Map<string, Blob>): ImageHistoryItem => {
+  let urls = objectUrls.get(record.id);
+  if (!urls) {
+    const url = URL.createObjectURL(record.blob);
+    urls = { url, thumbUrl: record.thumbnail ? URL.createObjectURL(record.thumbnail) : url };
+    objectUrls.set(record.id, urls);
+  }
+  // A reference whose image is missing is dropped rather than sent without one
+  const references = record.references
+    ?.filter(r => referenceBlobs.has(r.id))
+    .map(r => toReference(r, referenceBlobs.get(r.id)!));
+  return { ...record, ...urls, references };
+};
+
+const saveReference = ({ id, name, role }: ImageReference): SavedReference => ({ id, name, role });
+
+const toRecord = ({ url, thumbUrl, references, ...record }: ImageHistoryItem): StoredImage => ({
+  ...record,
+  references: references?.map(saveReference),
+});
+
+const releaseUrls = (id: number) => {
+  const urls = objectUrls.get(id);
+  if (!urls) return;
+  URL.revokeObjectURL(urls.url);
+  if (urls.thumbUrl !== urls.url) URL.revokeObjectURL(urls.thumbUrl);
+  objectUrls.delete(id);
+};
+
+// Reads the pixel size and renders a thumbnail. An image the browser can't decode is still saved, just without them.
+async function describeImage(blob: Blob): Promise<Pick<StoredImage, 'width' | 'height' | 'thumbnail'>> {
+  try {
+    const bitmap = await createImageBitmap(blob);
+    const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(bitmap.width, bitmap.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+    canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+    canvas.getContext('2d')!.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    const thumbnail = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/webp', 0.8));
+    const described = { width: bitmap.width, height: bitmap.height, ...(thumbnail ? { thumbnail } : {}) };
+    bitmap.close();
+    return described;
+  } catch (err) {
+    console.warn('Could not read image for thumbnail', err);
+    return {};
+  }
+}
+
+export async function listImages(): Promise<ImageHistoryItem[]> {
+  const db = await initDB();
+  const tx = db.transaction([STORE_NAME, REFERENCE_STORE], 'readonly');
+  const [records, references] = await Promise.all([
+    promisifyRequest(tx.objectStore(STORE_NAME).getAll()) as Promise<StoredImage[]>,
+    promisifyRequest(tx.objectStore(REFERENCE_STORE).getAll()) as Promise<StoredReference[]>,
+  ]);
+  const referenceBlobs = new Map(references.map(r => [r.id, r.blob]));
+  return records.map(r => withUrls(r, referenceBlobs)).sort((a, b) => b.timestamp - a.timestamp);
+}
+
+export async function addImage(blob: Blob, meta: NewImage): Promise<ImageHistoryItem> {
+  const item = { tags: [], favorite: false, ...meta, ...await describeImage(blob), blob };
+  const record: Omit<StoredImage, 'id'> = { ...item, references: item.references?.map(saveReference) };
+  const db = await initDB();
+  const tx = db.transaction([STORE_NAME, REFERENCE_STORE], 'readwrite');
+  // References are keyed by id, so one sent with many results is stored once
+  const references = tx.objectStore(REFERENCE_STORE);
+  const [id] = await Promise.all([
+    promisifyRequest(tx.objectStore(STORE_NAME).add(record)) as Promise<number>,
+    ...(item.references ?? []).map(r => promisifyRequest(references.put({ id: r.id, blob: r.blob }))),
+  ]);
+  return withUrls({ ...record, id }, new Map(item.references?.map(r => [r.id, r.blob])));
+}
+
+export async function updateImage(item: ImageHistoryItem, patch: Partial<ImageMetadata>): Promise<ImageHistoryItem> {
+  const updated = { ...item, ...patch };
+  const db = await initDB();
+  const store = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME);
+  await promisifyRequest(store.put(toRecord(updated)));
+  return updated;
+}
+
+// Children of deleted versions move up to their nearest remaining ancestor so branches stay connected
+export async function deleteImages(ids: number[], items: ImageHistoryItem[]): Promise<ImageHistoryItem[]> {
+  const removed = new Set(ids);
+  const byId = new Map(items.map(i => [i.id, i]));
+  const remainingAncestor = (parentId: number | undefined) => {
+    const seen = new Set<number>();
+    while (parentId !== undefined && removed.has(parentId) && !seen.has(parentId)) {
+      seen.add(parentId);
+      parentId = byId.get(parentId)?.parentId;
+    }
+    return parentId !== undefined && removed.has(parentId) ? undefined : parentId;
+  };
+  const moved = items
+    .filter(i => !removed.has(i.id) && i.parentId !== undefined && removed.has(i.parentId))
+    .map(i => ({ ...i, parentId: remainingAncestor(i.parentId) }));
+
+  // Reference images go with the last image that used them
+  const kept = new Set(items.filter(i => !removed.has(i.id)).flatMap(i => i.references ?? []).map(r => r.id));
+  const unused = [...new Set(items.filter(i => removed.has(i.id)).flatMap(i => i.references ?? []).map(r => r.id))]
+    .filter(id => !kept.has(id));
+
+  const db = await initDB();
+  const tx = db.transaction([STORE_NAME, REFERENCE_STORE], 'readwrite');
+  const store = tx.objectStore(STORE_NAME);
+  const references = tx.objectStore(REFERENCE_STORE);
+  await Promise.all([
+    ...moved.map(i => promisifyRequest(store.put(toRecord(i)))),
+    ...ids.map(id => promisifyRequest(store.delete(id))),
+    ...unused.map(id => promisifyRequest(references.delete(id))),
+  ]);
+  ids.forEach(releaseUrls);
+  unused.forEach(id => {
+    const url = referenceUrls.get(id);
+    if (url) URL.revokeObjectURL(url);
+    referenceUrls.delete(id);
+  });
+  return items.filter(i => !removed.has(i.id)).map(i => moved.find(m => m.id === i.id) ?? i);
+}
+
+export function childrenOf(items: ImageHistoryItem[], parentId: number | undefined): ImageHistoryItem[] {
+  const known = new Set(items.map(i => i.id));
+  return items
+    // A parent that no longer exists makes the item a root
+    .filter(i => parentId === undefined ? i.parentId === undefined || !known.has(i.parentId) : i.parentId === parentId)
+    .sort((a, b) => parentId === undefined ? b.timestamp - a.timestamp : a.timestamp - b.timestamp);
+}
+
+// Versions from the root down to `id`, inclusive
+export function pathTo(items: ImageHistoryItem[], id: number): ImageHistoryItem[] {
+  const byId = new Map(items.map(i => [i.id, i]));
+  const path: ImageHistoryItem[] = [];
+  for (let node = byId.get(id); node && !path.includes(node); node = node.parentId !== undefined ? byId.get(node.parentId) : undefined) {
+    path.unshift(node);
+  }
+  return path;
+}
+
+const blobPart = async (blob: Blob): Promise<Part> => ({
+  inlineData: { data: await fileToBase64(blob), mimeType: blob.type || 'image/png' },
+});
+
+// Each reference is introduced by a line naming its position and role, so the prompt can refer to
+// "image 2" and the model knows what to take from it
+export async function referenceParts(references: ImageReference[]): Promise<Part[]> {
+  const parts = await Promise.all(references.map(async (ref, i): Promise<Part[]> => {
+    const role = REFERENCE_ROLES.find(r => r.id === ref.role) ?? REFERENCE_ROLES[0];
+    return [{ text: `Reference image ${i + 1} (${role.label.toLowerCase()}): ${role.instruction}.` }, await blobPart(ref.blob)];
+  }));
+  return parts.flat();
+}
+
+// Earlier steps sent along with an edit; older ones are dropped to keep requests small
+export const MAX_CONTEXT_STEPS = 3;
+
+// Replays the branch ending at the last item of `path` as a conversation, then appends `request`.
+// The oldest kept version is sent as an uploaded image; each later one as the user's prompt and
+// the model's image, with its signature when the same model made it.
+export async function buildEditContents(path: ImageHistoryItem[], request: Part[], model: string): Promise<Content[]> {
+  const kept = path.slice(-(MAX_CONTEXT_STEPS + 1));
+  if (kept.length === 0) return [{ role: 'user', parts: request }];
+  const [first, ...rest] = kept;
+  const modelImage = async (item: ImageHistoryItem): Promise<Part> => ({
+    ...await blobPart(item.blob),
+    ...(item.signature && item.model === model ? { thoughtSignature: item.signature } : {}),
+  });
+
+  const contents: Content[] = [];
+  let pending: Part[] = [];
+  if (first.mode === 'source' || kept.length < path.length) {
+    pending = [await blobPart(first.blob)];
+  } else {
+    contents.push({ role: 'user', parts: [{ text: first.prompt }] }, { role: 'model', parts: [await modelImage(first)] });
+  }
+  for (const item of rest) {
+    contents.push({ role: 'user', parts: [...pending, { text: item.prompt }] }, { role: 'model', parts: [await modelImage(item)] });
+    pending = [];
+  }
+  contents.push({ role: 'user', parts: [...pending, ...request] });
+  return contents;
+}
+
+// The final image of a response; image models may also return draft images marked as thoughts
+export function imageFromResponse(response: GenerateContentResponse): { url: string; signature?: string } | null {
+  const part = response.candidates?.[0]?.content?.parts?.find(p => p.inlineData?.data && !p.thought);
+  if (!part?.inlineData) return null;
+  return { url: `data:${part.inlineData.mimeType ?? 'image/png'};base64,${part.inlineData.data}`, signature: part.thoughtSignature };
+}
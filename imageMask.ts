@@ -0,0 +1,184 @@
+// Mask editing for region-limited image edits. Masks are kept as a list of drawing operations in
+// source-image pixels, so undo/redo is just a list edit and the mask can be redrawn at any size.
+
+export type MaskTool = 'brush' | 'eraser' | 'rect' | 'lasso';
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export type MaskOp =
+  | { tool: 'brush' | 'eraser'; size: number; points: Point[] }
+  // `erase` subtracts the shape instead of adding it
+  | { tool: 'rect'; from: Point; to: Point; erase?: boolean }
+  | { tool: 'lasso'; points: Point[]; erase?: boolean };
+
+export interface Bounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Paints the ops in white onto a transparent context; erased areas become transparent again
+export function drawMaskOps(ctx: CanvasRenderingContext2D, ops: MaskOp[]): void {
+  ctx.save();
+  ctx.fillStyle = '#fff';
+  ctx.strokeStyle = '#fff';
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+  for (const op of ops) {
+    const erase = op.tool === 'eraser' || ((op.tool === 'rect' || op.tool === 'lasso') && op.erase);
+    ctx.globalCompositeOperation = erase ? 'destination-out' : 'source-over';
+    if (op.tool === 'brush' || op.tool === 'eraser') {
+      if (op.points.length === 0) continue;
+      ctx.lineWidth = op.size;
+      ctx.beginPath();
+      ctx.moveTo(op.points[0].x, op.points[0].y);
+      // A single click still leaves a dot
+      if (op.points.length === 1) ctx.lineTo(op.points[0].x + 0.01, op.points[0].y);
+      op.points.slice(1).forEach(p => ctx.lineTo(p.x, p.y));
+      ctx.stroke();
+    } else if (op.tool === 'rect') {
+      ctx.fillRect(Math.min(op.from.x, op.to.x), Math.min(op.from.y, op.to.y), Math.abs(op.to.x - op.from.x), Math.abs(op.to.y - op.from.y));
+    } else if (op.points.length > 2) {
+      ctx.beginPath();
+      ctx.moveTo(op.points[0].x, op.points[0].y);
+      op.points.slice(1).forEach(p => ctx.lineTo(p.x, p.y));
+      ctx.closePath();
+      ctx.fill();
+    }
+  }
+  ctx.restore();
+}
+
+// One alpha value per pixel, 0 outside the mask and 255 inside
+export function renderMaskAlpha(ops: MaskOp[], width: number, height: number): Uint8ClampedArray {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas is not available');
+  drawMaskOps(ctx, ops);
+  const { data } = ctx.getImageData(0, 0, width, height);
+  const alpha = new Uint8ClampedArray(width * height);
+  for (let i = 0; i < alpha.length; i++) alpha[i] = data[i * 4 + 3];
+  return alpha;
+}
+
+const boxBlur = (src: Float32Array, width: number, height: number, radius: number, horizontal: boolean): Float32Array => {
+  const out = new Float32Array(src.length);
+  const lines = horizontal ? height : width;
+  const length = horizontal ? width : height;
+  const at = (line: number, i: number) => horizontal ? line * width + i : i * width + line;
+  for (let line = 0; line < lines; line++) {
+    // Running sum over a window clamped to the image edge
+    let sum = 0;
+    for (let i = -radius; i <= radius; i++) sum += src[at(line, Math.min(length - 1, Math.max(0, i)))];
+    for (let i = 0; i < length; i++) {
+      out[at(line, i)] = sum / (2 * radius + 1);
+      sum += src[at(line, Math.min(length - 1, i + radius + 1))] - src[at(line, Math.max(0, i - radius))];
+    }
+  }
+  return out;
+};
+
+// Softens the mask edge inward only: blurred values are remapped so the edge itself reaches 0,
+// and anything outside the hard mask stays exactly 0, so untouched pixels stay untouched
+export function featherAlpha(alpha: Uint8ClampedArray, width: number, height: number, radius: number): Uint8ClampedArray {
+  if (radius <= 0) return alpha;
+  // Three box passes approximate a Gaussian; each covers a third of the radius
+  const pass = Math.max(1, Math.round(radius / 3));
+  let values = Float32Array.from(alpha, a => a / 255);
+  for (let i = 0; i < 3; i++) {
+    values = boxBlur(values, width, height, pass, true);
+    values = boxBlur(values, width, height, pass, false);
+  }
+  const out = new Uint8ClampedArray(alpha.length);
+  for (let i = 0; i < out.length; i++) {
+    out[i] = alpha[i] === 0 ? 0 : Math.round(Math.max(0, 2 * values[i] - 1) * (alpha[i] / 255) * 255);
+  }
+  return out;
+}
+
+export function maskBounds(alpha: Uint8ClampedArray, width: number, height: number): Bounds | null {
+  let minX = width, minY = height, maxX = -1, maxY = -1;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (alpha[y * width + x] === 0) continue;
+      if (x < minX) minX = x;
+      if (x > maxX) maxX = x;
+      if (y < minY) minY = y;
+      if (y > maxY) maxY = y;
+    }
+  }
+  return maxX < 0 ? null : { x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1 };
+}
+
+// Describes the masked region in the [ymin, xmin, ymax, xmax] 0-1000 convention the models use for boxes
+export function regionHint(bounds: Bounds, width: number, height: number): string {
+  const scale = (v: number, size: number) => Math.round((v / size) * 1000);
+  const box = [scale(bounds.y, height), scale(bounds.x, width), scale(bounds.y + bounds.height, height), scale(bounds.x + bounds.width, width)];
+  return `The region to edit lies within box_2d [${box.join(', ')}] (ymin, xmin, ymax, xmax, normalized to 0-1000).`;
+}
+
+// Black and white PNG of the mask, white where edits are allowed
+export function maskToPNG(alpha: Uint8ClampedArray, width: number, height: number): string {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas is not available');
+  const image = ctx.createImageData(width, height);
+  for (let i = 0; i < alpha.length; i++) {
+    const v = alpha[i] > 127 ? 255 : 0;
+    image.data.set([v, v, v, 255], i * 4);
+  }
+  ctx.putImageData(image, 0, 0);
+  return canvas.toDataURL('image/png').split(',')[1];
+}
+
+// Mixes edited RGBA pixels into the source by mask alpha; where the mask is 0 the source pixel is copied as is
+export function blendMasked(source: Uint8ClampedArray, edited: Uint8ClampedArray, alpha: Uint8ClampedArray): Uint8ClampedArray {
+  const out = new Uint8ClampedArray(source);
+  for (let i = 0; i < alpha.length; i++) {
+    const a = alpha[i];
+    if (a === 0) continue;
+    for (let c = 0; c < 4; c++) {
+      const j = i * 4 + c;
+      out[j] = a === 255 ? edited[j] : Math.round(source[j] + (edited[j] - source[j]) * (a / 255));
+    }
+  }
+  return out;
+}
+
+export const loadImage = (src: string) => new Promise<HTMLImageElement>((resolve, reject) => {
+  const img = new Image();
+  img.onload = () => resolve(img);
+  img.onerror = () => reject(new Error('Could not decode image'));
+  img.src = src;
+});
+
+const pixelsOf = (img: HTMLImageElement, width: number, height: number): Uint8ClampedArray => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas is not available');
+  ctx.drawImage(img, 0, 0, width, height);
+  return ctx.getImageData(0, 0, width, height).data;
+};
+
+// Puts the model's output back over the source at the source's resolution. The model may answer
+// at a different size, so its image is scaled to fit before blending.
+export async function compositeEdit(sourceUrl: string, editedUrl: string, alpha: Uint8ClampedArray, width: number, height: number): Promise<string> {
+  const [source, edited] = await Promise.all([loadImage(sourceUrl), loadImage(editedUrl)]);
+  const blended = blendMasked(pixelsOf(source, width, height), pixelsOf(edited, width, height), alpha);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d')!;
+  ctx.putImageData(new ImageData(blended, width, height), 0, 0);
+  return canvas.toDataURL('image/png');
+}
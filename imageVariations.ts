@@ -0,0 +1,77 @@
+import { ImageReference } from './imageHistory';
+
+// Creative Studio's variations mode: one prompt fanned out into several images, either by
+// repeating it or by expanding a prompt matrix.
+
+// Upper bound on images per run so a large matrix can't start hundreds of calls
+export const MAX_VARIATIONS = 16;
+
+// Calls in flight at once; image requests are slow but rate limited per minute
+export const VARIATION_CONCURRENCY = 4;
+
+export interface Variation {
+  id: string;
+  prompt: string;
+  status: 'pending' | 'done' | 'error';
+  url?: string;
+  model?: string;
+  signature?: string;
+  error?: string;
+  // Settings sent with the call, saved with the image
+  references?: ImageReference[];
+  aspectRatio: string;
+  imageSize: string;
+  // History id once the image has been saved
+  savedId?: number;
+}
+
+// Only braces containing a `|` are options, so other braces in a prompt are left alone
+const MATRIX_PATTERN = /\{([^{}]*\|[^{}]*)\}/g;
+
+// A prompt split into its option groups, with the text around them: literals[i] comes before groups[i]
+function parseMatrix(prompt: string): { literals: string[]; groups: string[][] } {
+  const literals: string[] = [];
+  const groups: string[][] = [];
+  let last = 0;
+  for (const match of prompt.matchAll(MATRIX_PATTERN)) {
+    literals.push(prompt.slice(last, match.index));
+    groups.push(match[1].split('|').map(o => o.trim()));
+    last = match.index! + match[0].length;
+  }
+  literals.push(prompt.slice(last));
+  return { literals, groups };
+}
+
+const combinationCount = (groups: string[][]) => groups.reduce((n, options) => n * options.length, 1);
+
+// Number of combinations a prompt expands to, counted without expanding it
+export function promptMatrixSize(prompt: string): number {
+  return combinationCount(parseMatrix(prompt).groups);
+}
+
+// Expands every `{a|b|c}` group into combinations, in reading order:
+// "a {red|blue} {cat|dog}" gives "a red cat", "a red dog", "a blue cat", "a blue dog".
+// Only the first `limit` are built, so a huge matrix costs no more than a small one.
+export function expandPromptMatrix(prompt: string, limit = MAX_VARIATIONS): string[] {
+  const { literals, groups } = parseMatrix(prompt);
+  return Array.from({ length: Math.min(combinationCount(groups), limit) }, (_, n) => {
+    // n read as a mixed-radix number, the last group being the fastest-changing digit
+    const picks: string[] = [];
+    for (let g = groups.length - 1; g >= 0; g--) {
+      picks[g] = groups[g][n % groups[g].length];
+      n = Math.floor(n / groups[g].length);
+    }
+    return literals.map((literal, g) => literal + (picks[g] ?? '')).join('');
+  });
+}
+
+// Every matrix combination `count` times over, capped at MAX_VARIATIONS. Whole rounds of
+// combinations come first, so the cap drops repeats before it drops a combination.
+export function variationPrompts(prompt: string, count: number): string[] {
+  const combinations = expandPromptMatrix(prompt, MAX_VARIATIONS);
+  return Array.from({ length: count }, () => combinations).flat().slice(0, MAX_VARIATIONS);
+}
+
+export function variationCount(prompt: string, count: number): number {
+  return Math.min(promptMatrixSize(prompt) * count, MAX_VARIATIONS);
+}
@@ -0,0 +1,142 @@
+import { ToolInvocation } from '../types';
+
+// The Live API streams transcription in small chunks for both sides of the conversation.
+// These helpers fold them into one utterance per speaker turn, timed from the start of the session.
+
+export type Speaker = 'user' | 'model';
+
+export interface Utterance {
+  kind: 'utterance';
+  speaker: Speaker;
+  text: string;
+  // Milliseconds since the session started
+  startMs: number;
+  endMs: number;
+  // Still receiving chunks; closed by turnComplete, or by interrupted for the model
+  open: boolean;
+  interrupted?: boolean;
+}
+
+export interface ToolEntry {
+  kind: 'tool';
+  invocation: ToolInvocation;
+  atMs: number;
+}
+
+export interface EventEntry {
+  kind: 'event';
+  text: string;
+  atMs: number;
+}
+
+export type LiveTranscriptEntry = Utterance | ToolEntry | EventEntry;
+
+export type SpeakerLabels = Record<Speaker, string>;
+
+const findOpen = (entries: LiveTranscriptEntry[], speaker: Speaker) => {
+  for (let i = entries.length - 1; i >= 0; i--) {
+    const e = entries[i];
+    if (e.kind === 'utterance' && e.speaker === speaker && e.open) return i;
+  }
+  return -1;
+};
+
+export function appendTranscription(entries: LiveTranscriptEntry[], speaker: Speaker, text: string, atMs: number): LiveTranscriptEntry[] {
+  if (!text) return entries;
+  const index = findOpen(entries, speaker);
+  if (index === -1) {
+    return [...entries, { kind: 'utterance', speaker, text, startMs: atMs, endMs: atMs, open: true }];
+  }
+  const current = entries[index] as Utterance;
+  const next = entries.slice();
+  next[index] = { ...current, text: current.text + text, endMs: atMs };
+  return next;
+}
+
+// turnComplete ends both sides of the exchange. An interruption only ends the model's
+// utterance, since the user is the one still talking.
+export function closeUtterances(entries: LiveTranscriptEntry[], { interrupted = false } = {}): LiveTranscriptEntry[] {
+  if (!entries.some(e => e.kind === 'utterance' && e.open)) return entries;
+  return entries.map(e => {
+    if (e.kind !== 'utterance' || !e.open) return e;
+    if (interrupted && e.speaker !== 'model') return e;
+    return { ...e, open: false, interrupted: interrupted || undefined };
+  });
+}
+
+// 00:00 style for display, with hours only when needed
+export function formatClock(ms: number): string {
+  const total = Math.max(0, Math.floor(ms / 1000));
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = total % 60;
+  const mmss = `${String(m).padStart(2, '0')}:${String(s).padStart(2, '0')}`;
+  return h > 0 ? `${h}:${mmss}` : mmss;
+}
+
+// HH:MM:SS.mmm as used by WebVTT cues
+export function formatCueTime(ms: number, separator = '.'): string {
+  const t = Math.max(0, Math.round(ms));
+  const h = Math.floor(t / 3600000);
+  const m = Math.floor((t % 3600000) / 60000);
+  const s = Math.floor((t % 60000) / 1000);
+  const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+  return `${pad(h)}:${pad(m)}:${pad(s)}${separator}${pad(t % 1000, 3)}`;
+}
+
+// Cue text cannot contain "-->" and treats < and & as markup
+export const escapeCueText = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/-->/g, '->');
+
+const utteranceText = (u: Utterance) => `${u.text.trim()}${u.interrupted ? ' —' : ''}`;
+
+const toolSummary = ({ invocation }: ToolEntry) => {
+  const outcome = invocation.error !== undefined ? `error: ${invocation.error}` : JSON.stringify(invocation.result);
+  return `${invocation.name}(${JSON.stringify(invocation.args)}) → ${outcome}`;
+};
+
+const entryTime = (e: LiveTranscriptEntry) => e.kind === 'utterance' ? e.startMs : e.atMs;
+
+export function toPlainText(entries: LiveTranscriptEntry[], labels: SpeakerLabels): string {
+  return entries.map(e => {
+    const time = `[${formatClock(entryTime(e))}]`;
+    if (e.kind === 'utterance') return `${time} ${labels[e.speaker]}: ${utteranceText(e)}`;
+    if (e.kind === 'tool') return `${time} Tool ${toolSummary(e)}`;
+    return `${time} -- ${e.text} --`;
+  }).join('\n') + '\n';
+}
+
+export function toMarkdown(entries: LiveTranscriptEntry[], labels: SpeakerLabels, startedAt?: number): string {
+  const header = `# Live Session Transcript\n\n${startedAt ? `_Started ${new Date(startedAt).toLocaleString()}_\n\n` : ''}`;
+  return header + entries.map(e => {
+    const time = `\`${formatClock(entryTime(e))}\``;
+    if (e.kind === 'utterance') return `${time} **${labels[e.speaker]}:** ${utteranceText(e)}`;
+    if (e.kind === 'tool') return `${time} 🔧 \`${toolSummary(e).replace(/`/g, "'")}\``;
+    return `${time} _${e.text}_`;
+  }).join('\n\n') + '\n';
+}
+
+// Chunks only mark when text arrived, so a one-chunk utterance gets a minimum length to stay visible
+const MIN_CUE_MS = 1000;
+
+export function toWebVTT(entries: LiveTranscriptEntry[], labels: SpeakerLabels): string {
+  const cues = entries
+    .filter((e): e is Utterance => e.kind === 'utterance' && e.text.trim() !== '')
+    .map((u, i) => {
+      const end = Math.max(u.endMs, u.startMs + MIN_CUE_MS);
+      return `${i + 1}\n${formatCueTime(u.startMs)} --> ${formatCueTime(end)}\n<v ${labels[u.speaker]}>${escapeCueText(utteranceText(u))}`;
+    });
+  return `WEBVTT\n\n${cues.join('\n\n')}\n`;
+}
+
+export interface TranscriptFormat {
+  label: string;
+  extension: string;
+  mimeType: string;
+  build: (entries: LiveTranscriptEntry[], labels: SpeakerLabels, startedAt?: number) => string;
+}
+
+export const TRANSCRIPT_FORMATS: TranscriptFormat[] = [
+  { label: 'TXT', extension: 'txt', mimeType: 'text/plain', build: toPlainText },
+  { label: 'MD', extension: 'md', mimeType: 'text/markdown', build: toMarkdown },
+  { label: 'VTT', extension: 'vtt', mimeType: 'text/vtt', build: toWebVTT },
+];
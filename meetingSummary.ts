@@ -0,0 +1,118 @@
+import { Type } from '@google/genai';
+import { getAI, withModelFallback } from './gemini';
+import { callGemini, GeminiError } from './errors';
+
+// Turns any timestamped transcript into a structured meeting report
+
+export interface ActionItem {
+  task: string;
+  // Empty when the transcript does not say
+  owner: string;
+  dueDate: string;
+}
+
+export interface TopicEntry {
+  // Transcript timestamp where the topic starts, e.g. "12:40"
+  start: string;
+  title: string;
+  summary: string;
+}
+
+export interface MeetingReport {
+  summary: string;
+  decisions: string[];
+  actionItems: ActionItem[];
+  openQuestions: string[];
+  topics: TopicEntry[];
+}
+
+export const EMPTY_REPORT: MeetingReport = { summary: '', decisions: [], actionItems: [], openQuestions: [], topics: [] };
+
+const REPORT_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    summary: { type: Type.STRING, description: 'Executive summary of the meeting in one or two short paragraphs.' },
+    decisions: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'Decisions that were agreed on.' },
+    actionItems: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          task: { type: Type.STRING },
+          owner: { type: Type.STRING, description: 'Person responsible, or an empty string if nobody was named.' },
+          dueDate: { type: Type.STRING, description: 'Due date as stated, ISO format when an exact date is known, or an empty string.' },
+        },
+        required: ['task', 'owner', 'dueDate'],
+        propertyOrdering: ['task', 'owner', 'dueDate'],
+      },
+    },
+    openQuestions: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'Questions raised but not resolved.' },
+    topics: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          start: { type: Type.STRING, description: 'Timestamp from the transcript where the topic starts, or an empty string.' },
+          title: { type: Type.STRING },
+          summary: { type: Type.STRING, description: 'One sentence on what was said.' },
+        },
+        required: ['start', 'title', 'summary'],
+        propertyOrdering: ['start', 'title', 'summary'],
+      },
+    },
+  },
+  required: ['summary', 'decisions', 'actionItems', 'openQuestions', 'topics'],
+  propertyOrdering: ['summary', 'decisions', 'actionItems', 'openQuestions', 'topics'],
+};
+
+export async function summarizeTranscript(transcript: string, model: string): Promise<MeetingReport> {
+  if (!transcript.trim()) throw new GeminiError('invalidArgument', 'There is no transcript to summarize yet.');
+  const ai = getAI();
+  const today = new Date().toISOString().slice(0, 10);
+  const response = await callGemini(() => withModelFallback(model, m => ai.models.generateContent({
+    model: m,
+    contents: `Write a meeting report for the transcript below. Today is ${today}; resolve relative due dates like "next Friday" against it.
+Only include decisions, action items and questions that are actually in the transcript. Use the speakers' names as they appear.
+Order topics chronologically and take their start times from the transcript's timestamps.
+
+Transcript:
+${transcript}`,
+    config: {
+      responseMimeType: 'application/json',
+      responseSchema: REPORT_SCHEMA,
+    },
+  })), { model: model });
+
+  try {
+    return { ...EMPTY_REPORT, ...JSON.parse(response.text ?? '{}') };
+  } catch (err) {
+    throw new GeminiError('server', 'The model returned a malformed report.', { cause: err });
+  }
+}
+
+const bulletList = (items: string[]) => items.length > 0 ? items.map(i => `- ${i}`).join('\n') : '_None_';
+
+// Pipes would break the Markdown table cells
+const cell = (text: string) => text.replace(/\|/g, '\\|').replace(/\n/g, ' ') || '—';
+
+export function reportToMarkdown(report: MeetingReport, title = 'Meeting Report'): string {
+  const actionTable = report.actionItems.length > 0
+    ? ['| Task | Owner | Due |', '| --- | --- | --- |', ...report.actionItems.map(a => `| ${cell(a.task)} | ${cell(a.owner)} | ${cell(a.dueDate)} |`)].join('\n')
+    : '_None_';
+  const topicList = report.topics.length > 0
+    ? report.topics.map(t => `- ${t.start ? `\`${t.start}\` ` : ''}**${t.title}** — ${t.summary}`).join('\n')
+    : '_None_';
+
+  return [
+    `# ${title}`,
+    '## Summary', report.summary || '_None_',
+    '## Decisions', bulletList(report.decisions),
+    '## Action Items', actionTable,
+    '## Open Questions', bulletList(report.openQuestions),
+    '## Topics', topicList,
+  ].join('\n\n') + '\n';
+}
+
+export function reportToJSON(report: MeetingReport): string {
+  return JSON.stringify(report, null, 2);
+}
@@ -0,0 +1,42 @@
+import { openDB, promisifyRequest } from './db';
+
+// Small persistent scratchpad the model reads and writes through the notes tools
+export interface Note {
+  title: string;
+  content: string;
+  updatedAt: number;
+}
+
+const DB_NAME = 'GeminiLabNotes';
+const STORE_NAME = 'notes';
+
+const initDB = () => openDB(DB_NAME, 1, (db) => {
+  if (!db.objectStoreNames.contains(STORE_NAME)) {
+    db.createObjectStore(STORE_NAME, { keyPath: 'title' });
+  }
+});
+
+export async function listNotes(): Promise<Note[]> {
+  const db = await initDB();
+  const store = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME);
+  const notes = await promisifyRequest(store.getAll()) as Note[];
+  return notes.sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export async function getNote(title: string): Promise<Note | undefined> {
+  const db = await initDB();
+  const store = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME);
+  return await promisifyRequest(store.get(title)) as Note | undefined;
+}
+
+export async function saveNote(note: Note): Promise<void> {
+  const db = await initDB();
+  const store = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME);
+  await promisifyRequest(store.put(note));
+}
+
+export async function deleteNote(title: string): Promise<void> {
+  const db = await initDB();
+  const store = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME);
+  await promisifyRequest(store.delete(title));
+}
@@ -0,0 +1,168 @@
+import { Type } from '@google/genai';
+import { getAI, withModelFallback } from './gemini';
+import { callGemini, GeminiError } from './errors';
+import { mediaPart } from './fileUpload';
+
+// Object detection and segmentation through structured output. Gemini reports boxes as
+// [ymin, xmin, ymax, xmax] scaled to 0–1000 and masks as PNG probability maps covering the box.
+
+export interface BoundingBox {
+  // Fractions of the image size, 0–1
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface Detection {
+  label: string;
+  box: BoundingBox;
+  // data:image/png URL of the mask inside the box, when segmentation was requested
+  mask?: string;
+}
+
+export interface DetectionOptions {
+  model: string;
+  masks: boolean;
+  // What to look for; empty detects every prominent object
+  prompt: string;
+}
+
+const buildSchema = (masks: boolean) => ({
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      label: { type: Type.STRING, description: 'Object category in a word or two, e.g. "coffee cup".' },
+      box_2d: { type: Type.ARRAY, items: { type: Type.INTEGER }, description: '[ymin, xmin, ymax, xmax] normalized to 0-1000.' },
+      ...(masks ? { mask: { type: Type.STRING, description: 'Base64 PNG segmentation mask of the box region, as a data:image/png URL.' } } : {}),
+    },
+    required: ['label', 'box_2d', ...(masks ? ['mask'] : [])],
+    propertyOrdering: ['label', 'box_2d', ...(masks ? ['mask'] : [])],
+  },
+});
+
+const clamp01 = (n: number) => Math.min(1, Math.max(0, n));
+
+// Drops boxes that are malformed or empty rather than failing the whole result
+export function parseDetections(raw: unknown): Detection[] {
+  if (!Array.isArray(raw)) return [];
+  return raw.flatMap((item: any) => {
+    const coords = item?.box_2d;
+    if (!Array.isArray(coords) || coords.length !== 4 || !coords.every((n: unknown) => typeof n === 'number')) return [];
+    const [ymin, xmin, ymax, xmax] = coords.map((n: number) => clamp01(n / 1000));
+    if (xmax <= xmin || ymax <= ymin) return [];
+    const mask = typeof item.mask === 'string' && item.mask ? item.mask : undefined;
+    return [{
+      label: String(item.label ?? 'object'),
+      box: { x: xmin, y: ymin, width: xmax - xmin, height: ymax - ymin },
+      ...(mask ? { mask: mask.startsWith('data:') ? mask : `data:image/png;base64,${mask}` } : {}),
+    }];
+  });
+}
+
+export async function detectObjects(file: Blob, options: DetectionOptions): Promise<Detection[]> {
+  if (!file.type.startsWith('image/')) throw new GeminiError('invalidArgument', 'Object detection works on images only.');
+  const ai = getAI();
+  const image = await mediaPart(file);
+  const target = options.prompt.trim() || 'every prominent object';
+  const instruction = options.masks
+    ? `Give the segmentation masks for ${target}. Output the 2D bounding box in "box_2d", the segmentation mask in "mask" and a text label in "label".`
+    : `Detect ${target}. Output the 2D bounding box in "box_2d" and a text label in "label".`;
+
+  const response = await callGemini(() => withModelFallback(options.model, model => ai.models.generateContent({
+    model,
+    contents: {
+      parts: [
+        image,
+        { text: `${instruction} Limit the result to 25 objects.` }
+      ]
+    },
+    config: {
+      responseMimeType: 'application/json',
+      responseSchema: buildSchema(options.masks),
+    },
+  })), { model: options.model });
+
+  try {
+    return parseDetections(JSON.parse(response.text ?? '[]'));
+  } catch (err) {
+    throw new GeminiError('server', 'The model returned malformed detections.', { cause: err });
+  }
+}
+
+const loadImage = (src: string) => new Promise<HTMLImageElement>((resolve, reject) => {
+  const img = new Image();
+  img.onload = () => resolve(img);
+  img.onerror = () => reject(new Error('Could not decode mask image'));
+  img.src = src;
+});
+
+// Scales a detection's mask to full image size and thresholds it at 50% probability.
+// Returns row-major 0/1 pixels, width × height.
+export async function rasterizeMask(detection: Detection, width: number, height: number): Promise<Uint8Array | null> {
+  if (!detection.mask) return null;
+  const img = await loadImage(detection.mask);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+  const { x, y, width: w, height: h } = detection.box;
+  ctx.drawImage(img, x * width, y * height, w * width, h * height);
+  const { data } = ctx.getImageData(0, 0, width, height);
+  const bits = new Uint8Array(width * height);
+  // Masks are greyscale, possibly with alpha; both must be high for a pixel to count
+  for (let i = 0; i < bits.length; i++) bits[i] = data[i * 4] > 127 && data[i * 4 + 3] > 127 ? 1 : 0;
+  return bits;
+}
+
+// Uncompressed COCO RLE: run lengths in column-major order, starting with a run of zeros
+export function maskToRLE(bits: Uint8Array, width: number, height: number): { size: [number, number]; counts: number[] } {
+  const counts: number[] = [];
+  let current = 0;
+  let run = 0;
+  for (let col = 0; col < width; col++) {
+    for (let row = 0; row < height; row++) {
+      const value = bits[row * width + col];
+      if (value !== current) {
+        counts.push(run);
+        current = value;
+        run = 0;
+      }
+      run++;
+    }
+  }
+  counts.push(run);
+  return { size: [height, width], counts };
+}
+
+export interface CocoImage {
+  fileName: string;
+  width: number;
+  height: number;
+}
+
+// COCO detection format for a single image; boxes are [x, y, width, height] in pixels
+export function toCOCO(detections: Detection[], image: CocoImage, masks: (Uint8Array | null)[] = []): string {
+  const labels = [...new Set(detections.map(d => d.label))];
+  const round = (n: number) => Math.round(n * 100) / 100;
+  return JSON.stringify({
+    info: { description: 'Gemini object detection', date_created: new Date().toISOString() },
+    images: [{ id: 1, file_name: image.fileName, width: image.width, height: image.height }],
+    categories: labels.map((name, i) => ({ id: i + 1, name })),
+    annotations: detections.map((d, i) => {
+      const bbox = [d.box.x * image.width, d.box.y * image.height, d.box.width * image.width, d.box.height * image.height].map(round);
+      const mask = masks[i];
+      return {
+        id: i + 1,
+        image_id: 1,
+        category_id: labels.indexOf(d.label) + 1,
+        bbox,
+        area: mask ? mask.reduce((sum, v) => sum + v, 0) : round(bbox[2] * bbox[3]),
+        iscrowd: 0,
+        ...(mask ? { segmentation: maskToRLE(mask, image.width, image.height) } : {}),
+      };
+    }),
+  }, null, 2);
+}
@@ -0,0 +1,108 @@
+import { LinearResampler, floatTo16BitPCM, concatPCM, encodeWav } from './audioCapture';
+
+// Collects both sides of a Live session on one timeline, measured in seconds from the session start.
+// The mic arrives as a continuous stream; model audio arrives in chunks placed where they were scheduled to play.
+
+export const RECORDING_SAMPLE_RATE = 24000;
+
+interface ModelSegment {
+  startSec: number;
+  pcm: Int16Array;
+}
+
+export type RecordingLayout = 'mixed' | 'twoTrack';
+
+export class SessionRecorder {
+  private micChunks: Int16Array[] = [];
+  private micRate = 16000;
+  private micStartSec: number | null = null;
+  private modelSegments: ModelSegment[] = [];
+
+  // atSec is when the chunk arrived, i.e. when its last sample was captured
+  addMicChunk(pcm: Int16Array, sampleRate: number, atSec: number): void {
+    if (this.micStartSec === null) {
+      this.micRate = sampleRate;
+      this.micStartSec = Math.max(0, atSec - pcm.length / sampleRate);
+    }
+    this.micChunks.push(pcm);
+  }
+
+  addModelAudio(pcm: Int16Array, startSec: number): void {
+    this.modelSegments.push({ startSec, pcm });
+  }
+
+  // Audio that was queued but never played because of an interruption or the session ending
+  cutModelAudio(atSec: number): void {
+    this.modelSegments = this.modelSegments
+      .filter(s => s.startSec < atSec)
+      .map(s => {
+        const maxSamples = Math.floor((atSec - s.startSec) * RECORDING_SAMPLE_RATE);
+        return maxSamples < s.pcm.length ? { ...s, pcm: s.pcm.subarray(0, maxSamples) } : s;
+      });
+  }
+
+  get isEmpty(): boolean {
+    return this.micChunks.length === 0 && this.modelSegments.length === 0;
+  }
+
+  // Both tracks at RECORDING_SAMPLE_RATE, padded to the same length
+  render(): { mic: Int16Array; model: Int16Array } {
+    const micPcm = concatPCM(this.micChunks);
+    const micFloat = Float32Array.from(micPcm, v => v / 0x8000);
+    const mic24k = floatTo16BitPCM(new LinearResampler(this.micRate, RECORDING_SAMPLE_RATE).process(micFloat));
+    const micOffset = Math.round((this.micStartSec ?? 0) * RECORDING_SAMPLE_RATE);
+
+    const segments = this.modelSegments.map(s => ({ offset: Math.round(s.startSec * RECORDING_SAMPLE_RATE), pcm: s.pcm }));
+    const length = Math.max(
+      micOffset + mic24k.length,
+      ...segments.map(s => s.offset + s.pcm.length),
+    );
+
+    const mic = new Int16Array(length);
+    mic.set(mic24k, micOffset);
+    const model = new Int16Array(length);
+    for (const s of segments) model.set(s.pcm.subarray(0, Math.max(0, length - s.offset)), Math.max(0, s.offset));
+    return { mic, model };
+  }
+
+  toTwoTrackWav(): Blob {
+    const { mic, model } = this.render();
+    return encodeWav(interleaveTracks(mic, model), RECORDING_SAMPLE_RATE, 2);
+  }
+}
+
+export function mixTracks(a: Int16Array, b: Int16Array): Int16Array {
+  const output = new Int16Array(Math.max(a.length, b.length));
+  for (let i = 0; i < output.length; i++) {
+    output[i] = Math.max(-0x8000, Math.min(0x7fff, (a[i] ?? 0) + (b[i] ?? 0)));
+  }
+  return output;
+}
+
+// Left channel is the user, right channel is the model
+export function interleaveTracks(left: Int16Array, right: Int16Array): Int16Array {
+  const output = new Int16Array(Math.max(left.length, right.length) * 2);
+  for (let i = 0; i < output.length / 2; i++) {
+    output[i * 2] = left[i] ?? 0;
+    output[i * 2 + 1] = right[i] ?? 0;
+  }
+  return output;
+}
+
+// Recordings are stored as the two-track WAV written by encodeWav, whose header is always 44 bytes
+export async function readTwoTrackWav(blob: Blob): Promise<{ mic: Int16Array; model: Int16Array }> {
+  const interleaved = new Int16Array(await blob.slice(44).arrayBuffer());
+  const mic = new Int16Array(interleaved.length / 2);
+  const model = new Int16Array(interleaved.length / 2);
+  for (let i = 0; i < mic.length; i++) {
+    mic[i] = interleaved[i * 2];
+    model[i] = interleaved[i * 2 + 1];
+  }
+  return { mic, model };
+}
+
+export async function toLayout(twoTrack: Blob, layout: RecordingLayout): Promise<Blob> {
+  if (layout === 'twoTrack') return twoTrack;
+  const { mic, model } = await readTwoTrackWav(twoTrack);
+  return encodeWav(mixTracks(mic, model), RECORDING_SAMPLE_RATE);
+}
@@ -0,0 +1,42 @@
+import { openDB, promisifyRequest } from './db';
+import { LiveTranscriptEntry } from './liveTranscript';
+
+// A recorded Live API conversation: the two-track WAV from SessionRecorder plus its transcript
+export interface LiveSessionRecord {
+  id: string;
+  title: string;
+  model: string;
+  voice: string;
+  startedAt: number;
+  durationMs: number;
+  audio: Blob;
+  transcript: LiveTranscriptEntry[];
+}
+
+const DB_NAME = 'GeminiLabSessions';
+const STORE_NAME = 'sessions';
+
+const initDB = () => openDB(DB_NAME, 1, (db) => {
+  if (!db.objectStoreNames.contains(STORE_NAME)) {
+    db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+  }
+});
+
+export async function listSessions(): Promise<LiveSessionRecord[]> {
+  const db = await initDB();
+  const store = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME);
+  const sessions = await promisifyRequest(store.getAll()) as LiveSessionRecord[];
+  return sessions.sort((a, b) => b.startedAt - a.startedAt);
+}
+
+export async function saveSession(session: LiveSessionRecord): Promise<void> {
+  const db = await initDB();
+  const store = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME);
+  await promisifyRequest(store.put(session));
+}
+
+export async function deleteSession(id: string): Promise<void> {
+  const db = await initDB();
+  const store = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME);
+  await promisifyRequest(store.delete(id));
+}
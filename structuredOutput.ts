@@ -0,0 +1,303 @@
+import { Schema, Type } from '@google/genai';
+
+// JSON Schema helpers for AnalysisLab's structured output mode: presets, conversion to the
+// Gemini `responseSchema` dialect, client-side validation and flattening to CSV
+
+export interface JsonSchema {
+  type?: string | string[];
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: JsonSchema;
+  enum?: (string | number)[];
+  format?: string;
+  minimum?: number;
+  maximum?: number;
+  minItems?: number;
+  maxItems?: number;
+  minLength?: number;
+  maxLength?: number;
+}
+
+export interface SchemaPreset {
+  id: string;
+  label: string;
+  prompt: string;
+  schema: JsonSchema;
+}
+
+export const SCHEMA_PRESETS: SchemaPreset[] = [
+  {
+    id: 'receipt',
+    label: 'Receipt',
+    prompt: 'Extract the receipt. Use numbers without currency symbols for all amounts.',
+    schema: {
+      type: 'object',
+      properties: {
+        merchant: { type: 'string' },
+        date: { type: 'string', description: 'Purchase date in ISO 8601 format' },
+        currency: { type: 'string', description: 'ISO 4217 code, e.g. EUR' },
+        items: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              description: { type: 'string' },
+              quantity: { type: 'number' },
+              unitPrice: { type: 'number' },
+              total: { type: 'number' },
+            },
+            required: ['description', 'total'],
+          },
+        },
+        subtotal: { type: 'number' },
+        tax: { type: 'number' },
+        total: { type: 'number' },
+      },
+      required: ['merchant', 'items', 'total'],
+    },
+  },
+  {
+    id: 'businessCard',
+    label: 'Business Card',
+    prompt: 'Extract the contact details from this business card.',
+    schema: {
+      type: 'object',
+      properties: {
+        name: { type: 'string' },
+        jobTitle: { type: 'string' },
+        company: { type: 'string' },
+        emails: { type: 'array', items: { type: 'string' } },
+        phones: { type: 'array', items: { type: 'string' } },
+        website: { type: 'string' },
+        address: { type: 'string' },
+      },
+      required: ['name'],
+    },
+  },
+  {
+    id: 'table',
+    label: 'Table',
+    prompt: 'Extract the table. Keep the column order and copy cell text exactly; use an empty string for empty cells.',
+    schema: {
+      type: 'object',
+      properties: {
+        title: { type: 'string' },
+        columns: { type: 'array', items: { type: 'string' } },
+        rows: { type: 'array', items: { type: 'array', items: { type: 'string' } } },
+      },
+      required: ['columns', 'rows'],
+    },
+  },
+  {
+    id: 'objectList',
+    label: 'Object List',
+    prompt: 'List every distinct object that is visible.',
+    schema: {
+      type: 'object',
+      properties: {
+        objects: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              label: { type: 'string' },
+              count: { type: 'integer', minimum: 1 },
+              color: { type: 'string' },
+              description: { type: 'string' },
+            },
+            required: ['label', 'count'],
+          },
+        },
+      },
+      required: ['objects'],
+    },
+  },
+];
+
+export const formatSchema = (schema: JsonSchema) => JSON.stringify(schema, null, 2);
+
+// Throws with a readable message so the editor can show it under the textarea
+export function parseSchema(text: string): JsonSchema {
+  let schema: unknown;
+  try {
+    schema = JSON.parse(text);
+  } catch (err) {
+    throw new Error(`Schema is not valid JSON: ${(err as Error).message}`);
+  }
+  if (!schema || typeof schema !== 'object' || Array.isArray(schema)) throw new Error('Schema must be a JSON object.');
+  return schema as JsonSchema;
+}
+
+const GEMINI_TYPES: Record<string, Type> = {
+  string: Type.STRING,
+  number: Type.NUMBER,
+  integer: Type.INTEGER,
+  boolean: Type.BOOLEAN,
+  array: Type.ARRAY,
+  object: Type.OBJECT,
+};
+
+// Gemini's `responseSchema` is an OpenAPI subset: one type per node, "null" becomes `nullable`,
+// and property order is explicit rather than taken from the object
+export function toGeminiSchema(schema: JsonSchema): Schema {
+  const types = ([] as string[]).concat(schema.type ?? []);
+  const type = types.find(t => t !== 'null');
+  if (type && !GEMINI_TYPES[type]) throw new Error(`Unsupported schema type "${type}".`);
+
+  const result: Schema = {};
+  if (type) result.type = GEMINI_TYPES[type];
+  if (types.includes('null')) result.nullable = true;
+  if (schema.description) result.description = schema.description;
+  // Gemini only constrains string enums; numeric ones are still checked by validateAgainstSchema
+  if (schema.enum && result.type === Type.STRING) result.enum = schema.enum.map(String);
+  if (schema.format) result.format = schema.format;
+  if (schema.minimum !== undefined) result.minimum = schema.minimum;
+  if (schema.maximum !== undefined) result.maximum = schema.maximum;
+  if (schema.minItems !== undefined) result.minItems = String(schema.minItems);
+  if (schema.maxItems !== undefined) result.maxItems = String(schema.maxItems);
+  if (schema.minLength !== undefined) result.minLength = String(schema.minLength);
+  if (schema.maxLength !== undefined) result.maxLength = String(schema.maxLength);
+  if (schema.items) result.items = toGeminiSchema(schema.items);
+  if (schema.properties) {
+    result.properties = Object.fromEntries(Object.entries(schema.properties).map(([k, v]) => [k, toGeminiSchema(v)]));
+    result.propertyOrdering = Object.keys(schema.properties);
+  }
+  if (schema.required) result.required = schema.required;
+  return result;
+}
+
+export interface SchemaIssue {
+  // JSONPath-style location, e.g. "$.items[2].total"
+  path: string;
+  message: string;
+}
+
+const typeOf = (value: unknown): string => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  return typeof value;
+};
+
+const matchesType = (value: unknown, type: string) => {
+  const actual = typeOf(value);
+  return actual === type || (type === 'number' && actual === 'integer');
+};
+
+export const childPath = (path: string, key: string) => /^[A-Za-z_$][\w$]*$/.test(key) ? `${path}.${key}` : `${path}[${JSON.stringify(key)}]`;
+
+export function validateAgainstSchema(value: unknown, schema: JsonSchema, path = '$'): SchemaIssue[] {
+  const issues: SchemaIssue[] = [];
+  const types = ([] as string[]).concat(schema.type ?? []);
+  if (types.length > 0 && !types.some(t => matchesType(value, t))) {
+    return [{ path, message: `Expected ${types.join(' or ')}, got ${typeOf(value)}` }];
+  }
+
+  if (schema.enum && !schema.enum.includes(value as string | number)) {
+    issues.push({ path, message: `Must be one of ${schema.enum.map(e => JSON.stringify(e)).join(', ')}` });
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) issues.push({ path, message: `Must be ≥ ${schema.minimum}` });
+    if (schema.maximum !== undefined && value > schema.maximum) issues.push({ path, message: `Must be ≤ ${schema.maximum}` });
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) issues.push({ path, message: `Must be at least ${schema.minLength} characters` });
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) issues.push({ path, message: `Must be at most ${schema.maxLength} characters` });
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) issues.push({ path, message: `Must have at least ${schema.minItems} items` });
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) issues.push({ path, message: `Must have at most ${schema.maxItems} items` });
+    if (schema.items) value.forEach((item, i) => issues.push(...validateAgainstSchema(item, schema.items!, `${path}[${i}]`)));
+  }
+
+  if (typeOf(value) === 'object') {
+    const obj = value as Record<string, unknown>;
+    for (const key of schema.required ?? []) {
+      if (!(key in obj)) issues.push({ path: childPath(path, key), message: 'Required property is missing' });
+    }
+    for (const [key, child] of Object.entries(obj)) {
+      const childSchema = schema.properties?.[key];
+      if (childSchema) issues.push(...validateAgainstSchema(child, childSchema, childPath(path, key)));
+      else if (schema.additionalProperties === false) issues.push({ path: childPath(path, key), message: 'Property is not allowed by the schema' });
+    }
+  }
+
+  return issues;
+}
+
+export interface Tabular {
+  columns: string[];
+  rows: string[][];
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> => typeOf(value) === 'object';
+
+const cellText = (value: unknown): string => {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'object') {
+    if (Array.isArray(value) && value.every(v => !v || typeof v !== 'object')) return value.join('; ');
+    return JSON.stringify(value);
+  }
+  return String(value);
+};
+
+// Nested objects become dotted columns, e.g. "address.city"
+const flattenRecord = (record: Record<string, unknown>, prefix = ''): Record<string, unknown> =>
+  Object.entries(record).reduce<Record<string, unknown>>((acc, [key, value]) => {
+    const name = prefix ? `${prefix}.${key}` : key;
+    if (isPlainObject(value)) Object.assign(acc, flattenRecord(value, name));
+    else acc[name] = value;
+    return acc;
+  }, {});
+
+const recordsToTable = (records: Record<string, unknown>[]): Tabular => {
+  const flat = records.map(r => flattenRecord(r));
+  const columns = [...new Set(flat.flatMap(Object.keys))];
+  return { columns, rows: flat.map(r => columns.map(c => cellText(r[c]))) };
+};
+
+// Picks the most table-like part of a result: a root array, the first array of objects/rows
+// inside the root object (with the remaining scalar fields repeated on each row), or the
+// object itself as a single row
+export function toTable(value: unknown): Tabular {
+  if (Array.isArray(value)) {
+    if (value.every(Array.isArray)) {
+      const width = Math.max(0, ...value.map(r => (r as unknown[]).length));
+      return { columns: Array.from({ length: width }, (_, i) => `Column ${i + 1}`), rows: value.map(r => (r as unknown[]).map(cellText)) };
+    }
+    return recordsToTable(value.map(v => isPlainObject(v) ? v : { value: v }));
+  }
+  if (!isPlainObject(value)) return { columns: ['value'], rows: [[cellText(value)]] };
+
+  const entries = Object.entries(value);
+  const listEntry = entries.find(([, v]) => Array.isArray(v) && v.length > 0 && v.every(r => isPlainObject(r) || Array.isArray(r)));
+  if (!listEntry) return recordsToTable([value]);
+
+  const [listKey, list] = listEntry as [string, unknown[]];
+  if (list.every(Array.isArray)) {
+    // Row arrays take their header from a sibling string array such as "columns" or "headers"
+    const header = entries.find(([k, v]) => k !== listKey && Array.isArray(v) && v.every(h => typeof h === 'string'))?.[1] as string[] | undefined;
+    const table = toTable(list);
+    if (header) table.columns = table.columns.map((c, i) => header[i] ?? c);
+    return table;
+  }
+
+  const shared = Object.fromEntries(entries.filter(([k, v]) => k !== listKey && !Array.isArray(v) && !isPlainObject(v)));
+  const table = recordsToTable(list as Record<string, unknown>[]);
+  const sharedColumns = Object.keys(shared).filter(k => !table.columns.includes(k));
+  return {
+    columns: [...sharedColumns, ...table.columns],
+    rows: table.rows.map(r => [...sharedColumns.map(k => cellText(shared[k])), ...r]),
+  };
+}
+
+const csvField = (text: string) => /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+
+export function tableToCSV(table: Tabular): string {
+  return [table.columns, ...table.rows].map(r => r.map(csvField).join(',')).join('\r\n') + '\r\n';
+}
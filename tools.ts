@@ -0,0 +1,303 @@
+import { FunctionCall, FunctionDeclaration, FunctionResponse, Type } from '@google/genai';
+import { listNotes, getNote, saveNote, deleteNote } from './notes';
+import { ToolInvocation } from '../types';
+
+// A function the model can call, paired with the local code that answers it
+export interface LocalTool<A = Record<string, any>> {
+  declaration: FunctionDeclaration;
+  handler: (args: A) => unknown | Promise<unknown>;
+}
+
+const registry = new Map<string, LocalTool>();
+
+export function registerTool<A>(tool: LocalTool<A>): void {
+  registry.set(tool.declaration.name!, tool as LocalTool);
+}
+
+export function listTools(): LocalTool[] {
+  return [...registry.values()];
+}
+
+// The `tools` entry for a request config; empty when nothing is registered
+export function toolDeclarations(): { functionDeclarations: FunctionDeclaration[] }[] {
+  const functionDeclarations = listTools().map(t => t.declaration);
+  return functionDeclarations.length > 0 ? [{ functionDeclarations }] : [];
+}
+
+// Handler failures are reported back to the model as an error result instead of being thrown,
+// so it can correct its arguments or explain the problem to the user
+export async function runToolCall(call: FunctionCall): Promise<ToolInvocation> {
+  const name = call.name ?? '';
+  const args = call.args ?? {};
+  const startedAt = Date.now();
+  const tool = registry.get(name);
+  try {
+    if (!tool) throw new Error(`Unknown tool: ${name}`);
+    const result = await tool.handler(args);
+    return { id: call.id, name, args, result, durationMs: Date.now() - startedAt };
+  } catch (err) {
+    return { id: call.id, name, args, error: err instanceof Error ? err.message : String(err), durationMs: Date.now() - startedAt };
+  }
+}
+
+export function toFunctionResponse(invocation: ToolInvocation): FunctionResponse {
+  return {
+    id: invocation.id,
+    name: invocation.name,
+    response: invocation.error !== undefined ? { error: invocation.error } : { output: invocation.result },
+  };
+}
+
+// --- Calculator ---
+
+const MATH_FUNCTIONS: Record<string, (x: number) => number> = {
+  sqrt: Math.sqrt, cbrt: Math.cbrt, abs: Math.abs, round: Math.round, floor: Math.floor, ceil: Math.ceil,
+  sin: Math.sin, cos: Math.cos, tan: Math.tan, asin: Math.asin, acos: Math.acos, atan: Math.atan,
+  ln: Math.log, log: Math.log10, log2: Math.log2, exp: Math.exp,
+};
+const MATH_CONSTANTS: Record<string, number> = { pi: Math.PI, e: Math.E, tau: 2 * Math.PI };
+
+// Recursive-descent evaluator for + - * / % ^, parentheses and the functions above.
+// Expressions come from the model, so they are never passed to eval.
+export function evaluateExpression(expression: string): number {
+  const tokens = expression.match(/\d+(?:\.\d+)?(?:e[+-]?\d+)?|\.\d+|[a-z_][a-z0-9_]*|\*\*|[-+*/%^(),]|\S/gi) ?? [];
+  let pos = 0;
+  const peek = () => tokens[pos];
+  const expect = (token: string) => {
+    if (tokens[pos] !== token) throw new Error(`Expected "${token}" at token ${pos + 1}`);
+    pos++;
+  };
+
+  const parseSum = (): number => {
+    let value = parseProduct();
+    while (peek() === '+' || peek() === '-') {
+      const op = tokens[pos++];
+      const rhs = parseProduct();
+      value = op === '+' ? value + rhs : value - rhs;
+    }
+    return value;
+  };
+
+  const parseProduct = (): number => {
+    let value = parseUnary();
+    while (peek() === '*' || peek() === '/' || peek() === '%') {
+      const op = tokens[pos++];
+      const rhs = parseUnary();
+      value = op === '*' ? value * rhs : op === '/' ? value / rhs : value % rhs;
+    }
+    return value;
+  };
+
+  const parseUnary = (): number => {
+    if (peek() === '-') { pos++; return -parseUnary(); }
+    if (peek() === '+') { pos++; return parseUnary(); }
+    return parsePower();
+  };
+
+  // Right-associative and binds tighter than unary minus on its left: -2^2 = -4
+  const parsePower = (): number => {
+    const base = parseAtom();
+    if (peek() === '^' || peek() === '**') {
+      pos++;
+      return base ** parseUnary();
+    }
+    return base;
+  };
+
+  const parseAtom = (): number => {
+    const token = tokens[pos++];
+    if (token === undefined) throw new Error('Unexpected end of expression');
+    if (token === '(') {
+      const value = parseSum();
+      expect(')');
+      return value;
+    }
+    if (/^[\d.]/.test(token)) return parseFloat(token);
+    const name = token.toLowerCase();
+    if (Object.hasOwn(MATH_FUNCTIONS, name)) {
+      expect('(');
+      const value = parseSum();
+      expect(')');
+      return MATH_FUNCTIONS[name](value);
+    }
+    if (Object.hasOwn(MATH_CONSTANTS, name)) return MATH_CONSTANTS[name];
+    throw new Error(`Unexpected "${token}"`);
+  };
+
+  const result = parseSum();
+  if (pos < tokens.length) throw new Error(`Unexpected "${tokens[pos]}"`);
+  return result;
+}
+
+registerTool<{ expression: string }>({
+  declaration: {
+    name: 'calculator',
+    description: 'Evaluates an arithmetic expression exactly. Use it for any non-trivial math instead of computing in your head.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        expression: {
+          type: Type.STRING,
+          description: 'Expression using numbers, + - * / % ^, parentheses, pi, e and sqrt, abs, round, floor, ceil, sin, cos, tan, asin, acos, atan, ln, log, log2, exp. Trig uses radians.',
+        },
+      },
+      required: ['expression'],
+    },
+  },
+  handler: ({ expression }) => {
+    const value = evaluateExpression(expression);
+    if (!Number.isFinite(value)) throw new Error(`Result is not a finite number (${value})`);
+    return { expression, value };
+  },
+});
+
+// --- Current time ---
+
+registerTool<{ timeZone?: string }>({
+  declaration: {
+    name: 'get_current_time',
+    description: "Returns the current date and time, in the user's time zone unless another IANA time zone is given.",
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        timeZone: { type: Type.STRING, description: 'IANA time zone such as "Europe/Paris" or "America/New_York".' },
+      },
+    },
+  },
+  handler: ({ timeZone }) => {
+    const now = new Date();
+    const zone = timeZone || Intl.DateTimeFormat().resolvedOptions().timeZone;
+    // Throws a RangeError for unknown zones, which is passed back to the model
+    const formatted = new Intl.DateTimeFormat('en-US', { timeZone: zone, dateStyle: 'full', timeStyle: 'long' }).format(now);
+    const offset = new Intl.DateTimeFormat('en-US', { timeZone: zone, timeZoneName: 'longOffset' })
+      .formatToParts(now)
+      .find(p => p.type === 'timeZoneName')?.value;
+    return { timeZone: zone, local: formatted, utcOffset: offset, iso: now.toISOString(), unixMs: now.getTime() };
+  },
+});
+
+// --- Unit conversion ---
+
+// Factors to the base unit of each dimension (metre, kilogram, litre, m/s, byte, second, square metre)
+const UNIT_FACTORS: Record<string, Record<string, number>> = {
+  length: { mm: 0.001, cm: 0.01, m: 1, km: 1000, in: 0.0254, ft: 0.3048, yd: 0.9144, mi: 1609.344, nmi: 1852 },
+  mass: { mg: 1e-6, g: 0.001, kg: 1, t: 1000, oz: 0.028349523125, lb: 0.45359237, st: 6.35029318 },
+  volume: { ml: 0.001, l: 1, m3: 1000, tsp: 0.00492892159375, tbsp: 0.01478676478125, floz: 0.0295735295625, cup: 0.2365882365, pt: 0.473176473, qt: 0.946352946, gal: 3.785411784 },
+  speed: { 'm/s': 1, 'km/h': 1 / 3.6, mph: 0.44704, kn: 0.514444 },
+  data: { b: 1, kb: 1e3, mb: 1e6, gb: 1e9, tb: 1e12, kib: 1024, mib: 1024 ** 2, gib: 1024 ** 3, tib: 1024 ** 4 },
+  time: { ms: 0.001, s: 1, min: 60, h: 3600, d: 86400, wk: 604800 },
+  area: { m2: 1, km2: 1e6, ha: 1e4, ft2: 0.09290304, acre: 4046.8564224, mi2: 2589988.110336 },
+};
+const TEMPERATURE_UNITS = ['c', 'f', 'k'];
+
+// Listed in the declaration so the model does not have to guess the symbols
+const SUPPORTED_UNITS = [
+  ...Object.entries(UNIT_FACTORS).map(([dimension, units]) => `${dimension} (${Object.keys(units).join(', ')})`),
+  `temperature (${TEMPERATURE_UNITS.join(', ')})`,
+].join('; ');
+
+const toCelsius = (value: number, unit: string) => unit === 'f' ? (value - 32) * 5 / 9 : unit === 'k' ? value - 273.15 : value;
+const fromCelsius = (value: number, unit: string) => unit === 'f' ? value * 9 / 5 + 32 : unit === 'k' ? value + 273.15 : value;
+
+export function convertUnits(value: number, from: string, to: string): number {
+  const f = from.trim().toLowerCase();
+  const t = to.trim().toLowerCase();
+  if (TEMPERATURE_UNITS.includes(f) && TEMPERATURE_UNITS.includes(t)) return fromCelsius(toCelsius(value, f), t);
+
+  const dimension = Object.values(UNIT_FACTORS).find(units => f in units && t in units);
+  if (!dimension) throw new Error(`Cannot convert from "${from}" to "${to}"`);
+  return value * dimension[f] / dimension[t];
+}
+
+registerTool<{ value: number; from: string; to: string }>({
+  declaration: {
+    name: 'convert_units',
+    description: `Converts a value between units of the same dimension. Supported units: ${SUPPORTED_UNITS}.`,
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        value: { type: Type.NUMBER },
+        from: { type: Type.STRING, description: 'Source unit symbol.' },
+        to: { type: Type.STRING, description: 'Target unit symbol.' },
+      },
+      required: ['value', 'from', 'to'],
+    },
+  },
+  handler: ({ value, from, to }) => ({ value, from, to, result: convertUnits(Number(value), from, to) }),
+});
+
+// --- Notes ---
+
+registerTool<{ query?: string }>({
+  declaration: {
+    name: 'list_notes',
+    description: "Lists the titles of the user's saved notes, most recently updated first, optionally filtered by a search term.",
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        query: { type: Type.STRING, description: 'Only return notes whose title or content contains this text.' },
+      },
+    },
+  },
+  handler: async ({ query }) => {
+    const q = query?.toLowerCase();
+    const notes = (await listNotes()).filter(n => !q || n.title.toLowerCase().includes(q) || n.content.toLowerCase().includes(q));
+    return { notes: notes.map(n => ({ title: n.title, updatedAt: new Date(n.updatedAt).toISOString() })) };
+  },
+});
+
+registerTool<{ title: string }>({
+  declaration: {
+    name: 'read_note',
+    description: 'Reads the full content of a saved note.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: { title: { type: Type.STRING } },
+      required: ['title'],
+    },
+  },
+  handler: async ({ title }) => {
+    const note = await getNote(title);
+    if (!note) throw new Error(`No note titled "${title}"`);
+    return { title: note.title, content: note.content, updatedAt: new Date(note.updatedAt).toISOString() };
+  },
+});
+
+registerTool<{ title: string; content: string; append?: boolean }>({
+  declaration: {
+    name: 'write_note',
+    description: 'Creates or overwrites a note, or appends to it when append is true. Only use this when the user asks to remember or save something.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        title: { type: Type.STRING },
+        content: { type: Type.STRING },
+        append: { type: Type.BOOLEAN, description: 'Add to the end of an existing note instead of replacing it.' },
+      },
+      required: ['title', 'content'],
+    },
+  },
+  handler: async ({ title, content, append }) => {
+    const existing = append ? await getNote(title) : undefined;
+    const note = { title, content: existing ? `${existing.content}\n${content}` : content, updatedAt: Date.now() };
+    await saveNote(note);
+    return { saved: title, length: note.content.length };
+  },
+});
+
+registerTool<{ title: string }>({
+  declaration: {
+    name: 'delete_note',
+    description: 'Deletes a saved note. Only use this when the user explicitly asks.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: { title: { type: Type.STRING } },
+      required: ['title'],
+    },
+  },
+  handler: async ({ title }) => {
+    if (!await getNote(title)) throw new Error(`No note titled "${title}"`);
+    await deleteNote(title);
+    return { deleted: title };
+  },
+});
@@ -0,0 +1,395 @@
+import { Part, Type } from '@google/genai';
+import { getAI, encode, withModelFallback } from './gemini';
+import { callGemini, GeminiError } from './errors';
+import { downmixToMono, floatTo16BitPCM, encodeWav } from './audioCapture';
+import { escapeCueText, formatClock, formatCueTime } from './liveTranscript';
+import { mediaPart } from './fileUpload';
+
+// Long recordings are decoded in the browser, split into overlapping WAV chunks small enough
+// to send inline, transcribed in parallel and stitched back together on one timeline.
+// Decoding holds the encoded file and a float copy of every channel in memory at once, so
+// sources past the decode limits are uploaded through the Files API instead, and each chunk
+// clips the upload to its own time range.
+
+export const TRANSCRIPTION_SAMPLE_RATE = 16000;
+
+export const MAX_DECODE_BYTES = 64 * 1024 * 1024;
+export const MAX_DECODE_SEC = 30 * 60;
+// Files API size cap and the longest audio a single request may reference
+export const MAX_UPLOAD_BYTES = 2 * 1024 * 1024 * 1024;
+export const MAX_UPLOAD_SEC = 9.5 * 60 * 60;
+// A request clipped to a range of an upload is billed for that range only. Nothing has to fit in
+// a request payload, so these chunks can be longer than inline ones.
+const UPLOAD_CHUNK_SEC = 10 * 60;
+
+export interface TranscriptSegment {
+  // Seconds from the start of the recording
+  start: number;
+  end: number;
+  text: string;
+  speaker?: string;
+  // ISO 639-1 code of the spoken language
+  language?: string;
+  translation?: string;
+}
+
+export interface TranscriptionOptions {
+  diarize?: boolean;
+  // 0 lets the model decide
+  speakerCount?: number;
+  detectLanguage?: boolean;
+  // Language name to translate each segment into; empty for no translation
+  targetLanguage?: string;
+}
+
+export interface AudioChunk {
+  index: number;
+  start: number;
+  end: number;
+  // Decoded audio of this chunk, or else `source`: the whole file, of which start to end is transcribed
+  samples?: Float32Array;
+  source?: Blob;
+}
+
+export interface ChunkOptions {
+  chunkSec?: number;
+  // Audio shared with the neighbouring chunk, so words cut at a boundary are heard whole at least once
+  overlapSec?: number;
+}
+
+// Decoding through a 16 kHz context resamples in the same step
+export async function decodeAudioFile(file: Blob): Promise<Float32Array> {
+  const context = new OfflineAudioContext(1, 1, TRANSCRIPTION_SAMPLE_RATE);
+  try {
+    const buffer = await context.decodeAudioData(await file.arrayBuffer());
+    const channels = Array.from({ length: buffer.numberOfChannels }, (_, i) => buffer.getChannelData(i));
+    return downmixToMono(channels);
+  } catch (err) {
+    throw new GeminiError('invalidArgument', 'This file has no audio track the browser can decode.', { cause: err });
+  }
+}
+
+// Overlapping time ranges covering `durationSec`
+export function chunkRanges(durationSec: number, { chunkSec = 120, overlapSec = 5 }: ChunkOptions = {}): AudioChunk[] {
+  const chunks: AudioChunk[] = [];
+  for (let start = 0; start < durationSec; start += chunkSec - overlapSec) {
+    const end = Math.min(durationSec, start + chunkSec);
+    chunks.push({ index: chunks.length, start, end });
+    if (end === durationSec) break;
+  }
+  return chunks;
+}
+
+export function splitAudio(samples: Float32Array, options: ChunkOptions = {}): AudioChunk[] {
+  const rate = TRANSCRIPTION_SAMPLE_RATE;
+  return chunkRanges(samples.length / rate, options).map(c => ({
+    ...c,
+    samples: samples.subarray(Math.round(c.start * rate), Math.round(c.end * rate)),
+  }));
+}
+
+// Reads the length from the container's metadata, without decoding; NaN if the browser can't tell
+export function mediaDuration(file: Blob): Promise<number> {
+  return new Promise(resolve => {
+    const media = document.createElement(file.type.startsWith('video') ? 'video' : 'audio');
+    const url = URL.createObjectURL(file);
+    const done = (duration: number) => {
+      URL.revokeObjectURL(url);
+      media.removeAttribute('src');
+      resolve(duration);
+    };
+    media.preload = 'metadata';
+    media.onloadedmetadata = () => done(Number.isFinite(media.duration) ? media.duration : NaN);
+    media.onerror = () => done(NaN);
+    media.src = url;
+  });
+}
+
+// Decodes sources within the limits and splits them into inline chunks; anything larger
+// becomes time ranges of one upload. Sources past the upload limits are rejected.
+export async function prepareChunks(file: Blob, options: ChunkOptions = {}): Promise<AudioChunk[]> {
+  const duration = await mediaDuration(file);
+  if (file.size <= MAX_DECODE_BYTES && !(duration > MAX_DECODE_SEC)) {
+    return splitAudio(await decodeAudioFile(file), options);
+  }
+  if (Number.isNaN(duration)) {
+    throw new GeminiError('invalidArgument', 'This file is too large to decode in the browser, and its length could not be read.');
+  }
+  if (file.size > MAX_UPLOAD_BYTES || duration > MAX_UPLOAD_SEC) {
+    throw new GeminiError('invalidArgument', `Recordings up to 2 GB and ${MAX_UPLOAD_SEC / 3600} hours can be transcribed.`);
+  }
+  return chunkRanges(duration, { ...options, chunkSec: UPLOAD_CHUNK_SEC }).map(c => ({ ...c, source: file }));
+}
+
+// Optional fields are only requested when the matching option is on, which keeps responses small
+function buildSegmentSchema({ diarize, detectLanguage, targetLanguage }: TranscriptionOptions) {
+  const properties: Record<string, { type: Type; description: string }> = {
+    start: { type: Type.NUMBER, description: 'Start time in seconds from the beginning of this audio.' },
+    end: { type: Type.NUMBER, description: 'End time in seconds from the beginning of this audio.' },
+  };
+  if (diarize) properties.speaker = { type: Type.STRING, description: 'Label of the person speaking.' };
+  properties.text = { type: Type.STRING, description: 'Exact words spoken in this segment, in the original language.' };
+  if (detectLanguage) properties.language = { type: Type.STRING, description: 'ISO 639-1 code of the language spoken in this segment.' };
+  if (targetLanguage) properties.translation = { type: Type.STRING, description: `The text translated into ${targetLanguage}.` };
+
+  const fields = Object.keys(properties);
+  return {
+    type: Type.OBJECT,
+    properties: {
+      segments: {
+        type: Type.ARRAY,
+        items: { type: Type.OBJECT, properties, required: fields, propertyOrdering: fields },
+      },
+    },
+    required: ['segments'],
+  };
+}
+
+function buildPrompt({ diarize, speakerCount, detectLanguage, targetLanguage }: TranscriptionOptions): string {
+  const lines = [
+    'Transcribe this audio exactly, word for word, without summarizing or correcting the speaker.',
+    'Split the transcript into segments of one sentence or phrase, at most about 15 seconds each, following natural pauses.',
+    'Give each segment its start and end time in seconds from the beginning of this audio.',
+  ];
+  if (diarize) {
+    lines.push(
+      speakerCount ? `There are ${speakerCount} speakers.` : 'Work out how many different people are speaking.',
+      'Start a new segment whenever the speaker changes. Label speakers "Speaker 1", "Speaker 2" and so on in order of first appearance, or by name when the audio makes their name clear.',
+    );
+  }
+  if (detectLanguage) lines.push('Identify the language of each segment.');
+  if (targetLanguage) lines.push(`Translate each segment into ${targetLanguage}.`);
+  lines.push('Return an empty segments list if nothing is spoken.');
+  return lines.join('\n');
+}
+
+// The model times segments from the start of the audio it hears, which is the chunk either way,
+// so they are shifted onto the recording's timeline here
+export async function transcribeChunk(chunk: AudioChunk, model: string, options: TranscriptionOptions = {}): Promise<TranscriptSegment[]> {
+  let audio: Part;
+  if (chunk.samples) {
+    const wav = encodeWav(floatTo16BitPCM(chunk.samples), TRANSCRIPTION_SAMPLE_RATE);
+    audio = { inlineData: { data: encode(new Uint8Array(await wav.arrayBuffer())), mimeType: 'audio/wav' } };
+  } else if (chunk.source) {
+    // The upload is cached per Blob, so every range shares one; the clip keeps each request
+    // from carrying the whole recording
+    audio = {
+      ...await mediaPart(chunk.source, chunk.source.type, { forceUpload: true }),
+      videoMetadata: { startOffset: `${chunk.start}s`, endOffset: `${chunk.end}s` },
+    };
+  } else {
+    throw new GeminiError('invalidArgument', 'This chunk has no audio.');
+  }
+  const ai = getAI();
+  const response = await callGemini(() => withModelFallback(model, m => ai.models.generateContent({
+    model: m,
+    contents: {
+      parts: [
+        audio,
+        { text: buildPrompt(options) },
+      ],
+    },
+    config: {
+      responseMimeType: 'application/json',
+      responseSchema: buildSegmentSchema(options),
+    },
+  })), { model: model });
+
+  let parsed: { segments?: TranscriptSegment[] };
+  try {
+    parsed = JSON.parse(response.text ?? '{}');
+  } catch (err) {
+    throw new GeminiError('server', 'The model returned a malformed transcript for this chunk.', { cause: err });
+  }
+  const duration = chunk.end - chunk.start;
+  return (parsed.segments ?? [])
+    .filter(s => s.text?.trim())
+    .map(s => {
+      const start = Math.min(Math.max(0, Number(s.start) || 0), duration);
+      const end = Math.min(Math.max(start, Number(s.end) || 0), duration);
+      return { ...s, start: chunk.start + start, end: chunk.start + end, text: s.text.trim(), speaker: s.speaker?.trim() || undefined };
+    });
+}
+
+// Each chunk numbers its speakers from scratch, so "Speaker 1" in one chunk may be "Speaker 2" in the next.
+// The overlap is heard by both chunks: a speaker in the later chunk takes the label of whoever the earlier
+// chunk heard at the same moments. Speakers who are silent during the overlap cannot be matched and
+// keep their own label where it is free; the editor merges any that turn out to be the same person.
+export function alignSpeakers(chunks: AudioChunk[], results: (TranscriptSegment[] | undefined)[]): (TranscriptSegment[] | undefined)[] {
+  const aligned = results.slice();
+  for (let i = 1; i < chunks.length; i++) {
+    const before = aligned[i - 1];
+    const current = aligned[i];
+    if (!before || !current) continue;
+
+    const votes = new Map<string, Map<string, number>>();
+    for (const s of current) {
+      if (!s.speaker || s.start >= chunks[i - 1].end) continue;
+      for (const p of before) {
+        const overlap = Math.min(p.end, s.end) - Math.max(p.start, s.start);
+        if (!p.speaker || overlap <= 0) continue;
+        const tally = votes.get(s.speaker) ?? new Map<string, number>();
+        tally.set(p.speaker, (tally.get(p.speaker) ?? 0) + overlap);
+        votes.set(s.speaker, tally);
+      }
+    }
+
+    const mapping = new Map<string, string>();
+    votes.forEach((tally, label) => {
+      const [best] = [...tally.entries()].sort((a, b) => b[1] - a[1]);
+      mapping.set(label, best[0]);
+    });
+    // An unmatched speaker whose label was just given to someone else needs a fresh one
+    const claimed = new Set(mapping.values());
+    const used = new Set(aligned.slice(0, i).flatMap(r => r ?? []).flatMap(s => s.speaker ? [s.speaker] : []));
+    for (const label of new Set(current.flatMap(s => s.speaker ? [s.speaker] : []))) {
+      if (mapping.has(label) || !claimed.has(label)) continue;
+      let n = 1;
+      while (used.has(`Speaker ${n}`) || claimed.has(`Speaker ${n}`)) n++;
+      mapping.set(label, `Speaker ${n}`);
+      claimed.add(`Speaker ${n}`);
+    }
+    if (mapping.size > 0) {
+      aligned[i] = current.map(s => s.speaker && mapping.has(s.speaker) ? { ...s, speaker: mapping.get(s.speaker) } : s);
+    }
+  }
+  return aligned;
+}
+
+export function renameSpeaker(segments: TranscriptSegment[], from: string, to: string): TranscriptSegment[] {
+  return segments.map(s => s.speaker === from ? { ...s, speaker: to } : s);
+}
+
+export function listSpeakers(segments: TranscriptSegment[]): string[] {
+  return [...new Set(segments.flatMap(s => s.speaker ? [s.speaker] : []))];
+}
+
+// Each overlap is split down the middle: a segment belongs to whichever chunk holds its midpoint
+// on that side. Both chunks may still cut the same phrase differently around the split,
+// so a segment that mostly overlaps the one before it is treated as a repeat and dropped.
+export function stitchSegments(chunks: AudioChunk[], results: (TranscriptSegment[] | undefined)[]): TranscriptSegment[] {
+  const stitched: TranscriptSegment[] = [];
+  chunks.forEach((chunk, i) => {
+    const prev = chunks[i - 1];
+    const next = chunks[i + 1];
+    const from = prev ? (chunk.start + prev.end) / 2 : -Infinity;
+    const to = next ? (next.start + chunk.end) / 2 : Infinity;
+    for (const s of results[i] ?? []) {
+      const mid = (s.start + s.end) / 2;
+      if (mid < from || mid >= to) continue;
+      const last = stitched[stitched.length - 1];
+      const overlap = last ? Math.min(last.end, s.end) - Math.max(last.start, s.start) : 0;
+      if (last && overlap > 0.5 * Math.min(last.end - last.start, s.end - s.start)) continue;
+      stitched.push(s);
+    }
+  });
+  return stitched;
+}
+
+// --- Manual edits ---
+
+// The table's changes, kept apart from the model's output so that re-stitching after a retry
+// doesn't throw them away. Segments are keyed by chunk and position in that chunk's result,
+// which a retry never changes because only failed chunks are retried.
+export interface TranscriptEdits {
+  segments: Record<string, Partial<Pick<TranscriptSegment, 'speaker' | 'text' | 'translation'>>>;
+  // Labels renamed everywhere, so segments of a retried chunk pick up the new name too
+  speakers: Record<string, string>;
+}
+
+export const NO_EDITS: TranscriptEdits = { segments: {}, speakers: {} };
+
+export interface KeyedSegment {
+  key: string;
+  segment: TranscriptSegment;
+}
+
+export function stitchKeyed(chunks: AudioChunk[], results: (TranscriptSegment[] | undefined)[]): KeyedSegment[] {
+  const aligned = alignSpeakers(chunks, results);
+  const keys = new Map<TranscriptSegment, string>();
+  aligned.forEach((result, c) => result?.forEach((segment, i) => keys.set(segment, `${c}:${i}`)));
+  return stitchSegments(chunks, aligned).map(segment => ({ key: keys.get(segment)!, segment }));
+}
+
+export function applyEdits(base: KeyedSegment[], edits: TranscriptEdits): TranscriptSegment[] {
+  return base.map(({ key, segment }) => {
+    const renamed = segment.speaker !== undefined && edits.speakers[segment.speaker] !== undefined
+      ? { ...segment, speaker: edits.speakers[segment.speaker] }
+      : segment;
+    return { ...renamed, ...edits.segments[key] };
+  });
+}
+
+// Works out the edits that turn `base` into `edited`, which lists the same segments in the same order.
+// A label every one of whose segments now carries the same new name counts as renamed.
+export function diffEdits(base: KeyedSegment[], edited: TranscriptSegment[]): TranscriptEdits {
+  const namesByLabel = new Map<string, Set<string | undefined>>();
+  base.forEach(({ segment }, i) => {
+    if (segment.speaker === undefined) return;
+    const names = namesByLabel.get(segment.speaker) ?? new Set();
+    names.add(edited[i]?.speaker);
+    namesByLabel.set(segment.speaker, names);
+  });
+  const speakers: Record<string, string> = {};
+  namesByLabel.forEach((names, label) => {
+    const [name] = [...names];
+    if (names.size === 1 && name !== undefined && name !== label) speakers[label] = name;
+  });
+
+  const segments: TranscriptEdits['segments'] = {};
+  base.forEach(({ key, segment }, i) => {
+    const after = edited[i];
+    if (!after) return;
+    const edit: TranscriptEdits['segments'][string] = {};
+    const speaker = segment.speaker !== undefined ? speakers[segment.speaker] ?? segment.speaker : undefined;
+    if (after.speaker !== speaker) edit.speaker = after.speaker;
+    if (after.text !== segment.text) edit.text = after.text;
+    if (after.translation !== segment.translation) edit.translation = after.translation;
+    if (Object.keys(edit).length > 0) segments[key] = edit;
+  });
+  return { segments, speakers };
+}
+
+// --- Export ---
+
+// Subtitles carry the translation as a second line when there is one
+const subtitleLines = (s: TranscriptSegment) => [s.speaker ? `${s.speaker}: ${s.text}` : s.text, ...(s.translation ? [s.translation] : [])];
+
+export function segmentsToSRT(segments: TranscriptSegment[]): string {
+  return segments
+    .map((s, i) => `${i + 1}\n${formatCueTime(s.start * 1000, ',')} --> ${formatCueTime(s.end * 1000, ',')}\n${subtitleLines(s).join('\n')}`)
+    .join('\n\n') + '\n';
+}
+
+export function segmentsToVTT(segments: TranscriptSegment[]): string {
+  const cues = segments.map((s, i) => {
+    const text = [s.text, ...(s.translation ? [s.translation] : [])].map(escapeCueText).join('\n');
+    return `${i + 1}\n${formatCueTime(s.start * 1000)} --> ${formatCueTime(s.end * 1000)}\n${s.speaker ? `<v ${s.speaker}>` : ''}${text}`;
+  });
+  return `WEBVTT\n\n${cues.join('\n\n')}\n`;
+}
+
+export function segmentsToText(segments: TranscriptSegment[]): string {
+  return segments.map(s => {
+    const line = `[${formatClock(s.start * 1000)}] ${subtitleLines(s)[0]}`;
+    return s.translation ? `${line}\n    ${s.translation}` : line;
+  }).join('\n') + '\n';
+}
+
+export function segmentsToJSON(segments: TranscriptSegment[], source?: string): string {
+  return JSON.stringify({ source, segments }, null, 2);
+}
+
+export interface SegmentFormat {
+  label: string;
+  extension: string;
+  mimeType: string;
+  build: (segments: TranscriptSegment[], source?: string) => string;
+}
+
+export const SEGMENT_FORMATS: SegmentFormat[] = [
+  { label: 'SRT', extension: 'srt', mimeType: 'application/x-subrip', build: segmentsToSRT },
+  { label: 'VTT', extension: 'vtt', mimeType: 'text/vtt', build: segmentsToVTT },
+  { label: 'TXT', extension: 'txt', mimeType: 'text/plain', build: segmentsToText },
+  { label: 'JSON', extension: 'json', mimeType: 'application/json', build: segmentsToJSON },
+];
@@ -7,6 +7,8 @@ export enum LabType {
   IMAGE = 'Creative Studio',
   VIDEO = 'Video Generation',
   ANALYSIS = 'Analysis Lab',
+  ARENA = 'Model Arena',
+  USAGE = 'Usage & Cost',
   TRANSCRIPTION = 'Transcription',
   SETTINGS = 'Settings'
 }
@@ -26,3 +28,39 @@ export interface GroundingChunk {
     }[];
   };
 }
+
+export interface ChatAttachment {
+  name: string;
+  mimeType: string;
+  // Base64 payload without the data: URL prefix, as sent in inlineData parts
+  data: string;
+}
+
+// One function call made by the model and the local result sent back for it
+export interface ToolInvocation {
+  id?: string;
+  name: string;
+  args: Record<string, unknown>;
+  result?: unknown;
+  error?: string;
+  durationMs?: number;
+}
+
+export interface ChatMessage {
+  role: 'user' | 'ai';
+  content: string;
+  attachments?: ChatAttachment[];
+  toolCalls?: ToolInvocation[];
+  // The model was still calling tools after the last allowed round and had to answer without them
+  toolLimitReached?: boolean;
+}
+
+export interface ConversationThread {
+  id: string;
+  title: string;
+  model: string;
+  systemInstruction: string;
+  messages: ChatMessage[];
+  createdAt: number;
+  updatedAt: number;
+}
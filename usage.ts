@@ -0,0 +1,303 @@
+import { GenerateContentResponse } from '@google/genai';
+import { openDB, promisifyRequest } from './db';
+import { Tabular } from './structuredOutput';
+
+// Token usage recorded from every Gemini response. callGemini hands each result to trackUsage,
+// so labs get instrumented without doing anything; Live sessions record their own messages.
+
+export interface UsageEvent {
+  id?: number;
+  timestamp: number;
+  lab: string;
+  model: string;
+  // One per page load, so a working session can be told apart from the rest
+  sessionId: string;
+  promptTokens: number;
+  candidatesTokens: number;
+  thoughtsTokens: number;
+  // Part of promptTokens, billed at the cached rate
+  cachedTokens: number;
+  totalTokens: number;
+  latencyMs?: number;
+}
+
+// The subset of UsageMetadata (and the Live API's variant) that gets recorded
+export interface UsageCounts {
+  promptTokenCount?: number;
+  candidatesTokenCount?: number;
+  responseTokenCount?: number;
+  thoughtsTokenCount?: number;
+  cachedContentTokenCount?: number;
+  totalTokenCount?: number;
+}
+
+const DB_NAME = 'GeminiLabUsage';
+const STORE_NAME = 'events';
+
+const initDB = () => openDB(DB_NAME, 1, (db) => {
+  if (!db.objectStoreNames.contains(STORE_NAME)) {
+    const store = db.createObjectStore(STORE_NAME, { keyPath: 'id', autoIncrement: true });
+    store.createIndex('timestamp', 'timestamp');
+  }
+});
+
+export const SESSION_ID = crypto.randomUUID();
+
+let currentLab = 'Unknown';
+const listeners = new Set<(event: UsageEvent) => void>();
+
+// App keeps this in sync with the active lab so events can be attributed without threading it through every call
+export function setUsageLab(lab: string) {
+  currentLab = lab;
+}
+
+export function subscribeUsage(listener: (event: UsageEvent) => void): () => void {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+}
+
+const normalizeModel = (model: string) => model.replace(/^models\//, '');
+
+export function recordUsage(usage: UsageCounts, model: string, latencyMs?: number): void {
+  const promptTokens = usage.promptTokenCount ?? 0;
+  const candidatesTokens = usage.candidatesTokenCount ?? usage.responseTokenCount ?? 0;
+  const thoughtsTokens = usage.thoughtsTokenCount ?? 0;
+  const event: UsageEvent = {
+    timestamp: Date.now(),
+    lab: currentLab,
+    model: normalizeModel(model) || 'unknown',
+    sessionId: SESSION_ID,
+    promptTokens,
+    candidatesTokens,
+    thoughtsTokens,
+    cachedTokens: usage.cachedContentTokenCount ?? 0,
+    totalTokens: usage.totalTokenCount ?? promptTokens + candidatesTokens + thoughtsTokens,
+    latencyMs,
+  };
+  listeners.forEach(listener => listener(event));
+  // Recording must never break the call it measures
+  initDB()
+    .then(db => promisifyRequest(db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME).add(event)))
+    .catch(err => console.error("Failed to record usage:", err));
+}
+
+async function* trackStream(stream: AsyncGenerator<GenerateContentResponse>, startedAt: number, model: string): AsyncGenerator<GenerateContentResponse> {
+  let usage: UsageCounts | undefined;
+  try {
+    for await (const chunk of stream) {
+      // Usage is cumulative, so the last chunk that carries it has the totals
+      if (chunk?.usageMetadata) usage = chunk.usageMetadata;
+      if (chunk?.modelVersion) model = chunk.modelVersion;
+      yield chunk;
+    }
+  } finally {
+    if (usage) recordUsage(usage, model, performance.now() - startedAt);
+  }
+}
+
+// Only generateContentStream and sendMessageStream return async generators
+const isResponseStream = (value: unknown): value is AsyncGenerator<GenerateContentResponse> =>
+  !!value && typeof (value as AsyncGenerator)[Symbol.asyncIterator] === 'function' && typeof (value as AsyncGenerator).next === 'function';
+
+// Records a response's usage, or wraps a stream so it is recorded once the stream ends.
+// Anything else (uploads, operations, Live sessions) passes through untouched. The response's
+// modelVersion names the model that answered; `model`, the one requested, covers responses without it.
+export function trackUsage<T>(result: T, startedAt: number, model = ''): T {
+  const response = result as GenerateContentResponse | undefined;
+  if (response?.usageMetadata) {
+    recordUsage(response.usageMetadata, response.modelVersion ?? model, performance.now() - startedAt);
+    return result;
+  }
+  if (isResponseStream(result)) {
+    return trackStream(result, startedAt, model) as T;
+  }
+  return result;
+}
+
+export async function listUsage(since = 0): Promise<UsageEvent[]> {
+  const db = await initDB();
+  const index = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).index('timestamp');
+  return await promisifyRequest(index.getAll(IDBKeyRange.lowerBound(since))) as UsageEvent[];
+}
+
+export async function clearUsage(): Promise<void> {
+  const db = await initDB();
+  const store = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME);
+  await promisifyRequest(store.clear());
+}
+
+// USD per million tokens. Thinking tokens are billed as output.
+export interface ModelPrice {
+  input: number;
+  output: number;
+  cachedInput: number;
+}
+
+export type PriceTable = Record<string, ModelPrice>;
+
+// Published list prices for standard-length prompts; the dashboard lets users correct them.
+// Live sessions stream audio and video frames in and audio out, so the Live models are listed
+// at their audio rates.
+export const DEFAULT_PRICES: PriceTable = {
+  'gemini-3-pro-preview': { input: 2, output: 12, cachedInput: 0.2 },
+  'gemini-3-flash-preview': { input: 0.5, output: 3, cachedInput: 0.05 },
+  'gemini-2.5-pro': { input: 1.25, output: 10, cachedInput: 0.125 },
+  'gemini-2.5-flash': { input: 0.3, output: 2.5, cachedInput: 0.03 },
+  'gemini-flash-latest': { input: 0.3, output: 2.5, cachedInput: 0.03 },
+  'gemini-flash-lite-latest': { input: 0.1, output: 0.4, cachedInput: 0.01 },
+  'gemini-2.5-flash-lite': { input: 0.1, output: 0.4, cachedInput: 0.01 },
+  'gemini-3-pro-image-preview': { input: 2, output: 120, cachedInput: 0.2 },
+  'gemini-2.5-flash-image': { input: 0.3, output: 30, cachedInput: 0.03 },
+  'gemini-2.5-flash-native-audio-preview-12-2025': { input: 3, output: 12, cachedInput: 0.3 },
+  'gemini-live-2.5-flash-preview': { input: 3, output: 12, cachedInput: 0.3 },
+  'gemini-2.5-flash-preview-tts': { input: 0.5, output: 10, cachedInput: 0.05 },
+  'gemini-2.5-pro-preview-tts': { input: 1, output: 20, cachedInput: 0.1 },
+};
+
+// Responses report versioned names such as "gemini-2.5-flash-001", so the longest matching prefix wins
+export function priceFor(model: string, prices: PriceTable): ModelPrice | undefined {
+  if (prices[model]) return prices[model];
+  const match = Object.keys(prices)
+    .filter(id => model.startsWith(id))
+    .sort((a, b) => b.length - a.length)[0];
+  return match ? prices[match] : undefined;
+}
+
+export function estimateCost(event: UsageEvent, prices: PriceTable): number | undefined {
+  const price = priceFor(event.model, prices);
+  if (!price) return undefined;
+  const cached = Math.min(event.cachedTokens, event.promptTokens);
+  return ((event.promptTokens - cached) * price.input
+    + cached * price.cachedInput
+    + (event.candidatesTokens + event.thoughtsTokens) * price.output) / 1_000_000;
+}
+
+export interface UsageSummary {
+  key: string;
+  calls: number;
+  promptTokens: number;
+  candidatesTokens: number;
+  thoughtsTokens: number;
+  cachedTokens: number;
+  totalTokens: number;
+  cost: number;
+  // Calls whose model has no price, so `cost` understates the total
+  unpriced: number;
+  avgLatencyMs?: number;
+}
+
+export function summarizeUsage(events: UsageEvent[], prices: PriceTable, keyOf: (event: UsageEvent) => string): UsageSummary[] {
+  const groups = new Map<string, UsageSummary & { latencies: number[] }>();
+  for (const e of events) {
+    const key = keyOf(e);
+    let g = groups.get(key);
+    if (!g) {
+      g = { key, calls: 0, promptTokens: 0, candidatesTokens: 0, thoughtsTokens: 0, cachedTokens: 0, totalTokens: 0, cost: 0, unpriced: 0, latencies: [] };
+      groups.set(key, g);
+    }
+    g.calls++;
+    g.promptTokens += e.promptTokens;
+    g.candidatesTokens += e.candidatesTokens;
+    g.thoughtsTokens += e.thoughtsTokens;
+    g.cachedTokens += e.cachedTokens;
+    g.totalTokens += e.totalTokens;
+    const cost = estimateCost(e, prices);
+    if (cost === undefined) g.unpriced++;
+    else g.cost += cost;
+    if (e.latencyMs !== undefined) g.latencies.push(e.latencyMs);
+  }
+  return [...groups.values()]
+    .map(({ latencies, ...g }) => ({
+      ...g,
+      avgLatencyMs: latencies.length > 0 ? latencies.reduce((a, b) => a + b, 0) / latencies.length : undefined,
+    }))
+    .sort((a, b) => b.cost - a.cost || b.totalTokens - a.totalTokens);
+}
+
+export interface UsageBucket {
+  start: number;
+  tokens: number;
+  cost: number;
+  calls: number;
+}
+
+const startOfBucket = (time: number, unit: 'hour' | 'day') => {
+  const d = new Date(time);
+  if (unit === 'day') d.setHours(0, 0, 0, 0);
+  else d.setMinutes(0, 0, 0);
+  return d.getTime();
+};
+
+const nextBucket = (start: number, unit: 'hour' | 'day') => {
+  const d = new Date(start);
+  if (unit === 'day') d.setDate(d.getDate() + 1);
+  else d.setHours(d.getHours() + 1);
+  return d.getTime();
+};
+
+// Local-time buckets from `from` to `to`, including empty ones so the chart keeps its time axis
+export function bucketUsage(events: UsageEvent[], prices: PriceTable, unit: 'hour' | 'day', from: number, to = Date.now()): UsageBucket[] {
+  const buckets = new Map<number, UsageBucket>();
+  for (let t = startOfBucket(from, unit); t <= to; t = nextBucket(t, unit)) {
+    buckets.set(t, { start: t, tokens: 0, cost: 0, calls: 0 });
+  }
+  for (const e of events) {
+    const b = buckets.get(startOfBucket(e.timestamp, unit));
+    if (!b) continue;
+    b.tokens += e.totalTokens;
+    b.cost += estimateCost(e, prices) ?? 0;
+    b.calls++;
+  }
+  return [...buckets.values()];
+}
+
+export interface UsageBudget {
+  // USD; 0 turns the limit off
+  daily: number;
+  monthly: number;
+}
+
+export interface BudgetStatus {
+  period: 'daily' | 'monthly';
+  spent: number;
+  limit: number;
+  ratio: number;
+}
+
+// Alerts start at this share of a budget
+export const BUDGET_WARNING_RATIO = 0.8;
+
+export function startOfMonth(time = Date.now()): number {
+  const d = new Date(time);
+  d.setDate(1);
+  d.setHours(0, 0, 0, 0);
+  return d.getTime();
+}
+
+export function budgetStatus(events: UsageEvent[], prices: PriceTable, budget: UsageBudget, now = Date.now()): BudgetStatus[] {
+  const spentSince = (since: number) => events
+    .filter(e => e.timestamp >= since)
+    .reduce((sum, e) => sum + (estimateCost(e, prices) ?? 0), 0);
+  const periods: [BudgetStatus['period'], number, number][] = [
+    ['daily', budget.daily, startOfBucket(now, 'day')],
+    ['monthly', budget.monthly, startOfMonth(now)],
+  ];
+  return periods
+    .filter(([, limit]) => limit > 0)
+    .map(([period, limit, since]) => {
+      const spent = spentSince(since);
+      return { period, spent, limit, ratio: spent / limit };
+    });
+}
+
+export function usageToTable(events: UsageEvent[], prices: PriceTable): Tabular {
+  return {
+    columns: ['timestamp', 'lab', 'model', 'session', 'prompt_tokens', 'candidates_tokens', 'thoughts_tokens', 'cached_tokens', 'total_tokens', 'latency_ms', 'cost_usd'],
+    rows: events.map(e => [
+      new Date(e.timestamp).toISOString(), e.lab, e.model, e.sessionId,
+      e.promptTokens, e.candidatesTokens, e.thoughtsTokens, e.cachedTokens, e.totalTokens,
+      e.latencyMs === undefined ? '' : Math.round(e.latencyMs),
+      estimateCost(e, prices)?.toFixed(6) ?? '',
+    ].map(String)),
+  };
+}
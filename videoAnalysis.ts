@@ -0,0 +1,123 @@
+import { Type } from '@google/genai';
+import { getAI, withModelFallback } from './gemini';
+import { callGemini, GeminiError } from './errors';
+import { mediaPart, UploadStatus } from './fileUpload';
+import { formatClock, formatCueTime, escapeCueText } from './liveTranscript';
+
+// Scene-by-scene breakdown of a video. Timestamps come back as "MM:SS" strings, which models
+// produce more reliably than raw seconds, and are converted here.
+
+export interface TimelineEntry {
+  // Seconds from the start of the video
+  start: number;
+  end: number;
+  title: string;
+  description: string;
+  // Text visible on screen during the scene
+  onScreenText: string[];
+  keyMoment: boolean;
+}
+
+export interface VideoTimeline {
+  summary: string;
+  entries: TimelineEntry[];
+}
+
+export interface TimelineOptions {
+  model: string;
+  // Extra focus for the breakdown, e.g. "note every product that appears"
+  prompt: string;
+  onStatus?: (status: UploadStatus) => void;
+}
+
+const TIMELINE_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    summary: { type: Type.STRING, description: 'Two or three sentence summary of the whole video.' },
+    scenes: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          start: { type: Type.STRING, description: 'Scene start as MM:SS (or H:MM:SS).' },
+          end: { type: Type.STRING, description: 'Scene end as MM:SS (or H:MM:SS).' },
+          title: { type: Type.STRING, description: 'A few words naming the scene.' },
+          description: { type: Type.STRING, description: 'What happens and what is shown.' },
+          onScreenText: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'Text visible on screen, verbatim.' },
+          keyMoment: { type: Type.BOOLEAN, description: 'True for the few moments that matter most.' },
+        },
+        required: ['start', 'end', 'title', 'description', 'onScreenText', 'keyMoment'],
+        propertyOrdering: ['start', 'end', 'title', 'description', 'onScreenText', 'keyMoment'],
+      },
+    },
+  },
+  required: ['summary', 'scenes'],
+  propertyOrdering: ['summary', 'scenes'],
+};
+
+// Accepts "H:MM:SS", "MM:SS", "SS" and fractional seconds; returns NaN for anything else
+export function parseTimestamp(value: string): number {
+  const parts = value.trim().split(':');
+  if (parts.length > 3 || parts.some(p => !/^\d+(\.\d+)?$/.test(p))) return NaN;
+  return parts.reduce((total, p) => total * 60 + parseFloat(p), 0);
+}
+
+export function parseTimeline(raw: any): VideoTimeline {
+  const scenes: any[] = Array.isArray(raw?.scenes) ? raw.scenes : [];
+  const entries = scenes.flatMap((s): TimelineEntry[] => {
+    const start = parseTimestamp(String(s?.start ?? ''));
+    if (Number.isNaN(start)) return [];
+    const end = parseTimestamp(String(s?.end ?? ''));
+    return [{
+      start,
+      end: Number.isNaN(end) || end < start ? start : end,
+      title: String(s.title ?? ''),
+      description: String(s.description ?? ''),
+      onScreenText: Array.isArray(s.onScreenText) ? s.onScreenText.map(String).filter(Boolean) : [],
+      keyMoment: !!s.keyMoment,
+    }];
+  });
+  return { summary: String(raw?.summary ?? ''), entries: entries.sort((a, b) => a.start - b.start) };
+}
+
+export async function analyzeVideoTimeline(file: Blob, options: TimelineOptions): Promise<VideoTimeline> {
+  if (!file.type.startsWith('video/')) throw new GeminiError('invalidArgument', 'The timeline breakdown needs a video file.');
+  const ai = getAI();
+  const video = await mediaPart(file, file.type, { onStatus: options.onStatus });
+
+  const response = await callGemini(() => withModelFallback(options.model, model => ai.models.generateContent({
+    model,
+    contents: {
+      parts: [
+        video,
+        { text: `Break this video down into consecutive scenes that cover it from start to end. Use timestamps from the video itself, list any on-screen text verbatim and flag the key moments.${options.prompt.trim() ? `\n\n${options.prompt.trim()}` : ''}` }
+      ]
+    },
+    config: {
+      responseMimeType: 'application/json',
+      responseSchema: TIMELINE_SCHEMA,
+    },
+  })), { model: options.model });
+
+  try {
+    return parseTimeline(JSON.parse(response.text ?? '{}'));
+  } catch (err) {
+    throw new GeminiError('server', 'The model returned a malformed timeline.', { cause: err });
+  }
+}
+
+export function timelineToMarkdown(timeline: VideoTimeline, title = 'Video Timeline'): string {
+  const scenes = timeline.entries.map(e => [
+    `### ${e.keyMoment ? '⭐ ' : ''}${formatClock(e.start * 1000)}–${formatClock(e.end * 1000)} ${e.title}`,
+    e.description,
+    ...(e.onScreenText.length > 0 ? [`On screen: ${e.onScreenText.map(t => `"${t}"`).join(', ')}`] : []),
+  ].join('\n\n'));
+  return [`# ${title}`, timeline.summary, ...scenes].filter(Boolean).join('\n\n') + '\n';
+}
+
+// WebVTT chapters track, usable with <track kind="chapters">
+export function timelineToChapters(timeline: VideoTimeline): string {
+  const cues = timeline.entries.map((e, i) =>
+    `${i + 1}\n${formatCueTime(e.start * 1000)} --> ${formatCueTime(Math.max(e.end, e.start + 1) * 1000)}\n${escapeCueText(e.title)}`);
+  return ['WEBVTT', ...cues].join('\n\n') + '\n';
+}